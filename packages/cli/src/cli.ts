@@ -7,10 +7,16 @@ import {
 } from './commands/help.js';
 import {
   ListCommand,
+  InfoCommand,
   StartCommand,
   StopCommand,
+  ReloadCommand,
+  ScaleCommand,
+  WatchCommand,
   DeleteCommand,
   StatusCommand,
+  LogsCommand,
+  CrashesCommand,
   DaemonCommand,
 } from './commands/index.js';
 import { term } from './output.js';
@@ -73,8 +79,14 @@ async function main(): Promise<void> {
   parser.addOption({
     name: 'instances',
     alias: 'i',
-    type: 'number',
-    description: 'Number of instances',
+    type: 'string',
+    description: 'Number of instances, max, -N (all CPUs but N) or N%',
+  });
+
+  parser.addOption({
+    name: 'interpreter',
+    type: 'string',
+    description: 'Interpreter, or none to execute directly',
   });
 
   parser.addOption({
@@ -91,6 +103,56 @@ async function main(): Promise<void> {
     description: 'Minimal output',
   });
 
+  // Logs options
+  parser.addOption({
+    name: 'follow',
+    alias: 'f',
+    type: 'boolean',
+    description: 'Follow log output',
+  });
+
+  parser.addOption({
+    name: 'lines',
+    type: 'number',
+    description: 'Number of log lines',
+  });
+
+  parser.addOption({
+    name: 'err',
+    type: 'boolean',
+    description: 'Only stderr',
+  });
+
+  parser.addOption({
+    name: 'out',
+    type: 'boolean',
+    description: 'Only stdout',
+  });
+
+  parser.addOption({
+    name: 'grep',
+    type: 'string',
+    description: 'Search pattern',
+  });
+
+  parser.addOption({
+    name: 'since',
+    type: 'string',
+    description: 'Search start time',
+  });
+
+  parser.addOption({
+    name: 'until',
+    type: 'string',
+    description: 'Search end time',
+  });
+
+  parser.addOption({
+    name: 'level',
+    type: 'array',
+    description: 'Search log level',
+  });
+
   // Parse arguments
   const args = process.argv.slice(2);
   const parsed = parser.parse(args);
@@ -141,6 +203,13 @@ async function executeCommand(parsed: ParsedCommand): Promise<void> {
       break;
     }
 
+    case 'info': {
+      const cmd = new InfoCommand();
+      const infoArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(infoArgs, parsed.options);
+      break;
+    }
+
     case 'start': {
       const cmd = new StartCommand();
       const startArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
@@ -155,6 +224,27 @@ async function executeCommand(parsed: ParsedCommand): Promise<void> {
       break;
     }
 
+    case 'reload': {
+      const cmd = new ReloadCommand();
+      const reloadArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(reloadArgs, parsed.options);
+      break;
+    }
+
+    case 'scale': {
+      const cmd = new ScaleCommand();
+      const scaleArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(scaleArgs, parsed.options);
+      break;
+    }
+
+    case 'watch': {
+      const cmd = new WatchCommand();
+      const watchArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(watchArgs, parsed.options);
+      break;
+    }
+
     case 'delete': {
       const cmd = new DeleteCommand();
       const deleteArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
@@ -168,6 +258,20 @@ async function executeCommand(parsed: ParsedCommand): Promise<void> {
       break;
     }
 
+    case 'logs': {
+      const cmd = new LogsCommand();
+      const logsArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(logsArgs, parsed.options);
+      break;
+    }
+
+    case 'crashes': {
+      const cmd = new CrashesCommand();
+      const crashesArgs = subcommand ? [subcommand, ...parsed.args] : parsed.args;
+      await cmd.execute(crashesArgs, parsed.options);
+      break;
+    }
+
     case 'daemon': {
       const cmd = new DaemonCommand();
       await cmd.execute([subcommand, ...parsed.args]);
@@ -1,7 +1,70 @@
 import { IpcClient } from '@opendaemon/core';
+import type {
+  ProcessInfo,
+  ProcessLogEntry,
+  ProcessLogSource,
+  ProcessStopReport,
+  ReloadProgressEvent,
+} from '@opendaemon/core';
 import { resolve } from 'path';
 import { existsSync } from 'fs';
 
+/**
+ * Log selection sent with log.tail / log.stream
+ */
+export interface LogQuery {
+  names?: string[];
+  sources?: ProcessLogSource[];
+  lines?: number;
+}
+
+/**
+ * Filters sent with log.search
+ */
+export interface LogSearchQuery {
+  names?: string[];
+  pattern?: string;
+  ignoreCase?: boolean;
+  since?: string;
+  until?: string;
+  sources?: ProcessLogSource[];
+  levels?: string[];
+  limit?: number;
+  cursor?: { file: string; offset: number };
+}
+
+/**
+ * One page of log.search results
+ */
+export interface LogSearchPage {
+  matches: Array<ProcessLogEntry & { level?: string; file: string; offset: number }>;
+  nextCursor?: { file: string; offset: number };
+}
+
+/**
+ * Crash report listed by crash.list
+ */
+export interface CrashReportSummary {
+  id: string;
+  processName: string;
+  instanceId: number;
+  pid?: number;
+  timestamp: string;
+  exitCode: number | null;
+  signal: string | null;
+  uptime: number;
+  restartCount: number;
+  willRestart: boolean;
+}
+
+/**
+ * Full crash report returned by crash.get
+ */
+export interface CrashReport extends CrashReportSummary {
+  logs: ProcessLogEntry[];
+  envKeys: string[];
+}
+
 /**
  * CLI client for communicating with daemon
  */
@@ -10,18 +73,21 @@ export class CliClient {
   private connected = false;
   private isWindows = process.platform === 'win32';
 
-  constructor() {
+  /**
+   * @param timeout - Milliseconds to wait for each request
+   */
+  constructor(timeout = 30000) {
     // Use TCP on Windows (Unix sockets have permission issues), Unix socket on Linux/Mac
     if (this.isWindows) {
       this.client = new IpcClient({
         host: '127.0.0.1',
         port: 9995,
-        timeout: 30000,
+        timeout,
       });
     } else {
       this.client = new IpcClient({
         socketPath: resolve('opendaemon.sock'),
-        timeout: 30000,
+        timeout,
       });
     }
   }
@@ -66,6 +132,16 @@ export class CliClient {
     return this.client.call('list') as Promise<unknown[]>;
   }
 
+  /**
+   * Get detailed information about a process
+   *
+   * @returns The information, or null if the process does not exist
+   */
+  async getProcessInfo(name: string): Promise<ProcessInfo | null> {
+    this.ensureConnected();
+    return this.client.call('info', { name }) as Promise<ProcessInfo | null>;
+  }
+
   /**
    * Start a process
    */
@@ -76,10 +152,12 @@ export class CliClient {
 
   /**
    * Stop a process
+   *
+   * @returns How each instance stopped
    */
-  async stopProcess(name: string, signal?: string, timeout?: number): Promise<void> {
+  async stopProcess(name: string, signal?: string, timeout?: number): Promise<ProcessStopReport> {
     this.ensureConnected();
-    await this.client.call('stop', { name, signal, timeout });
+    return this.client.call('stop', { name, signal, timeout }) as Promise<ProcessStopReport>;
   }
 
   /**
@@ -90,6 +168,36 @@ export class CliClient {
     return this.client.call('restart', { name });
   }
 
+  /**
+   * Reload a process instance by instance. Progress of each instance is
+   * delivered to the handler as the daemon reports it.
+   */
+  async reloadProcess(name: string, onProgress: (event: ReloadProgressEvent) => void): Promise<unknown> {
+    this.ensureConnected();
+
+    this.client.onBinary((payload) => {
+      onProgress(JSON.parse(payload.toString('utf-8')) as ReloadProgressEvent);
+    });
+
+    return this.client.call('reload', { name });
+  }
+
+  /**
+   * Scale a cluster to an absolute count, or by `+N`/`-N` instances
+   */
+  async scaleProcess(name: string, instances: string): Promise<unknown> {
+    this.ensureConnected();
+    return this.client.call('scale', { name, instances });
+  }
+
+  /**
+   * Turn watch mode of a process on or off
+   */
+  async setWatch(name: string, enabled: boolean): Promise<{ name: string; watching: boolean }> {
+    this.ensureConnected();
+    return this.client.call('watch', { name, enabled }) as Promise<{ name: string; watching: boolean }>;
+  }
+
   /**
    * Delete a process
    */
@@ -114,6 +222,55 @@ export class CliClient {
     await this.client.call('daemon.shutdown');
   }
 
+  /**
+   * Get recent log lines
+   */
+  async tailLogs(params: LogQuery): Promise<ProcessLogEntry[]> {
+    this.ensureConnected();
+    return this.client.call('log.tail', params) as Promise<ProcessLogEntry[]>;
+  }
+
+  /**
+   * Subscribe to live log lines. Returns recent lines; new lines are
+   * delivered to the handler until the client disconnects.
+   */
+  async streamLogs(
+    params: LogQuery,
+    onEntry: (entry: ProcessLogEntry) => void
+  ): Promise<ProcessLogEntry[]> {
+    this.ensureConnected();
+
+    this.client.onBinary((payload) => {
+      onEntry(JSON.parse(payload.toString('utf-8')) as ProcessLogEntry);
+    });
+
+    return this.client.call('log.stream', params) as Promise<ProcessLogEntry[]>;
+  }
+
+  /**
+   * Search log files
+   */
+  async searchLogs(params: LogSearchQuery): Promise<LogSearchPage> {
+    this.ensureConnected();
+    return this.client.call('log.search', params) as Promise<LogSearchPage>;
+  }
+
+  /**
+   * List crash reports, newest first
+   */
+  async listCrashes(name?: string): Promise<CrashReportSummary[]> {
+    this.ensureConnected();
+    return this.client.call('crash.list', { name }) as Promise<CrashReportSummary[]>;
+  }
+
+  /**
+   * Get a crash report
+   */
+  async getCrash(id: string): Promise<CrashReport> {
+    this.ensureConnected();
+    return this.client.call('crash.get', { id }) as Promise<CrashReport>;
+  }
+
   /**
    * Ensure connected to daemon
    */
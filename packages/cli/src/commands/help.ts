@@ -39,6 +39,7 @@ ${term.bold('COMMANDS')}
     reload   Zero-downtime reload
     delete   Remove process(es)
     scale    Scale instances
+    watch    Restart on file changes (on, off)
 
   Monitoring:
     list     List all processes
@@ -49,6 +50,7 @@ ${term.bold('COMMANDS')}
   Logs:
     logs     View logs
     flush    Flush logs
+    crashes  Show crash reports
 
   Daemon:
     daemon   Manage daemon (start, stop, restart, status)
@@ -74,13 +76,34 @@ ${term.bold('EXAMPLES')}
 
   Start a process:
     $ od start app.js
+    $ od start worker.py --interpreter python3.12
+
+  Start one instance per CPU, all CPUs but one, or half of them:
+    $ od start app.js -i max
+    $ od start app.js --instances=-1
+    $ od start app.js -i 50%
 
   Start with config:
     $ od start opendaemon.config.ts
 
+  Replace the instances of a process one at a time:
+    $ od reload api
+
+  Add two workers to a cluster, remove one, or run exactly four:
+    $ od scale api +2
+    $ od scale api -1
+    $ od scale api 4
+
+  Restart a process whenever its files change, or stop doing so:
+    $ od watch api on
+    $ od watch api off
+
   List processes:
     $ od list
 
+  Show a process, with the next run and recent runs of a cron process:
+    $ od info nightly-report
+
   Stop a process:
     $ od stop my-app
 
@@ -1,6 +1,13 @@
 import type { OptionValue } from '../parser.js';
 import { term } from '../output.js';
-import { CliClient } from '../client.js';
+import {
+  CliClient,
+  type LogQuery,
+  type LogSearchQuery,
+  type CrashReport,
+  type CrashReportSummary,
+} from '../client.js';
+import type { CronRun, ProcessInfo, ProcessLogEntry, ProcessLogSource } from '@opendaemon/core';
 import { resolve } from 'path';
 import { existsSync, readFileSync, unlinkSync } from 'fs';
 import { spawn } from 'child_process';
@@ -22,6 +29,39 @@ export interface Command {
   execute(args: string[], options: Record<string, OptionValue | undefined>): Promise<void>;
 }
 
+/**
+ * Format a byte count with a binary unit suffix (e.g. 1.5M)
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'K', 'M', 'G', 'T'];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(1)}${units[unitIndex]}`;
+}
+
+/**
+ * Format a duration in milliseconds as hours and minutes, or minutes and seconds (e.g. 2h5m)
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h${minutes % 60}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
+
 /**
  * List command - list all processes
  */
@@ -77,12 +117,14 @@ export class ListCommand implements Command {
         return;
       }
 
-      const headers = ['ID', 'Name', 'Mode', 'Status', 'CPU', 'Memory', 'Uptime'];
+      const headers = ['ID', 'Name', 'Mode', 'Instances', 'Status', 'CPU', 'Memory', 'Uptime'];
       const rows = processes.map((proc: unknown) => {
         const p = proc as {
           id: number;
           name: string;
           mode: string;
+          instances: number;
+          runningInstances: number;
           status: string;
           cpu: number;
           memory: number;
@@ -92,9 +134,10 @@ export class ListCommand implements Command {
           String(p.id),
           p.name,
           p.mode,
+          `${p.runningInstances}/${p.instances}`,
           this.formatStatus(p.status),
           `${p.cpu.toFixed(1)}%`,
-          this.formatBytes(p.memory),
+          formatBytes(p.memory),
           this.formatDuration(p.uptime),
         ];
       });
@@ -117,24 +160,13 @@ export class ListCommand implements Command {
         return term.color('red', '✗ errored');
       case 'starting':
         return term.color('yellow', '◌ starting');
+      case 'crashloop':
+        return term.color('magenta', '↻ crashloop');
       default:
         return status;
     }
   }
 
-  private formatBytes(bytes: number): string {
-    const units = ['B', 'K', 'M', 'G', 'T'];
-    let value = bytes;
-    let unitIndex = 0;
-
-    while (value >= 1024 && unitIndex < units.length - 1) {
-      value /= 1024;
-      unitIndex++;
-    }
-
-    return `${value.toFixed(1)}${units[unitIndex]}`;
-  }
-
   private formatDuration(ms: number): string {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -154,6 +186,112 @@ export class ListCommand implements Command {
   }
 }
 
+/**
+ * Info command - show detailed information about a process
+ */
+export class InfoCommand implements Command {
+  name = 'info';
+  description = 'Show detailed process information';
+  options = [
+    {
+      name: 'json',
+      type: 'boolean' as const,
+      description: 'Output as JSON',
+    },
+  ];
+
+  async execute(
+    args: string[],
+    options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    if (args.length === 0) {
+      term.error('No process name specified');
+      process.exit(1);
+    }
+
+    const isJson = options['json'] === true;
+    const name = args[0]!;
+
+    try {
+      const client = new CliClient();
+      await client.connect();
+
+      const info = await client.getProcessInfo(name);
+      await client.disconnect();
+
+      if (!info) {
+        term.error(`Process "${name}" not found`);
+        process.exit(1);
+      }
+
+      if (isJson) {
+        console.log(JSON.stringify(info, null, 2));
+        return;
+      }
+      this.printInfo(info);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to get process info: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  private printInfo(info: ProcessInfo): void {
+    console.log(term.bold(`${info.name} (id ${info.id})`));
+    console.log(`  Status:    ${info.status}${info.errorMessage ? ` - ${info.errorMessage}` : ''}`);
+    console.log(`  Mode:      ${info.mode}, ${info.runningInstances}/${info.instances} instance(s)`);
+    console.log(`  PIDs:      ${info.pids.length > 0 ? info.pids.join(', ') : '-'}`);
+    console.log(`  Script:    ${info.script}`);
+    if (info.cwd) {
+      console.log(`  Cwd:       ${info.cwd}`);
+    }
+    console.log(`  Uptime:    ${formatDuration(info.uptime)}`);
+    console.log(`  Restarts:  ${info.restartCount}`);
+    console.log(`  CPU:       ${info.cpu.toFixed(1)}%`);
+    console.log(`  Memory:    ${formatBytes(info.memory)}`);
+    if (info.health) {
+      console.log(`  Health:    ${info.health.status}${info.health.lastMessage ? ` - ${info.health.lastMessage}` : ''}`);
+    }
+    if (info.watching !== undefined) {
+      console.log(`  Watching:  ${info.watching ? 'yes' : 'no'}`);
+    }
+
+    const schedule = info.schedule;
+    if (schedule) {
+      console.log('');
+      console.log(term.bold('Schedule:'));
+      console.log(`  Cron:      ${schedule.schedule} (${schedule.timezone})`);
+      console.log(`  Next run:  ${schedule.nextRun ?? 'never'}`);
+      if (schedule.history.length > 0) {
+        console.log('');
+        console.log(term.bold('Runs:'));
+        for (const run of schedule.history.slice().reverse()) {
+          console.log(`  ${term.dim(run.startedAt)} ${this.formatRun(run)}`);
+        }
+      }
+    }
+  }
+
+  private formatRun(run: CronRun): string {
+    const attempt = run.attempt > 1 ? ` attempt ${run.attempt}` : '';
+    const exit = run.signal ? `, signal ${run.signal}` : run.code !== undefined && run.code !== null ? `, code ${run.code}` : '';
+    const duration = run.duration !== undefined ? ` in ${formatDuration(run.duration)}` : '';
+    const message = run.message ? `: ${run.message}` : '';
+    const line = `${run.status} (${run.trigger}${attempt}${exit})${duration}${message}`;
+
+    switch (run.status) {
+      case 'succeeded':
+        return term.color('green', line);
+      case 'failed':
+        return term.color('red', line);
+      case 'running':
+        return term.color('yellow', line);
+      default:
+        return term.color('gray', line);
+    }
+  }
+}
+
 /**
  * Start command - start a process
  */
@@ -170,15 +308,19 @@ export class StartCommand implements Command {
     {
       name: 'instances',
       alias: 'i',
-      type: 'number' as const,
-      description: 'Number of instances',
-      default: 1,
+      type: 'string' as const,
+      description: 'Number of instances, max, -N (all CPUs but N) or N%',
     },
     {
       name: 'max-memory',
       type: 'string' as const,
       description: 'Max memory (e.g., 512M, 1G)',
     },
+    {
+      name: 'interpreter',
+      type: 'string' as const,
+      description: 'Interpreter (e.g., python3, bash), or none to execute directly',
+    },
     {
       name: 'env',
       type: 'array' as const,
@@ -203,7 +345,8 @@ export class StartCommand implements Command {
 
     const target = args[0] || '';
     const name = (options['name'] as string) || target.replace(/\.(js|ts)$/, '');
-    const instances = (options['instances'] as number) || 1;
+    const instances = this.parseInstances(options['instances']);
+    const interpreter = options['interpreter'] as string | undefined;
     
 
     // Check if it's a config file
@@ -236,14 +379,15 @@ export class StartCommand implements Command {
         name,
         script: scriptPath,
         instances,
-        mode: instances > 1 ? 'cluster' : 'fork',
+        mode: instances === 1 ? 'fork' : 'cluster',
         cwd: process.cwd(),
+        ...(interpreter ? { interpreter } : {}),
       };
 
-      await client.startProcess(processConfig);
+      const info = (await client.startProcess(processConfig)) as { instances?: number } | undefined;
       await client.disconnect();
 
-      spinner.stop(true, `Started ${name} with ${instances} instance(s)`);
+      spinner.stop(true, `Started ${name} with ${info?.instances ?? instances} instance(s)`);
     } catch (err) {
       spinner.stop(false);
       const error = err instanceof Error ? err : new Error(String(err));
@@ -251,6 +395,17 @@ export class StartCommand implements Command {
       process.exit(1);
     }
   }
+
+  /**
+   * Keep numeric instance counts numeric; 'max' and percentages are resolved by the daemon
+   */
+  private parseInstances(value: OptionValue | undefined): number | string {
+    if (value === undefined || value === true || value === '') {
+      return 1;
+    }
+    const text = String(value).trim();
+    return /^-?\d+$/.test(text) ? Number(text) : text;
+  }
 }
 
 /**
@@ -269,14 +424,15 @@ export class StopCommand implements Command {
 
   async execute(
     args: string[],
-    _options: Record<string, OptionValue | undefined>
+    options: Record<string, OptionValue | undefined>
   ): Promise<void> {
     if (args.length === 0) {
       term.error('No process name specified');
       process.exit(1);
     }
 
-    const name = args[0];
+    const isJson = options['json'] === true;
+    const name = args[0]!;
     const spinner = term.spinner(`Stopping ${name}...`);
     spinner.start();
 
@@ -286,10 +442,19 @@ export class StopCommand implements Command {
       await client.connect();
 
       // Stop the process
-      await client.stopProcess(name);
+      const report = await client.stopProcess(name);
       await client.disconnect();
 
       spinner.stop(true, `Stopped ${name}`);
+      if (isJson) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+      for (const instance of report?.instances ?? []) {
+        const exit = instance.signal ? `signal ${instance.signal}` : `code ${instance.code}`;
+        const line = `  [${instance.instanceId}] pid ${instance.pid}: ${exit} after ${instance.duration}ms`;
+        console.log(instance.killed ? term.color('yellow', `${line} (killed after timeout)`) : line);
+      }
     } catch (err) {
       spinner.stop(false);
       const error = err instanceof Error ? err : new Error(String(err));
@@ -299,6 +464,151 @@ export class StopCommand implements Command {
   }
 }
 
+/**
+ * Milliseconds to wait for a reload; each instance may take up to its
+ * readyTimeout and killTimeout
+ */
+const RELOAD_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Reload command - replace the instances of a process one at a time
+ */
+export class ReloadCommand implements Command {
+  name = 'reload';
+  description = 'Reload a process without downtime';
+  options = [
+    {
+      name: 'json',
+      type: 'boolean' as const,
+      description: 'Output as JSON',
+    },
+  ];
+
+  async execute(
+    args: string[],
+    _options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    if (args.length === 0) {
+      term.error('No process name specified');
+      process.exit(1);
+    }
+
+    const name = args[0]!;
+    const spinner = term.spinner(`Reloading ${name}...`);
+    spinner.start();
+
+    try {
+      // Connect to daemon via IPC
+      const client = new CliClient(RELOAD_TIMEOUT);
+      await client.connect();
+
+      let replaced = 0;
+      await client.reloadProcess(name, (event) => {
+        const instance = `${event.instanceId + 1}/${event.total}`;
+        if (event.step === 'starting') {
+          spinner.update(`Reloading ${name} [${instance}]: starting new instance...`);
+        } else if (event.step === 'replaced') {
+          replaced++;
+          spinner.update(`Reloading ${name} [${instance}]: replaced pid ${event.oldPid ?? '-'} with ${event.newPid ?? '-'}`);
+        }
+      });
+      await client.disconnect();
+
+      spinner.stop(true, `Reloaded ${name} (${replaced} instance${replaced === 1 ? '' : 's'} replaced)`);
+    } catch (err) {
+      spinner.stop(false);
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to reload process: ${error.message}`);
+      process.exit(1);
+    }
+  }
+}
+
+/**
+ * Scale command - change the instance count of a running cluster
+ */
+export class ScaleCommand implements Command {
+  name = 'scale';
+  description = 'Scale instances';
+  options = [
+    {
+      name: 'json',
+      type: 'boolean' as const,
+      description: 'Output as JSON',
+    },
+  ];
+
+  async execute(
+    args: string[],
+    _options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    if (args.length < 2) {
+      term.error('Usage: od scale <name> <+N|-N|N>');
+      process.exit(1);
+    }
+
+    const name = args[0]!;
+    const instances = args[1]!;
+    const spinner = term.spinner(`Scaling ${name} to ${instances}...`);
+    spinner.start();
+
+    try {
+      // Connect to daemon via IPC
+      const client = new CliClient();
+      await client.connect();
+
+      const info = (await client.scaleProcess(name, instances)) as { instances?: number } | undefined;
+      await client.disconnect();
+
+      spinner.stop(true, `Scaled ${name} to ${info?.instances ?? instances} instance(s)`);
+    } catch (err) {
+      spinner.stop(false);
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to scale process: ${error.message}`);
+      process.exit(1);
+    }
+  }
+}
+
+/**
+ * Watch command - turn restarting on file changes on or off
+ */
+export class WatchCommand implements Command {
+  name = 'watch';
+  description = 'Restart a process when its files change';
+
+  async execute(
+    args: string[],
+    _options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    const name = args[0];
+    const state = args[1];
+    if (!name || (state !== 'on' && state !== 'off')) {
+      term.error('Usage: od watch <name> on|off');
+      process.exit(1);
+    }
+
+    try {
+      // Connect to daemon via IPC
+      const client = new CliClient();
+      await client.connect();
+
+      const result = await client.setWatch(name, state === 'on');
+      await client.disconnect();
+
+      if (result.watching) {
+        term.success(`Watching ${name}: it restarts when its files change`);
+      } else {
+        term.success(`Stopped watching ${name}`);
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to set watch mode: ${error.message}`);
+      process.exit(1);
+    }
+  }
+}
+
 /**
  * Delete command - delete a process
  */
@@ -375,6 +685,278 @@ export class StatusCommand implements Command {
   }
 }
 
+/**
+ * Colors cycled through for per-process log prefixes
+ */
+const LOG_PREFIX_COLORS = ['cyan', 'magenta', 'blue', 'yellow', 'green'] as const;
+
+/**
+ * Logs command - show recent process output and optionally follow it
+ */
+export class LogsCommand implements Command {
+  name = 'logs';
+  description = 'Show process logs';
+  options = [
+    {
+      name: 'follow',
+      alias: 'f',
+      type: 'boolean' as const,
+      description: 'Stream new lines as they are written',
+    },
+    {
+      name: 'lines',
+      type: 'number' as const,
+      description: 'Number of recent lines to show',
+      default: 15,
+    },
+    {
+      name: 'err',
+      type: 'boolean' as const,
+      description: 'Show only stderr',
+    },
+    {
+      name: 'out',
+      type: 'boolean' as const,
+      description: 'Show only stdout',
+    },
+    {
+      name: 'grep',
+      type: 'string' as const,
+      description: 'Search log files for lines matching a regex',
+    },
+    {
+      name: 'since',
+      type: 'string' as const,
+      description: 'Search lines newer than a date or duration (e.g. 15m)',
+    },
+    {
+      name: 'until',
+      type: 'string' as const,
+      description: 'Search lines older than a date or duration',
+    },
+    {
+      name: 'level',
+      type: 'array' as const,
+      description: 'Search lines of the given level(s)',
+    },
+    {
+      name: 'json',
+      type: 'boolean' as const,
+      description: 'Output one JSON entry per line',
+    },
+  ];
+
+  async execute(
+    args: string[],
+    options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    const isJson = options['json'] === true;
+    const lines = typeof options['lines'] === 'number' ? options['lines'] : 15;
+    const sources: ProcessLogSource[] = [];
+    if (options['out'] === true) {
+      sources.push('stdout');
+    }
+    if (options['err'] === true) {
+      sources.push('stderr');
+    }
+
+    const query: LogQuery = { lines };
+    if (args.length > 0) {
+      query.names = args;
+    }
+    if (sources.length > 0) {
+      query.sources = sources;
+    }
+
+    const print = (entry: ProcessLogEntry): void => {
+      console.log(isJson ? JSON.stringify(entry) : this.formatEntry(entry));
+    };
+
+    const isSearch =
+      options['grep'] !== undefined ||
+      options['since'] !== undefined ||
+      options['until'] !== undefined ||
+      options['level'] !== undefined;
+
+    try {
+      const client = new CliClient();
+      await client.connect();
+
+      if (isSearch) {
+        // --lines caps the matches shown; searches default to a larger page
+        const search: LogSearchQuery = { limit: typeof options['lines'] === 'number' ? lines : 100 };
+        if (query.names) {
+          search.names = query.names;
+        }
+        if (query.sources) {
+          search.sources = query.sources;
+        }
+        if (typeof options['grep'] === 'string') {
+          search.pattern = options['grep'];
+        }
+        if (typeof options['since'] === 'string') {
+          search.since = options['since'];
+        }
+        if (typeof options['until'] === 'string') {
+          search.until = options['until'];
+        }
+        if (Array.isArray(options['level'])) {
+          search.levels = options['level'];
+        }
+
+        const result = await client.searchLogs(search);
+        await client.disconnect();
+        result.matches.forEach(print);
+        if (result.nextCursor && !isJson) {
+          term.info(`More matches available; showing first ${result.matches.length} (use --lines to show more)`);
+        }
+        return;
+      }
+
+      if (options['follow'] !== true) {
+        const entries = await client.tailLogs(query);
+        await client.disconnect();
+        entries.forEach(print);
+        return;
+      }
+
+      // Hold live lines until the backlog is printed so output stays ordered
+      let live: ProcessLogEntry[] | undefined = [];
+      const backlog = await client.streamLogs(query, (entry) => {
+        if (live) {
+          live.push(entry);
+        } else {
+          print(entry);
+        }
+      });
+      backlog.forEach(print);
+      live.forEach(print);
+      live = undefined;
+
+      process.once('SIGINT', () => {
+        void client.disconnect().then(() => process.exit(0));
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to read logs: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  private formatEntry(entry: ProcessLogEntry): string {
+    const prefix = term.color(
+      this.colorFor(entry.processName),
+      `${entry.processName}[${entry.instanceId}]`
+    );
+    const message = entry.source === 'stderr' ? term.color('red', entry.message) : entry.message;
+    return `${prefix} ${term.dim('|')} ${message}`;
+  }
+
+  private colorFor(name: string): (typeof LOG_PREFIX_COLORS)[number] {
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) {
+      hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+    }
+    return LOG_PREFIX_COLORS[hash % LOG_PREFIX_COLORS.length]!;
+  }
+}
+
+/**
+ * Crashes command - list and show crash reports
+ */
+export class CrashesCommand implements Command {
+  name = 'crashes';
+  description = 'List crash reports, or show one with `crashes show <id>`';
+  options = [
+    {
+      name: 'json',
+      type: 'boolean' as const,
+      description: 'Output as JSON',
+    },
+  ];
+
+  async execute(
+    args: string[],
+    options: Record<string, OptionValue | undefined>
+  ): Promise<void> {
+    const isJson = options['json'] === true;
+
+    try {
+      const client = new CliClient();
+      await client.connect();
+
+      if (args[0] === 'show') {
+        const id = args[1];
+        if (!id) {
+          await client.disconnect();
+          term.error('No crash report id specified');
+          process.exit(1);
+        }
+
+        const report = await client.getCrash(id);
+        await client.disconnect();
+
+        if (isJson) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+        this.printReport(report);
+        return;
+      }
+
+      const reports = await client.listCrashes(args[0]);
+      await client.disconnect();
+
+      if (isJson) {
+        console.log(JSON.stringify(reports, null, 2));
+        return;
+      }
+
+      if (reports.length === 0) {
+        term.info('No crash reports');
+        return;
+      }
+
+      const headers = ['ID', 'Name', 'Instance', 'Exit', 'Uptime', 'Restarts', 'Time'];
+      const rows = reports.map((report) => [
+        report.id,
+        report.processName,
+        String(report.instanceId),
+        this.formatExit(report),
+        formatDuration(report.uptime),
+        String(report.restartCount),
+        report.timestamp,
+      ]);
+
+      console.log(term.table(headers, rows));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      term.error(`Failed to get crash reports: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  private printReport(report: CrashReport): void {
+    console.log(term.bold(`Crash report ${report.id}`));
+    console.log(`  Process:   ${report.processName}[${report.instanceId}]${report.pid ? ` (pid ${report.pid})` : ''}`);
+    console.log(`  Time:      ${report.timestamp}`);
+    console.log(`  Exit:      ${this.formatExit(report)}`);
+    console.log(`  Uptime:    ${formatDuration(report.uptime)}`);
+    console.log(`  Restarts:  ${report.restartCount}${report.willRestart ? ' (restarting)' : ''}`);
+    console.log(`  Env keys:  ${report.envKeys.join(', ')}`);
+    console.log('');
+    console.log(term.bold('Last output:'));
+    for (const entry of report.logs) {
+      const message = entry.source === 'stderr' ? term.color('red', entry.message) : entry.message;
+      console.log(`  ${term.dim(entry.timestamp)} ${message}`);
+    }
+  }
+
+  private formatExit(report: CrashReportSummary): string {
+    return term.color('red', report.signal ? `signal ${report.signal}` : `code ${report.exitCode}`);
+  }
+}
+
 const PID_FILE = 'opendaemon.pid';
 const SOCKET_FILE = 'opendaemon.sock';
 
@@ -4,6 +4,13 @@ import { Kernel, Logger } from '@opendaemon/core';
 import { IpcServer } from '@opendaemon/core';
 import { ProcessManagerPlugin } from '../../plugins/process-manager/src/index.js';
 import { ConfigManagerPlugin } from '../../plugins/config-manager/src/index.js';
+import { LogManagerPlugin } from '../../plugins/log-manager/src/index.js';
+import { CrashReporterPlugin } from '../../plugins/crash-reporter/src/index.js';
+import { HealthCheckPlugin } from '../../plugins/health-check/src/index.js';
+import { ResourceLimiterPlugin } from '../../plugins/resource-limiter/src/index.js';
+import { AutoScalerPlugin } from '../../plugins/auto-scaler/src/index.js';
+import { SchedulerPlugin } from '../../plugins/scheduler/src/index.js';
+import { WatchModePlugin } from '../../plugins/watch-mode/src/index.js';
 import { WebuiPlugin } from '../../plugins/webui/src/index.js';
 
 import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
@@ -71,6 +78,13 @@ export async function main(): Promise<void> {
     // Register plugins (they will register their RPC methods now)
     kernel.registerPlugin(new ConfigManagerPlugin());
     kernel.registerPlugin(new ProcessManagerPlugin());
+    kernel.registerPlugin(new LogManagerPlugin());
+    kernel.registerPlugin(new CrashReporterPlugin());
+    kernel.registerPlugin(new HealthCheckPlugin());
+    kernel.registerPlugin(new ResourceLimiterPlugin());
+    kernel.registerPlugin(new AutoScalerPlugin());
+    kernel.registerPlugin(new SchedulerPlugin());
+    kernel.registerPlugin(new WatchModePlugin());
     kernel.registerPlugin(new WebuiPlugin());
 
     // Start kernel with configuration
@@ -14,6 +14,9 @@ export enum ErrorCode {
   PROCESS_START_FAILED = 'PROCESS_START_FAILED',
   PROCESS_STOP_FAILED = 'PROCESS_STOP_FAILED',
   PROCESS_INVALID_CONFIG = 'PROCESS_INVALID_CONFIG',
+  PROCESS_DEPENDENCY_MISSING = 'PROCESS_DEPENDENCY_MISSING',
+  PROCESS_DEPENDENCY_CIRCULAR = 'PROCESS_DEPENDENCY_CIRCULAR',
+  PROCESS_DEPENDENCY_FAILED = 'PROCESS_DEPENDENCY_FAILED',
 
   // Configuration errors
   CONFIG_NOT_FOUND = 'CONFIG_NOT_FOUND',
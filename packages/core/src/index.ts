@@ -43,11 +43,42 @@ export type {
   HealthCheckType,
   HealthCheckConfig,
   ProcessConfig,
+  InstanceCount,
+  DependencyCondition,
+  ProcessDependency,
   ProcessStatus,
   ProcessInfo,
   ProcessMode,
   DaemonConfig,
   LogRotationConfig,
+  LogBufferConfig,
+  ProcessLogSource,
+  ProcessLogEntry,
+  ProcessCrashEvent,
+  CrashLoopConfig,
+  ProcessCrashLoopEvent,
+  ProcessScaledEvent,
+  InstanceStopReport,
+  ProcessStopReport,
+  ReloadStep,
+  ReloadProgressEvent,
+  ResourceLimitAction,
+  AutoScaleMetric,
+  AutoScaleRule,
+  AutoScaleConfig,
+  LoadBalancingStrategy,
+  LoadBalancingConfig,
+  ProcessMetricsReport,
+  ResourceLimitsConfig,
+  ProcessLimitEvent,
+  HealthStatus,
+  ProcessHealth,
+  CronOverlap,
+  CronConfig,
+  CronTrigger,
+  CronRunStatus,
+  CronRun,
+  ProcessSchedule,
   WatchConfig,
   MetricType,
   MetricDefinition,
@@ -58,6 +89,7 @@ export type {
 
 // Utilities
 export { Logger, LogLevel, type LogEntry, type LogHandler } from './utils/logger.js';
+export { parseSize, parseDuration, isRotationEnabled, validateLogRotation } from './utils/units.js';
 
 // IPC
 export {
@@ -27,6 +27,7 @@ export class IpcClient implements IIpcClient {
   private buffer: Buffer = Buffer.alloc(0);
   private pendingRequests = new Map<string | number, PendingRequest>();
   private notificationHandlers: Array<(method: string, params: unknown) => void> = [];
+  private binaryHandlers: Array<(payload: Buffer) => void> = [];
   private config: Required<IpcClientConfig>;
   private logger: Logger;
   private connected = false;
@@ -179,6 +180,13 @@ export class IpcClient implements IIpcClient {
     this.notificationHandlers.push(handler);
   }
 
+  /**
+   * Register handler for BINARY frames pushed by the server (e.g. log streams)
+   */
+  onBinary(handler: (payload: Buffer) => void): void {
+    this.binaryHandlers.push(handler);
+  }
+
   /**
    * Handle incoming data
    */
@@ -196,6 +204,9 @@ export class IpcClient implements IIpcClient {
         case FrameType.JSON_RPC_NOTIFICATION:
           this.handleNotification(frame.payload);
           break;
+        case FrameType.BINARY:
+          this.handleBinary(frame.payload);
+          break;
         case FrameType.HEARTBEAT:
           // Send heartbeat response
           if (this.socket) {
@@ -257,6 +268,19 @@ export class IpcClient implements IIpcClient {
     }
   }
 
+  /**
+   * Handle binary frame
+   */
+  private handleBinary(data: Buffer): void {
+    for (const handler of this.binaryHandlers) {
+      try {
+        handler(data);
+      } catch (err) {
+        this.logger.error('Error in binary handler', undefined, err as Error);
+      }
+    }
+  }
+
   /**
    * Add auth token to params
    */
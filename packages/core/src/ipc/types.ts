@@ -67,5 +67,6 @@ export interface IIpcClient {
   disconnect(): Promise<void>;
   call(method: string, params?: unknown): Promise<unknown>;
   onNotification(handler: (method: string, params: unknown) => void): void;
+  onBinary(handler: (payload: Buffer) => void): void;
   isConnected(): boolean;
 }
@@ -37,6 +37,17 @@ export interface TcpHealthCheckConfig {
   port: number;
 }
 
+/**
+ * gRPC health check configuration (grpc.health.v1.Health/Check)
+ */
+export interface GrpcHealthCheckConfig {
+  host?: string;
+  port: number;
+  service?: string;
+  tls?: boolean;
+  rejectUnauthorized?: boolean;
+}
+
 /**
  * Script/Command health check configuration
  */
@@ -73,6 +84,9 @@ export interface HealthCheckConfig {
   expectedBody?: string | RegExp;
   host?: string;
   port?: number;
+  service?: string;
+  tls?: boolean;
+  rejectUnauthorized?: boolean;
   command?: string;
   args?: string[];
   checks?: HealthCheckConfig[];
@@ -80,6 +94,22 @@ export interface HealthCheckConfig {
   threshold?: number;
 }
 
+/**
+ * Health of a process as seen by its health check
+ */
+export type HealthStatus = 'unknown' | 'healthy' | 'unhealthy';
+
+/**
+ * Current health check state of a process
+ */
+export interface ProcessHealth {
+  status: HealthStatus;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  lastCheck?: string | undefined;
+  lastMessage?: string | undefined;
+}
+
 /**
  * Secret reference in configuration
  */
@@ -108,6 +138,12 @@ export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
  */
 export type ProcessMode = 'fork' | 'cluster';
 
+/**
+ * Number of instances: a count, `'max'` for one per CPU, a negative offset
+ * from the CPU count, or a percentage of the CPUs such as `'50%'`
+ */
+export type InstanceCount = number | 'max' | `${number}%` | `${number}`;
+
 /**
  * Process configuration
  */
@@ -116,17 +152,21 @@ export interface ProcessConfig {
   script: string;
   cwd?: string;
   env?: Record<string, EnvValue>;
-  instances?: number | 'max';
+  instances?: InstanceCount;
   mode?: ProcessMode;
+  autoScale?: AutoScaleConfig;
+  loadBalancing?: LoadBalancingConfig;
 
   // Execution
   interpreter?: string;
   interpreterArgs?: string[];
   args?: string[];
+  ipc?: boolean;
 
   // Resource limits
   maxMemory?: string | number;
   maxCpu?: number;
+  limits?: ResourceLimitsConfig;
 
   // Lifecycle
   autoRestart?: boolean | RestartStrategy;
@@ -134,9 +174,24 @@ export interface ProcessConfig {
   maxRestarts?: number;
   minUptime?: number;
   killTimeout?: number;
+  /**
+   * Ask instances to exit with a `{ type: 'shutdown' }` IPC message instead
+   * of the stop signal, e.g. where signals are unreliable. Instances without
+   * an IPC channel get the signal.
+   */
+  shutdownWithMessage?: boolean;
   backoffStrategy?: BackoffStrategy;
   backoffMultiplier?: number;
   maxBackoffDelay?: number;
+  /**
+   * Pause restarts when a process keeps crashing (off by default). `true`
+   * uses the defaults: 5 restarts within 60s pause restarts for 300s.
+   */
+  crashLoop?: CrashLoopConfig | boolean;
+  /** Wait for each instance to send 'ready' (process.send('ready')) on reload */
+  waitReady?: boolean;
+  /** Milliseconds to wait for a new instance to become ready on reload (default: 3000) */
+  readyTimeout?: number;
 
   // Health check
   healthCheck?: HealthCheckConfig;
@@ -147,22 +202,160 @@ export interface ProcessConfig {
   logLevel?: string;
   mergeLogs?: boolean;
   logRotation?: LogRotationConfig;
+  logBuffer?: LogBufferConfig;
 
   // Advanced
   uid?: number | string;
   gid?: number | string;
   nice?: number;
   umask?: string | number;
+  /**
+   * Spawn instances as process group leaders, so that stops reach their
+   * descendants (default: true, ignored on Windows). Groups still running
+   * when the daemon exits are sent SIGTERM.
+   */
   detached?: boolean;
-  cron?: string;
+  /** Run the process on a schedule instead of keeping it running (requires the scheduler plugin) */
+  cron?: string | CronConfig;
   watch?: boolean | WatchConfig;
-  dependencies?: string[];
+
+  // Dependencies
+  /** Processes that must meet their condition before this one starts */
+  dependencies?: Array<string | ProcessDependency>;
+  /** Milliseconds to wait for the dependencies before failing to start (default: 60000) */
+  dependencyTimeout?: number;
+  /** Stop running dependents before this process when it is stopped (default: true) */
+  cascadeStop?: boolean;
+  /** Restart running dependents after this process when it is restarted (default: false) */
+  cascadeRestart?: boolean;
 
   // Metadata
   description?: string;
   version?: string;
 }
 
+/**
+ * When a dependency lets its dependents start: once it is online, once it
+ * passed its health check, or once it exited with code 0 (e.g. migrations).
+ * A `completed` dependency must not restart on success: its autoRestart has
+ * to be false, 'never' or 'on-failure', and it cannot be a cron process.
+ */
+export type DependencyCondition = 'online' | 'healthy' | 'completed';
+
+/**
+ * A process another process waits for before starting
+ */
+export interface ProcessDependency {
+  name: string;
+  /** Default: 'healthy' if the dependency has a healthCheck, otherwise 'online' */
+  condition?: DependencyCondition;
+}
+
+/**
+ * Action taken when a process exceeds maxMemory or maxCpu
+ */
+export type ResourceLimitAction = 'warn' | 'restart' | 'stop';
+
+/**
+ * How maxMemory and maxCpu are enforced. Limits apply to the usage of a
+ * process summed over its instances and their descendants.
+ */
+export interface ResourceLimitsConfig {
+  /** Action when a limit is exceeded (default: restart) */
+  action?: ResourceLimitAction;
+  /** Milliseconds memory may stay above maxMemory before acting (default: 0) */
+  memoryGracePeriod?: number;
+  /** Milliseconds CPU must stay above maxCpu before acting (default: 60000) */
+  cpuDuration?: number;
+  /** Pass --max-old-space-size to Node.js: `true` for maxMemory, or an explicit size */
+  maxOldSpaceSize?: boolean | string | number;
+}
+
+/**
+ * Metric an auto-scaling rule watches, averaged over the running instances:
+ * percent of one core, bytes of RSS, milliseconds of event loop delay, or
+ * a metric the instances report with the SDK
+ */
+export type AutoScaleMetric = 'cpu' | 'memory' | 'eventLoopLatency' | 'custom';
+
+/**
+ * When to add or remove instances
+ */
+export interface AutoScaleRule {
+  metric: AutoScaleMetric;
+  /** Name of the SDK metric when metric is 'custom' */
+  customMetric?: string;
+  /** Scale up above / scale down below this value; sizes such as '512M' for memory */
+  threshold: number | string;
+  /** Milliseconds the metric must stay past the threshold */
+  duration: number;
+  /** Instances added or removed at once */
+  step: number;
+  /** Milliseconds after any scaling before this rule may act */
+  cooldown: number;
+}
+
+/**
+ * Auto-scaling of a cluster between min and max instances
+ */
+export interface AutoScaleConfig {
+  /** Default: true */
+  enabled?: boolean;
+  min: number;
+  max: number;
+  scaleUp?: AutoScaleRule;
+  scaleDown?: AutoScaleRule;
+}
+
+/**
+ * How the primary of a cluster picks the worker of a new connection
+ */
+export type LoadBalancingStrategy = 'round-robin' | 'least-connections' | 'ip-hash' | 'random' | 'weighted';
+
+/**
+ * Connection distribution of a cluster by its primary. The primary listens on
+ * the port and hands each connection to a worker that accepts connections
+ * with the SDK (acceptConnections) instead of listening itself.
+ */
+export interface LoadBalancingConfig {
+  /** Port the primary listens on */
+  port: number;
+  /** Address the primary listens on (default: all interfaces) */
+  host?: string;
+  /** Default: round-robin */
+  strategy?: LoadBalancingStrategy;
+  /** Send the connections of a client address to the same worker while it runs */
+  sticky?: boolean;
+  /** Relative weights of the instances by instance id for 'weighted' (default: 1) */
+  weights?: number[];
+}
+
+/**
+ * Metrics an instance reported with the SDK, emitted as process:metrics
+ */
+export interface ProcessMetricsReport {
+  name: string;
+  instanceId: number;
+  pid?: number | undefined;
+  metrics: Record<string, number>;
+}
+
+/**
+ * Emitted when a process stays above one of its resource limits
+ */
+export interface ProcessLimitEvent {
+  name: string;
+  resource: 'memory' | 'cpu';
+  /** MEMORY_LIMIT_EXCEEDED or CPU_LIMIT_EXCEEDED */
+  code: string;
+  /** Sampled value: bytes of RSS or percent of one core */
+  value: number;
+  limit: number;
+  /** Milliseconds the process has been above the limit */
+  duration: number;
+  action: ResourceLimitAction;
+}
+
 /**
  * Log rotation configuration
  */
@@ -176,6 +369,196 @@ export interface LogRotationConfig {
   datePattern?: string;
 }
 
+/**
+ * In-memory buffer of recent output kept per process instance
+ */
+export interface LogBufferConfig {
+  /** Maximum number of lines (default: 100, 0 disables the buffer) */
+  lines?: number;
+  /** Maximum message bytes, e.g. "64K" (default: 64K) */
+  bytes?: string | number;
+}
+
+/**
+ * Output stream a log line was read from
+ */
+export type ProcessLogSource = 'stdout' | 'stderr';
+
+/**
+ * A single line of output captured from a managed process
+ */
+export interface ProcessLogEntry {
+  timestamp: string;
+  processName: string;
+  instanceId: number;
+  pid?: number | undefined;
+  source: ProcessLogSource;
+  message: string;
+}
+
+/**
+ * Crash-loop detection: `restarts` restarts within `window` ms quarantine the
+ * process in the `crashloop` status for `cooldown` ms before the next restart
+ */
+export interface CrashLoopConfig {
+  restarts?: number;
+  window?: number;
+  cooldown?: number;
+}
+
+/**
+ * Emitted when a process enters the `crashloop` status
+ */
+export interface ProcessCrashLoopEvent {
+  name: string;
+  instanceId: number;
+  /** Restarts counted within the window */
+  restarts: number;
+  window: number;
+  /** Milliseconds until the next restart */
+  cooldown: number;
+}
+
+/**
+ * How one instance of a process stopped
+ */
+export interface InstanceStopReport {
+  instanceId: number;
+  pid: number;
+  code: number | null;
+  signal: string | null;
+  /** Milliseconds from the stop request to the exit */
+  duration: number;
+  /** Whether the instance was killed with SIGKILL after killTimeout */
+  killed: boolean;
+}
+
+/**
+ * Result of stopping a process
+ */
+export interface ProcessStopReport {
+  name: string;
+  instances: InstanceStopReport[];
+  /** Milliseconds until every instance and its descendants were gone */
+  duration: number;
+}
+
+/**
+ * Emitted when the instance count of a running cluster changes
+ */
+export interface ProcessScaledEvent {
+  name: string;
+  from: number;
+  to: number;
+  /** Why the process was scaled, e.g. the rule of an auto-scaler */
+  reason?: string | undefined;
+}
+
+/**
+ * Step of a rolling reload
+ */
+export type ReloadStep = 'starting' | 'replaced' | 'failed';
+
+/**
+ * Progress of a rolling reload, emitted as process:reload and pushed to the
+ * client that requested it
+ */
+export interface ReloadProgressEvent {
+  name: string;
+  instanceId: number;
+  /** Number of instances being replaced */
+  total: number;
+  step: ReloadStep;
+  oldPid?: number | undefined;
+  newPid?: number | undefined;
+  /** Why the replacement failed */
+  message?: string | undefined;
+}
+
+/**
+ * Snapshot of a process instance that exited abnormally (non-zero code or signal)
+ */
+export interface ProcessCrashEvent {
+  name: string;
+  instanceId: number;
+  pid?: number | undefined;
+  exitCode: number | null;
+  signal: string | null;
+  /** Milliseconds the instance was up */
+  uptime: number;
+  restartCount: number;
+  /** Whether the process manager will restart the instance */
+  willRestart: boolean;
+  /** Recent output of the instance, oldest first */
+  logs: ProcessLogEntry[];
+  /** Names of the environment variables the instance ran with */
+  envKeys: string[];
+}
+
+/**
+ * What to do when a cron run is due while the previous run is still running:
+ * skip the new run, or stop the previous run and start again
+ */
+export type CronOverlap = 'skip' | 'replace';
+
+/**
+ * Schedule of a cron process
+ */
+export interface CronConfig {
+  /** 5 fields, 6 fields with seconds first, or a macro such as @daily */
+  schedule: string;
+  /** IANA timezone the schedule is in, e.g. Europe/Paris (default: the daemon's timezone) */
+  timezone?: string;
+  /** Default: skip */
+  overlap?: CronOverlap;
+  /** Times a failed run is retried (default: 0) */
+  retries?: number;
+  /** Milliseconds before retrying a failed run (default: 10000) */
+  retryDelay?: number;
+  /** Number of runs kept in the history (default: 20) */
+  history?: number;
+}
+
+/**
+ * Why a cron run was started
+ */
+export type CronTrigger = 'schedule' | 'retry' | 'manual';
+
+/**
+ * Outcome of a cron run: skipped runs were due while the previous run was
+ * still running, stopped runs were stopped before they exited
+ */
+export type CronRunStatus = 'running' | 'succeeded' | 'failed' | 'stopped' | 'skipped';
+
+/**
+ * A run of a cron process
+ */
+export interface CronRun {
+  trigger: CronTrigger;
+  /** 1 for the scheduled run, counting up with each retry */
+  attempt: number;
+  status: CronRunStatus;
+  startedAt: string;
+  finishedAt?: string | undefined;
+  /** Milliseconds from start to exit */
+  duration?: number | undefined;
+  code?: number | null | undefined;
+  signal?: string | null | undefined;
+  /** Why the run failed to start */
+  message?: string | undefined;
+}
+
+/**
+ * Scheduling state of a cron process
+ */
+export interface ProcessSchedule {
+  schedule: string;
+  timezone: string;
+  nextRun?: string | undefined;
+  /** Runs oldest first, including the current one */
+  history: CronRun[];
+}
+
 /**
  * Watch mode configuration
  */
@@ -213,7 +596,9 @@ export type ProcessStatus =
   | 'stopping'
   | 'stopped'
   | 'errored'
-  | 'reloading';
+  | 'crashloop'
+  | 'reloading'
+  | 'scaling';
 
 /**
  * Process information
@@ -237,6 +622,11 @@ export interface ProcessInfo {
   startedAt?: string;
   errorMessage?: string;
   env: Record<string, string>;
+  health?: ProcessHealth | undefined;
+  schedule?: ProcessSchedule | undefined;
+  watching?: boolean | undefined;
+  metrics?: ProcessMetrics;
+  recentLogs?: ProcessLogEntry[];
 }
 
 /**
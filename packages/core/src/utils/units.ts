@@ -0,0 +1,122 @@
+import { DaemonError, ErrorCode, ProcessError } from '../errors/index.js';
+import type { LogRotationConfig, ProcessConfig } from '../types.js';
+
+/**
+ * Multipliers for size suffixes (binary, case-insensitive)
+ */
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4,
+};
+
+/**
+ * Multipliers for duration suffixes
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a human-readable size into bytes
+ *
+ * @param value - Size like "512M", "1.5G", "10kb" or a number of bytes
+ * @returns Size in bytes
+ * @throws DaemonError if the value cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * parseSize('512M'); // 536870912
+ * parseSize(1024);   // 1024
+ * ```
+ */
+export function parseSize(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const unit = SIZE_UNITS[(match?.[2] ?? '').toLowerCase() || 'b'];
+  if (!match || unit === undefined) {
+    throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Invalid size: ${value}`);
+  }
+
+  return Math.floor(Number(match[1]) * unit);
+}
+
+/**
+ * Parse a human-readable duration into milliseconds
+ *
+ * @param value - Duration like "500ms", "30s", "15m", "7d" or a number of milliseconds
+ * @returns Duration in milliseconds
+ * @throws DaemonError if the value cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * parseDuration('1h');  // 3600000
+ * parseDuration(250);   // 250
+ * ```
+ */
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  const unit = DURATION_UNITS[(match?.[2] ?? '').toLowerCase() || 'ms'];
+  if (!match || unit === undefined) {
+    throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Invalid duration: ${value}`);
+  }
+
+  return Math.floor(Number(match[1]) * unit);
+}
+
+/**
+ * Check if a rotation config asks for any rotation at all
+ */
+export function isRotationEnabled(config: LogRotationConfig | undefined): config is LogRotationConfig {
+  if (!config || config.enabled === false) {
+    return false;
+  }
+  return config.maxSize !== undefined || config.datePattern !== undefined;
+}
+
+/**
+ * Check that the sizes and durations of a process's logRotation config parse,
+ * so that invalid ones are reported when the process starts rather than
+ * when it logs
+ *
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid maxSize or maxAge
+ */
+export function validateLogRotation(config: ProcessConfig): void {
+  const rotation = config.logRotation;
+  if (!isRotationEnabled(rotation)) {
+    return;
+  }
+  try {
+    if (rotation.maxSize !== undefined) {
+      parseSize(rotation.maxSize);
+    }
+    // Bare numbers are seconds and always valid
+    if (typeof rotation.maxAge === 'string') {
+      parseDuration(rotation.maxAge);
+    }
+  } catch (err) {
+    throw new ProcessError(
+      ErrorCode.PROCESS_INVALID_CONFIG,
+      config.name,
+      `Invalid logRotation: ${(err as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import type { Plugin, PluginContext, ProcessConfig, ProcessMetricsReport } from '../../../core/src/index.js';
+import { Logger } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin, ResourceUsage } from '../../process-manager/src/index.js';
+import { ScaleController, resolveAutoScale, type ScaleSample } from './rules.js';
+
+export {
+  resolveAutoScale,
+  ScaleController,
+  type ResolvedAutoScale,
+  type ResolvedScaleRule,
+  type ScaleSample,
+  type ScaleDecision,
+} from './rules.js';
+
+/**
+ * Auto-Scaler Plugin
+ * Evaluates the autoScale rules of each cluster against the resource samples
+ * of the process manager and the metrics its instances report with the SDK,
+ * and scales the cluster between its min and max instances
+ */
+export class AutoScalerPlugin implements Plugin {
+  name = 'auto-scaler';
+  version = '1.0.0';
+  description = 'Scales clusters on CPU, memory, event loop latency and custom metrics';
+  priority = 19;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  /** Controllers of processes with auto-scaling; null for processes without (or with invalid) rules */
+  private controllers = new Map<string, ScaleController | null>();
+  /** Latest metrics reported by each instance, by process name and pid */
+  private reports = new Map<string, Map<number, Record<string, number>>>();
+  /** Processes being scaled, whose samples are skipped */
+  private scaling = new Set<string>();
+
+  constructor() {
+    this.logger = new Logger('auto-scaler');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+
+    context.events.on('process:usage', (data) => {
+      const { name, usage } = data as { name: string; usage: ResourceUsage };
+      void this.evaluate(name, usage);
+    });
+
+    context.events.on('process:metrics', (data) => {
+      const report = data as ProcessMetricsReport;
+      if (report.pid === undefined) {
+        return;
+      }
+      let byPid = this.reports.get(report.name);
+      if (!byPid) {
+        byPid = new Map();
+        this.reports.set(report.name, byPid);
+      }
+      byPid.set(report.pid, report.metrics);
+    });
+
+    // A (re)started or stopped process starts over with fresh durations and config
+    for (const event of ['process:started', 'process:stopped', 'process:exit', 'process:deleted']) {
+      context.events.on(event, (data) => {
+        const name = (data as { name: string }).name;
+        this.controllers.delete(name);
+        this.reports.delete(name);
+      });
+    }
+
+    this.logger.info('Auto-scaler plugin installed');
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    this.controllers.clear();
+    this.reports.clear();
+  }
+
+  /**
+   * Evaluate the scaling rules of a process with a resource sample and
+   * scale it if a rule acts
+   */
+  async evaluate(name: string, usage: ResourceUsage): Promise<void> {
+    const processManager = this.getProcessManager();
+    const proc = processManager?.getProcess(name);
+    if (!processManager || !proc || proc.status !== 'online' || this.scaling.has(name)) {
+      return;
+    }
+
+    const controller = this.getController(name, proc.config);
+    if (!controller) {
+      return;
+    }
+
+    const running = Math.max(proc.pids.length, 1);
+    const sample: ScaleSample = {
+      cpu: usage.cpu / running,
+      memory: usage.memory / running,
+      ...this.averageReports(name, proc.pids),
+    };
+
+    const decision = controller.update(sample, proc.instanceCount, usage.timestamp);
+    if (!decision) {
+      return;
+    }
+
+    this.logger.info(`Auto-scaling ${name} from ${proc.instanceCount} to ${decision.instances} instances`, {
+      reason: decision.reason,
+    });
+
+    this.scaling.add(name);
+    try {
+      await processManager.scale(name, decision.instances, decision.reason);
+    } catch (err) {
+      this.logger.error(`Failed to auto-scale process ${name}`, undefined, err as Error);
+    } finally {
+      this.scaling.delete(name);
+    }
+  }
+
+  /**
+   * Get the controller of a process, creating it from the process config
+   */
+  private getController(name: string, config: ProcessConfig): ScaleController | null {
+    const existing = this.controllers.get(name);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    let controller: ScaleController | null = null;
+    try {
+      const autoScale = resolveAutoScale(config);
+      controller = autoScale ? new ScaleController(autoScale) : null;
+    } catch (err) {
+      this.logger.error(`Invalid auto-scaling config for ${name}`, undefined, err as Error);
+    }
+    this.controllers.set(name, controller);
+    return controller;
+  }
+
+  /**
+   * Average the latest reported metrics of the running instances
+   */
+  private averageReports(name: string, pids: number[]): Pick<ScaleSample, 'eventLoopLatency' | 'custom'> {
+    const byPid = this.reports.get(name);
+    const totals = new Map<string, { sum: number; count: number }>();
+
+    for (const [pid, metrics] of byPid ?? []) {
+      if (!pids.includes(pid)) {
+        // Reports of instances that are gone
+        byPid!.delete(pid);
+        continue;
+      }
+      for (const [metric, value] of Object.entries(metrics)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          continue;
+        }
+        const total = totals.get(metric) ?? { sum: 0, count: 0 };
+        total.sum += value;
+        total.count++;
+        totals.set(metric, total);
+      }
+    }
+
+    const custom: Record<string, number> = {};
+    for (const [metric, total] of totals) {
+      custom[metric] = total.sum / total.count;
+    }
+    return { eventLoopLatency: custom['eventLoopLatency'], custom };
+  }
+
+  private getProcessManager(): ProcessManagerPlugin | undefined {
+    return this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+  }
+}
@@ -0,0 +1,233 @@
+import type { AutoScaleMetric, AutoScaleRule, ProcessConfig } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError, parseSize } from '../../../core/src/index.js';
+
+const SCALE_METRICS: readonly AutoScaleMetric[] = ['cpu', 'memory', 'eventLoopLatency', 'custom'];
+
+/**
+ * A scaling rule with its threshold parsed
+ */
+export interface ResolvedScaleRule {
+  metric: AutoScaleMetric;
+  customMetric?: string | undefined;
+  threshold: number;
+  duration: number;
+  step: number;
+  cooldown: number;
+}
+
+/**
+ * Auto-scaling settings of a process, validated
+ */
+export interface ResolvedAutoScale {
+  min: number;
+  max: number;
+  scaleUp?: ResolvedScaleRule | undefined;
+  scaleDown?: ResolvedScaleRule | undefined;
+}
+
+/**
+ * Metrics of a process averaged over its running instances
+ */
+export interface ScaleSample {
+  /** Percent of one core */
+  cpu: number;
+  /** Bytes of RSS */
+  memory: number;
+  /** Milliseconds, if the instances report it */
+  eventLoopLatency?: number | undefined;
+  /** Metrics reported with the SDK */
+  custom: Record<string, number>;
+}
+
+/**
+ * Instance count a process should be scaled to, and why
+ */
+export interface ScaleDecision {
+  instances: number;
+  reason: string;
+}
+
+/**
+ * Resolve the autoScale setting of a process
+ *
+ * @returns The settings, or undefined if auto-scaling is not configured or disabled
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid bounds or rules
+ */
+export function resolveAutoScale(config: ProcessConfig): ResolvedAutoScale | undefined {
+  const autoScale = config.autoScale;
+  if (!autoScale || autoScale.enabled === false) {
+    return undefined;
+  }
+
+  const invalid = (message: string): ProcessError =>
+    new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, config.name, message);
+
+  if (config.mode !== 'cluster') {
+    throw invalid('autoScale requires cluster mode');
+  }
+  if (!Number.isInteger(autoScale.min) || autoScale.min < 1) {
+    throw invalid(`Invalid autoScale.min: ${autoScale.min} (expected an integer of at least 1)`);
+  }
+  if (!Number.isInteger(autoScale.max) || autoScale.max < autoScale.min) {
+    throw invalid(`Invalid autoScale.max: ${autoScale.max} (expected an integer of at least min)`);
+  }
+
+  const resolveRule = (key: 'scaleUp' | 'scaleDown', rule: AutoScaleRule | undefined): ResolvedScaleRule | undefined => {
+    if (!rule) {
+      return undefined;
+    }
+    if (!SCALE_METRICS.includes(rule.metric)) {
+      throw invalid(`Invalid autoScale.${key}.metric: ${rule.metric}`);
+    }
+    if (rule.metric === 'custom' && !rule.customMetric) {
+      throw invalid(`autoScale.${key}.customMetric is required for custom metrics`);
+    }
+
+    // Only memory thresholds may be sizes such as '512M'
+    let threshold = NaN;
+    if (typeof rule.threshold === 'number') {
+      threshold = rule.threshold;
+    } else if (rule.metric === 'memory') {
+      try {
+        threshold = parseSize(rule.threshold);
+      } catch {
+        // Reported below
+      }
+    }
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw invalid(`Invalid autoScale.${key}.threshold: ${rule.threshold}`);
+    }
+    if (!Number.isInteger(rule.step) || rule.step < 1) {
+      throw invalid(`Invalid autoScale.${key}.step: ${rule.step} (expected an integer of at least 1)`);
+    }
+    if (!(rule.duration >= 0) || !(rule.cooldown >= 0)) {
+      throw invalid(`Invalid autoScale.${key} duration or cooldown`);
+    }
+
+    return {
+      metric: rule.metric,
+      customMetric: rule.customMetric,
+      threshold,
+      duration: rule.duration,
+      step: rule.step,
+      cooldown: rule.cooldown,
+    };
+  };
+
+  return {
+    min: autoScale.min,
+    max: autoScale.max,
+    scaleUp: resolveRule('scaleUp', autoScale.scaleUp),
+    scaleDown: resolveRule('scaleDown', autoScale.scaleDown),
+  };
+}
+
+/**
+ * Evaluates the scaling rules of a process against its samples. A rule acts
+ * once its metric has stayed past the threshold for the rule's duration and
+ * the rule's cooldown has passed since the last scaling; acting starts both
+ * durations over. An instance count outside min/max is corrected right away.
+ *
+ * @example
+ * ```typescript
+ * const controller = new ScaleController(resolveAutoScale(config)!);
+ * const decision = controller.update(sample, proc.instanceCount);
+ * ```
+ */
+export class ScaleController {
+  private upSince?: number | undefined;
+  private downSince?: number | undefined;
+  private lastScaled?: number | undefined;
+
+  constructor(readonly config: ResolvedAutoScale) {}
+
+  /**
+   * Record a sample
+   *
+   * @param sample - Metrics averaged over the running instances
+   * @param instances - Current instance count
+   * @returns The count to scale to, or undefined to leave the process as is
+   */
+  update(sample: ScaleSample, instances: number, now = Date.now()): ScaleDecision | undefined {
+    const { min, max, scaleUp, scaleDown } = this.config;
+
+    if (instances < min) {
+      return this.decide(min, `${instances} instances are below min ${min}`, now);
+    }
+    if (instances > max) {
+      return this.decide(max, `${instances} instances are above max ${max}`, now);
+    }
+
+    const up = scaleUp ? readMetric(sample, scaleUp) : undefined;
+    if (scaleUp && up !== undefined && up > scaleUp.threshold) {
+      this.upSince ??= now;
+      if (instances < max && this.isDue(scaleUp, this.upSince, now)) {
+        return this.decide(Math.min(max, instances + scaleUp.step), describe(scaleUp, up, 'above', now - this.upSince), now);
+      }
+    } else {
+      this.upSince = undefined;
+    }
+
+    const down = scaleDown ? readMetric(sample, scaleDown) : undefined;
+    if (scaleDown && down !== undefined && down < scaleDown.threshold) {
+      this.downSince ??= now;
+      if (instances > min && this.isDue(scaleDown, this.downSince, now)) {
+        return this.decide(Math.max(min, instances - scaleDown.step), describe(scaleDown, down, 'below', now - this.downSince), now);
+      }
+    } else {
+      this.downSince = undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check if a rule held for its duration and is out of its cooldown
+   */
+  private isDue(rule: ResolvedScaleRule, since: number, now: number): boolean {
+    return now - since >= rule.duration && (this.lastScaled === undefined || now - this.lastScaled >= rule.cooldown);
+  }
+
+  private decide(instances: number, reason: string, now: number): ScaleDecision {
+    this.lastScaled = now;
+    this.upSince = undefined;
+    this.downSince = undefined;
+    return { instances, reason };
+  }
+}
+
+/**
+ * Get the value a rule watches from a sample
+ */
+function readMetric(sample: ScaleSample, rule: ResolvedScaleRule): number | undefined {
+  switch (rule.metric) {
+    case 'cpu':
+      return sample.cpu;
+    case 'memory':
+      return sample.memory;
+    case 'eventLoopLatency':
+      return sample.eventLoopLatency;
+    case 'custom':
+      return sample.custom[rule.customMetric!];
+  }
+}
+
+/**
+ * Describe why a rule acted, e.g. `cpu 85.2% above 80% for 60s`
+ */
+function describe(rule: ResolvedScaleRule, value: number, direction: 'above' | 'below', duration: number): string {
+  const format = (n: number): string => {
+    switch (rule.metric) {
+      case 'cpu':
+        return `${n.toFixed(1)}%`;
+      case 'memory':
+        return `${(n / 1024 ** 2).toFixed(1)}MB`;
+      case 'eventLoopLatency':
+        return `${n.toFixed(1)}ms`;
+      case 'custom':
+        return String(n);
+    }
+  };
+  const metric = rule.metric === 'custom' ? rule.customMetric! : rule.metric;
+  return `${metric} ${format(value)} ${direction} ${format(rule.threshold)} for ${Math.round(duration / 1000)}s`;
+}
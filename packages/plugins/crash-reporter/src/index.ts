@@ -0,0 +1,217 @@
+import type { Plugin, PluginContext } from '../../../core/src/index.js';
+import { Logger, DaemonError, ErrorCode } from '../../../core/src/index.js';
+import type { ProcessCrashEvent, ProcessLogEntry } from '../../../core/src/index.js';
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve, join } from 'path';
+
+/**
+ * Output lines kept in a report when not configured
+ */
+const DEFAULT_REPORT_LINES = 50;
+
+/**
+ * Reports kept per process when not configured
+ */
+const DEFAULT_MAX_REPORTS = 20;
+
+/**
+ * Crash reporter plugin configuration (`plugins['crash-reporter']`)
+ */
+export interface CrashReporterConfig {
+  /** Directory for report files (default: `<logDir>/crashes`) */
+  directory?: string;
+  /** Output lines kept in each report */
+  lines?: number;
+  /** Reports kept per process, older ones are deleted */
+  maxReports?: number;
+}
+
+/**
+ * A crash report as stored on disk
+ */
+export interface CrashReport {
+  id: string;
+  processName: string;
+  instanceId: number;
+  pid?: number | undefined;
+  timestamp: string;
+  exitCode: number | null;
+  signal: string | null;
+  uptime: number;
+  restartCount: number;
+  willRestart: boolean;
+  logs: ProcessLogEntry[];
+  envKeys: string[];
+}
+
+/**
+ * A crash report without its output and environment, as returned by crash.list
+ */
+export type CrashReportSummary = Omit<CrashReport, 'logs' | 'envKeys'>;
+
+/**
+ * Build a file-safe report id (`<name>-<epoch ms>-<instance>`)
+ */
+export function crashReportId(name: string, instanceId: number, time: Date): string {
+  return `${name.replace(/[^\w.-]/g, '_')}-${time.getTime()}-${instanceId}`;
+}
+
+/**
+ * Crash Reporter Plugin
+ * Preserves a JSON report under the log directory whenever a process exits abnormally
+ */
+export class CrashReporterPlugin implements Plugin {
+  name = 'crash-reporter';
+  version = '1.0.0';
+  description = 'Writes crash reports for abnormal process exits';
+  priority = 16;
+  dependencies = ['process-manager'];
+
+  private logger: Logger;
+  private crashDir = resolve('logs', 'crashes');
+  private lines = DEFAULT_REPORT_LINES;
+  private maxReports = DEFAULT_MAX_REPORTS;
+
+  constructor() {
+    this.logger = new Logger('crash-reporter');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    const config = context.pluginConfig as CrashReporterConfig | undefined;
+    const logDir = resolve(context.config.daemon?.logDir ?? 'logs');
+    this.crashDir = config?.directory ? resolve(config.directory) : join(logDir, 'crashes');
+    this.lines = config?.lines ?? DEFAULT_REPORT_LINES;
+    this.maxReports = config?.maxReports ?? DEFAULT_MAX_REPORTS;
+
+    context.registerMethod('crash.list', this.listCrashes.bind(this));
+    context.registerMethod('crash.get', this.getCrash.bind(this));
+
+    context.events.on('process:crash', (data) => {
+      this.record(data as ProcessCrashEvent);
+    });
+
+    this.logger.info('Crash reporter installed', { directory: this.crashDir });
+  }
+
+  /**
+   * Get the directory reports are written to
+   */
+  getCrashDir(): string {
+    return this.crashDir;
+  }
+
+  /**
+   * Write a report for a crash and prune old reports of the process
+   */
+  record(crash: ProcessCrashEvent, now = new Date()): CrashReport | undefined {
+    const report: CrashReport = {
+      id: crashReportId(crash.name, crash.instanceId, now),
+      processName: crash.name,
+      instanceId: crash.instanceId,
+      pid: crash.pid,
+      timestamp: now.toISOString(),
+      exitCode: crash.exitCode,
+      signal: crash.signal,
+      uptime: crash.uptime,
+      restartCount: crash.restartCount,
+      willRestart: crash.willRestart,
+      logs: this.lines > 0 ? crash.logs.slice(-this.lines) : [],
+      envKeys: crash.envKeys,
+    };
+
+    try {
+      mkdirSync(this.crashDir, { recursive: true });
+      writeFileSync(join(this.crashDir, `${report.id}.json`), JSON.stringify(report, null, 2));
+      this.prune(crash.name);
+    } catch (err) {
+      this.logger.error(`Failed to write crash report for ${crash.name}`, undefined, err as Error);
+      return undefined;
+    }
+
+    this.logger.info(`Crash report written: ${report.id}`);
+    return report;
+  }
+
+  /**
+   * List reports, newest first
+   */
+  list(name?: string): CrashReportSummary[] {
+    return this.readReports()
+      .filter((report) => !name || report.processName === name)
+      .map(({ logs: _logs, envKeys: _envKeys, ...summary }) => summary);
+  }
+
+  /**
+   * Get a full report
+   *
+   * @throws DaemonError if the report does not exist
+   */
+  get(id: string): CrashReport {
+    const path = join(this.crashDir, `${id}.json`);
+    if (!/^[\w.-]+$/.test(id) || !existsSync(path)) {
+      throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Crash report not found: ${id}`);
+    }
+    return JSON.parse(readFileSync(path, 'utf-8')) as CrashReport;
+  }
+
+  /**
+   * List reports (RPC handler)
+   */
+  private listCrashes(params: { name?: string } | undefined): CrashReportSummary[] {
+    return this.list(params?.name);
+  }
+
+  /**
+   * Get a report (RPC handler)
+   */
+  private getCrash(params: { id: string }): CrashReport {
+    return this.get(params.id);
+  }
+
+  /**
+   * Delete the oldest reports of a process beyond maxReports
+   */
+  private prune(name: string): void {
+    if (this.maxReports <= 0) {
+      return;
+    }
+
+    const expired = this.readReports()
+      .filter((report) => report.processName === name)
+      .slice(this.maxReports);
+
+    for (const report of expired) {
+      try {
+        unlinkSync(join(this.crashDir, `${report.id}.json`));
+      } catch {
+        // Already removed
+      }
+    }
+  }
+
+  /**
+   * Read all reports in the crash directory, newest first
+   */
+  private readReports(): CrashReport[] {
+    if (!existsSync(this.crashDir)) {
+      return [];
+    }
+
+    const reports: CrashReport[] = [];
+    for (const file of readdirSync(this.crashDir)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        reports.push(JSON.parse(readFileSync(join(this.crashDir, file), 'utf-8')) as CrashReport);
+      } catch {
+        // Partially written or foreign file
+      }
+    }
+
+    return reports.sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0));
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Minimal encoding of the gRPC health checking protocol (grpc.health.v1)
+ * for use over node:http2 without protobuf dependencies.
+ *
+ * ```proto
+ * message HealthCheckRequest { string service = 1; }
+ * message HealthCheckResponse { ServingStatus status = 1; }
+ * ```
+ */
+
+/**
+ * Request path of grpc.health.v1.Health/Check
+ */
+export const GRPC_HEALTH_CHECK_PATH = '/grpc.health.v1.Health/Check';
+
+/**
+ * HealthCheckResponse.ServingStatus values
+ */
+export const GrpcServingStatus = {
+  UNKNOWN: 0,
+  SERVING: 1,
+  NOT_SERVING: 2,
+  SERVICE_UNKNOWN: 3,
+} as const;
+
+/**
+ * gRPC status codes relevant to health checks
+ */
+export const GrpcStatus = {
+  OK: 0,
+  NOT_FOUND: 5,
+} as const;
+
+/**
+ * Protobuf wire types
+ */
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_32BIT = 5;
+
+/**
+ * Encode an unsigned varint
+ */
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0x7f) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode an unsigned varint at offset
+ *
+ * @throws Error if the buffer ends inside the varint
+ */
+function decodeVarint(buf: Buffer, offset: number): { value: number; next: number } {
+  let value = 0;
+  let multiplier = 1;
+  let pos = offset;
+
+  for (;;) {
+    const byte = buf[pos++];
+    if (byte === undefined) {
+      throw new Error('Truncated varint');
+    }
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return { value, next: pos };
+    }
+    multiplier *= 128;
+  }
+}
+
+/**
+ * Encode a HealthCheckRequest message (an empty service checks the whole server)
+ */
+export function encodeHealthCheckRequest(service = ''): Buffer {
+  if (!service) {
+    return Buffer.alloc(0);
+  }
+  const value = Buffer.from(service, 'utf-8');
+  return Buffer.concat([Buffer.from([(1 << 3) | WIRE_LENGTH_DELIMITED]), encodeVarint(value.length), value]);
+}
+
+/**
+ * Decode a HealthCheckResponse message into its serving status.
+ * Unknown fields are skipped; a missing status field means UNKNOWN.
+ *
+ * @throws Error on malformed input
+ */
+export function decodeHealthCheckResponse(buf: Buffer): number {
+  let status: number = GrpcServingStatus.UNKNOWN;
+  let pos = 0;
+
+  while (pos < buf.length) {
+    const key = decodeVarint(buf, pos);
+    pos = key.next;
+    const field = Math.floor(key.value / 8);
+    const wireType = key.value & 7;
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const value = decodeVarint(buf, pos);
+        pos = value.next;
+        if (field === 1) {
+          status = value.value;
+        }
+        break;
+      }
+      case WIRE_64BIT:
+        pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED: {
+        const length = decodeVarint(buf, pos);
+        pos = length.next + length.value;
+        break;
+      }
+      case WIRE_32BIT:
+        pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+
+    if (pos > buf.length) {
+      throw new Error('Truncated message');
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Wrap a message in a gRPC length-prefixed frame (uncompressed)
+ */
+export function encodeGrpcFrame(message: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt8(0, 0);
+  header.writeUInt32BE(message.length, 1);
+  return Buffer.concat([header, message]);
+}
+
+/**
+ * Extract the first message from gRPC length-prefixed data
+ *
+ * @returns The message, or undefined if the data holds no complete frame
+ * @throws Error if the message is compressed
+ */
+export function decodeGrpcFrame(data: Buffer): Buffer | undefined {
+  if (data.length < 5) {
+    return undefined;
+  }
+  if (data.readUInt8(0) !== 0) {
+    throw new Error('Compressed responses are not supported');
+  }
+  const length = data.readUInt32BE(1);
+  return data.length >= 5 + length ? data.subarray(5, 5 + length) : undefined;
+}
+
+/**
+ * Decode a grpc-message, which is percent-encoded. Servers that send it raw,
+ * e.g. `50% done`, get it back unchanged.
+ */
+export function decodeGrpcMessage(message: string): string {
+  try {
+    return decodeURIComponent(message);
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Readable name of a serving status
+ */
+export function servingStatusName(status: number): string {
+  const entry = Object.entries(GrpcServingStatus).find(([, value]) => value === status);
+  return entry ? entry[0] : `status ${status}`;
+}
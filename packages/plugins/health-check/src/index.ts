@@ -0,0 +1,276 @@
+import type { Plugin, PluginContext } from '../../../core/src/index.js';
+import { Logger } from '../../../core/src/index.js';
+import type { HealthCheckConfig, ProcessHealth } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin } from '../../process-manager/src/index.js';
+import { createHealthCheck, type HealthCheck, type HealthResult } from './probes.js';
+
+export {
+  createHealthCheck,
+  HttpHealthCheck,
+  TcpHealthCheck,
+  GrpcHealthCheck,
+  CommandHealthCheck,
+  CompositeHealthCheck,
+  ProcessHealthCheck,
+  MemoryHealthCheck,
+  CpuHealthCheck,
+  DEFAULT_PROBE_TIMEOUT,
+  type HealthCheck,
+  type HealthResult,
+  type ProbeTarget,
+} from './probes.js';
+
+export {
+  GRPC_HEALTH_CHECK_PATH,
+  GrpcServingStatus,
+  GrpcStatus,
+  encodeHealthCheckRequest,
+  decodeHealthCheckResponse,
+  encodeGrpcFrame,
+  decodeGrpcFrame,
+  decodeGrpcMessage,
+} from './grpc.js';
+
+/**
+ * Defaults from the HealthCheckConfig specification
+ */
+const DEFAULT_INTERVAL = 30000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_SUCCESS_THRESHOLD = 1;
+
+/**
+ * Scheduled health check of one process
+ */
+interface HealthMonitor {
+  name: string;
+  config: HealthCheckConfig;
+  check: HealthCheck;
+  timer?: NodeJS.Timeout | undefined;
+  health: ProcessHealth;
+}
+
+/**
+ * Health Check Plugin
+ * Runs each process's configured probe on an interval, tracks consecutive
+ * failures/successes and applies the configured action when it turns unhealthy
+ */
+export class HealthCheckPlugin implements Plugin {
+  name = 'health-check';
+  version = '1.0.0';
+  description = 'Probes process health and restarts unhealthy processes';
+  priority = 20;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  private monitors = new Map<string, HealthMonitor>();
+
+  constructor() {
+    this.logger = new Logger('health-check');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+
+    context.events.on('process:started', (data) => {
+      this.schedule((data as { name: string }).name);
+    });
+
+    for (const event of ['process:stopped', 'process:exit', 'process:deleted']) {
+      context.events.on(event, (data) => {
+        this.unschedule((data as { name: string }).name);
+      });
+    }
+
+    this.logger.info('Health check plugin installed');
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    for (const name of Array.from(this.monitors.keys())) {
+      this.unschedule(name);
+    }
+  }
+
+  /**
+   * Get the current health of a process, if it has a health check
+   */
+  getHealth(name: string): ProcessHealth | undefined {
+    const monitor = this.monitors.get(name);
+    return monitor ? { ...monitor.health } : undefined;
+  }
+
+  /**
+   * Run the health check of a process once against some of its instances,
+   * e.g. a replacement instance during a reload
+   *
+   * @returns The result, or undefined if the process has no health check
+   */
+  async probe(name: string, pids: number[]): Promise<HealthResult | undefined> {
+    const proc = this.getProcessManager()?.getProcess(name);
+    if (!proc?.config.healthCheck) {
+      return undefined;
+    }
+
+    try {
+      return await createHealthCheck(proc.config.healthCheck).check({ name, pids, cwd: proc.config.cwd });
+    } catch (err) {
+      return { healthy: false, message: (err as Error).message };
+    }
+  }
+
+  /**
+   * Start checking a process according to its healthCheck config.
+   * Rescheduling resets the consecutive counters.
+   */
+  schedule(name: string): void {
+    this.unschedule(name);
+
+    const config = this.getProcessManager()?.getProcess(name)?.config.healthCheck;
+    if (!config) {
+      return;
+    }
+
+    let check: HealthCheck;
+    try {
+      check = createHealthCheck(config);
+    } catch (err) {
+      this.logger.error(`Invalid health check for ${name}`, undefined, err as Error);
+      return;
+    }
+
+    const monitor: HealthMonitor = {
+      name,
+      config,
+      check,
+      health: { status: 'unknown', consecutiveFailures: 0, consecutiveSuccesses: 0 },
+    };
+    this.monitors.set(name, monitor);
+    monitor.timer = setTimeout(() => void this.tick(monitor), config.initialDelay ?? 0);
+
+    this.logger.debug(`Scheduled ${config.type} health check for ${name}`);
+  }
+
+  /**
+   * Stop checking a process
+   */
+  unschedule(name: string): void {
+    const monitor = this.monitors.get(name);
+    if (monitor) {
+      clearTimeout(monitor.timer);
+      this.monitors.delete(name);
+    }
+  }
+
+  /**
+   * Run one probe and schedule the next one
+   */
+  private async tick(monitor: HealthMonitor): Promise<void> {
+    monitor.timer = undefined;
+
+    const proc = this.getProcessManager()?.getProcess(monitor.name);
+    if (!proc) {
+      this.unschedule(monitor.name);
+      return;
+    }
+
+    // Instances being (re)started are not probed
+    if (proc.status === 'online') {
+      let result: HealthResult;
+      try {
+        result = await monitor.check.check({
+          name: monitor.name,
+          pids: proc.pids,
+          cwd: proc.config.cwd,
+        });
+      } catch (err) {
+        result = { healthy: false, message: (err as Error).message };
+      }
+
+      if (this.monitors.get(monitor.name) !== monitor) {
+        // Unscheduled or rescheduled while the probe was running
+        return;
+      }
+      await this.record(monitor, result);
+    }
+
+    if (this.monitors.get(monitor.name) === monitor) {
+      monitor.timer = setTimeout(() => void this.tick(monitor), monitor.config.interval ?? DEFAULT_INTERVAL);
+    }
+  }
+
+  /**
+   * Update counters with a probe result and handle status transitions
+   */
+  private async record(monitor: HealthMonitor, result: HealthResult): Promise<void> {
+    const health = monitor.health;
+    health.lastCheck = new Date().toISOString();
+    health.lastMessage = result.message;
+
+    if (result.healthy) {
+      health.consecutiveSuccesses++;
+      health.consecutiveFailures = 0;
+
+      const threshold = monitor.config.successThreshold ?? DEFAULT_SUCCESS_THRESHOLD;
+      if (health.status !== 'healthy' && health.consecutiveSuccesses >= threshold) {
+        health.status = 'healthy';
+        this.logger.info(`Process healthy: ${monitor.name}`);
+        this.context.events.emit('process:healthy', { name: monitor.name });
+      }
+      return;
+    }
+
+    health.consecutiveFailures++;
+    health.consecutiveSuccesses = 0;
+    this.logger.debug(`Health check failed for ${monitor.name}`, {
+      failures: health.consecutiveFailures,
+      message: result.message,
+    });
+
+    const threshold = monitor.config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (health.status === 'unhealthy' || health.consecutiveFailures < threshold) {
+      return;
+    }
+
+    health.status = 'unhealthy';
+    const action = monitor.config.action ?? 'restart';
+    this.logger.warn(`Process unhealthy: ${monitor.name}`, { message: result.message, action });
+    this.context.events.emit('process:unhealthy', {
+      name: monitor.name,
+      failures: health.consecutiveFailures,
+      message: result.message,
+      action,
+    });
+
+    await this.applyAction(monitor.name, action);
+  }
+
+  /**
+   * Apply the configured action to an unhealthy process
+   */
+  private async applyAction(name: string, action: HealthCheckConfig['action']): Promise<void> {
+    const processManager = this.getProcessManager();
+    if (!processManager) {
+      return;
+    }
+
+    try {
+      if (action === 'restart') {
+        await processManager.restart(name);
+      } else if (action === 'stop') {
+        await processManager.stop(name);
+      }
+    } catch (err) {
+      this.logger.error(`Failed to ${action} unhealthy process ${name}`, undefined, err as Error);
+    }
+  }
+
+  private getProcessManager(): ProcessManagerPlugin | undefined {
+    return this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+  }
+}
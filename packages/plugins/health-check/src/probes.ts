@@ -0,0 +1,513 @@
+import type { HealthCheckConfig } from '../../../core/src/index.js';
+import { DaemonError, ErrorCode } from '../../../core/src/index.js';
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { connect } from 'net';
+import { connect as http2Connect, type IncomingHttpHeaders } from 'http2';
+import { spawn } from 'child_process';
+import { CLOCK_TICKS, readProcCpuTimes, readProcMemory } from '../../process-manager/src/resource-sampler.js';
+import { signalProcessTree } from '../../process-manager/src/process-tree.js';
+import {
+  GRPC_HEALTH_CHECK_PATH,
+  GrpcServingStatus,
+  GrpcStatus,
+  decodeGrpcFrame,
+  decodeGrpcMessage,
+  decodeHealthCheckResponse,
+  encodeGrpcFrame,
+  encodeHealthCheckRequest,
+  servingStatusName,
+} from './grpc.js';
+
+/**
+ * Probe timeout when not configured
+ */
+export const DEFAULT_PROBE_TIMEOUT = 5000;
+
+/**
+ * Maximum response body read for expectedBody matching
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Outcome of a single probe run
+ */
+export interface HealthResult {
+  healthy: boolean;
+  message?: string | undefined;
+}
+
+/**
+ * The process instance(s) a probe runs against
+ */
+export interface ProbeTarget {
+  name: string;
+  pids: number[];
+  cwd?: string | undefined;
+}
+
+/**
+ * A probe built from a HealthCheckConfig
+ */
+export interface HealthCheck {
+  readonly config: HealthCheckConfig;
+  check(target: ProbeTarget): Promise<HealthResult>;
+}
+
+/**
+ * Build the probe for a health check config
+ *
+ * @throws DaemonError (HEALTH_CHECK_INVALID_CONFIG) if required options are missing
+ */
+export function createHealthCheck(config: HealthCheckConfig): HealthCheck {
+  switch (config.type) {
+    case 'http':
+    case 'https':
+      return new HttpHealthCheck(config);
+    case 'tcp':
+      return new TcpHealthCheck(config);
+    case 'grpc':
+      return new GrpcHealthCheck(config);
+    case 'script':
+    case 'command':
+      return new CommandHealthCheck(config);
+    case 'composite':
+      return new CompositeHealthCheck(config);
+    case 'memory':
+      return new MemoryHealthCheck(config);
+    case 'cpu':
+      return new CpuHealthCheck(config);
+    case 'process':
+      return new ProcessHealthCheck(config);
+    default:
+      throw invalidConfig(`Unsupported health check type: ${String(config.type)}`);
+  }
+}
+
+function invalidConfig(message: string): DaemonError {
+  return new DaemonError(ErrorCode.HEALTH_CHECK_INVALID_CONFIG, message);
+}
+
+/**
+ * Check if a status code is accepted (2xx when expectedStatus is not set)
+ */
+function isExpectedStatus(status: number, expected: number | number[] | undefined): boolean {
+  if (expected === undefined) {
+    return status >= 200 && status < 300;
+  }
+  return Array.isArray(expected) ? expected.includes(status) : status === expected;
+}
+
+/**
+ * HTTP/HTTPS probe: the request must answer with an expected status
+ * (and body, when expectedBody is set) within the timeout
+ */
+export class HttpHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+  private readonly url: URL;
+
+  constructor(config: HealthCheckConfig) {
+    if (!config.url) {
+      throw invalidConfig(`${config.type} health check requires a url`);
+    }
+    this.config = config;
+    this.url = new URL(config.url);
+  }
+
+  check(): Promise<HealthResult> {
+    const timeout = this.config.timeout ?? DEFAULT_PROBE_TIMEOUT;
+    const send = this.url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve) => {
+      const req = send(
+        this.url,
+        { method: this.config.method ?? 'GET', headers: this.config.headers, timeout },
+        (res) => {
+          const status = res.statusCode ?? 0;
+          if (!isExpectedStatus(status, this.config.expectedStatus)) {
+            res.resume();
+            resolve({ healthy: false, message: `Unexpected status ${status}` });
+            return;
+          }
+
+          if (this.config.expectedBody === undefined) {
+            res.resume();
+            resolve({ healthy: true, message: `HTTP ${status}` });
+            return;
+          }
+
+          readBody(res)
+            .then((body) => {
+              const expected = this.config.expectedBody!;
+              const matched = typeof expected === 'string' ? body.includes(expected) : expected.test(body);
+              resolve(matched ? { healthy: true, message: `HTTP ${status}` } : { healthy: false, message: 'Unexpected body' });
+            })
+            .catch((err: Error) => resolve({ healthy: false, message: err.message }));
+        }
+      );
+
+      req.on('timeout', () => {
+        req.destroy(new Error(`Timed out after ${timeout}ms`));
+      });
+      req.on('error', (err) => {
+        resolve({ healthy: false, message: err.message });
+      });
+      req.end();
+    });
+  }
+}
+
+/**
+ * Read up to MAX_BODY_BYTES of a response body
+ */
+function readBody(res: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    res.on('data', (chunk: Buffer) => {
+      if (size < MAX_BODY_BYTES) {
+        chunks.push(chunk);
+        size += chunk.length;
+      }
+    });
+    res.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * TCP probe: a connection to host:port must succeed within the timeout
+ */
+export class TcpHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+
+  constructor(config: HealthCheckConfig) {
+    if (config.port === undefined) {
+      throw invalidConfig('tcp health check requires a port');
+    }
+    this.config = config;
+  }
+
+  check(): Promise<HealthResult> {
+    const timeout = this.config.timeout ?? DEFAULT_PROBE_TIMEOUT;
+    const host = this.config.host ?? '127.0.0.1';
+
+    return new Promise((resolve) => {
+      const socket = connect({ host, port: this.config.port! });
+      socket.setTimeout(timeout);
+
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve({ healthy: true });
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve({ healthy: false, message: `Timed out after ${timeout}ms` });
+      });
+      socket.once('error', (err) => {
+        socket.destroy();
+        resolve({ healthy: false, message: err.message });
+      });
+    });
+  }
+}
+
+/**
+ * gRPC probe: grpc.health.v1.Health/Check over HTTP/2 must answer SERVING
+ * for `service` (the whole server when empty) within the timeout
+ */
+export class GrpcHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+
+  constructor(config: HealthCheckConfig) {
+    if (config.port === undefined) {
+      throw invalidConfig('grpc health check requires a port');
+    }
+    this.config = config;
+  }
+
+  check(): Promise<HealthResult> {
+    const timeout = this.config.timeout ?? DEFAULT_PROBE_TIMEOUT;
+    const host = this.config.host ?? '127.0.0.1';
+    const authority = `${this.config.tls ? 'https' : 'http'}://${host}:${this.config.port!}`;
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const session = http2Connect(
+        authority,
+        this.config.tls ? { rejectUnauthorized: this.config.rejectUnauthorized ?? true } : {}
+      );
+
+      const finish = (result: HealthResult): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        session.destroy();
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        finish({ healthy: false, message: `Timed out after ${timeout}ms` });
+      }, timeout);
+
+      session.on('error', (err) => {
+        finish({ healthy: false, message: err.message });
+      });
+
+      const req = session.request({
+        ':method': 'POST',
+        ':path': GRPC_HEALTH_CHECK_PATH,
+        'content-type': 'application/grpc',
+        te: 'trailers',
+      });
+
+      const chunks: Buffer[] = [];
+      let headers: IncomingHttpHeaders = {};
+      let trailers: IncomingHttpHeaders = {};
+
+      req.on('response', (received) => {
+        headers = received;
+      });
+      req.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+      req.on('trailers', (received) => {
+        trailers = received;
+      });
+      req.on('end', () => {
+        finish(this.evaluate(headers, trailers, Buffer.concat(chunks)));
+      });
+      req.on('error', (err) => {
+        finish({ healthy: false, message: err.message });
+      });
+
+      req.end(encodeGrpcFrame(encodeHealthCheckRequest(this.config.service)));
+    });
+  }
+
+  /**
+   * Interpret a completed call
+   */
+  private evaluate(headers: IncomingHttpHeaders, trailers: IncomingHttpHeaders, body: Buffer): HealthResult {
+    const httpStatus = Number(headers[':status']);
+    if (httpStatus !== 200) {
+      return { healthy: false, message: `Unexpected status ${httpStatus}` };
+    }
+
+    // Errors may be sent as trailers-only responses, in the headers
+    const grpcStatus = Number(trailers['grpc-status'] ?? headers['grpc-status'] ?? GrpcStatus.OK);
+    if (grpcStatus === GrpcStatus.NOT_FOUND) {
+      return { healthy: false, message: `Unknown service: ${this.config.service ?? ''}` };
+    }
+    if (grpcStatus !== GrpcStatus.OK) {
+      const grpcMessage = trailers['grpc-message'] ?? headers['grpc-message'];
+      return {
+        healthy: false,
+        message: `gRPC status ${grpcStatus}${grpcMessage ? `: ${decodeGrpcMessage(String(grpcMessage))}` : ''}`,
+      };
+    }
+
+    try {
+      const message = decodeGrpcFrame(body);
+      if (!message) {
+        return { healthy: false, message: 'Empty response' };
+      }
+      const status = decodeHealthCheckResponse(message);
+      return status === GrpcServingStatus.SERVING
+        ? { healthy: true, message: servingStatusName(status) }
+        : { healthy: false, message: servingStatusName(status) };
+    } catch (err) {
+      return { healthy: false, message: `Invalid response: ${(err as Error).message}` };
+    }
+  }
+}
+
+/**
+ * Script/command probe: the command must exit with code 0 within the timeout.
+ * `script` runs the executable directly with args, `command` runs through the shell.
+ */
+export class CommandHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+
+  constructor(config: HealthCheckConfig) {
+    if (!config.command) {
+      throw invalidConfig(`${config.type} health check requires a command`);
+    }
+    this.config = config;
+  }
+
+  check(target: ProbeTarget): Promise<HealthResult> {
+    const timeout = this.config.timeout ?? DEFAULT_PROBE_TIMEOUT;
+
+    // In its own process group, so that a timeout also kills what the shell runs
+    const group = process.platform !== 'win32';
+
+    return new Promise((resolve) => {
+      const child = spawn(this.config.command!, this.config.args ?? [], {
+        cwd: target.cwd,
+        shell: this.config.type === 'command',
+        stdio: 'ignore',
+        detached: group,
+        env: { ...process.env, OD_PROCESS_NAME: target.name, OD_PROCESS_PIDS: target.pids.join(',') },
+      });
+
+      const timer = setTimeout(() => {
+        if (child.pid !== undefined) {
+          signalProcessTree(child.pid, 'SIGKILL', [], group);
+        }
+        resolve({ healthy: false, message: `Timed out after ${timeout}ms` });
+      }, timeout);
+
+      child.once('error', (err) => {
+        clearTimeout(timer);
+        resolve({ healthy: false, message: err.message });
+      });
+      child.once('exit', (code, signal) => {
+        clearTimeout(timer);
+        resolve(
+          code === 0
+            ? { healthy: true }
+            : { healthy: false, message: signal ? `Killed by ${signal}` : `Exited with code ${code}` }
+        );
+      });
+    });
+  }
+}
+
+/**
+ * Composite probe: runs nested checks in parallel and combines them with
+ * `operator` (`and` by default)
+ */
+export class CompositeHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+  private readonly checks: HealthCheck[];
+
+  constructor(config: HealthCheckConfig) {
+    if (!config.checks || config.checks.length === 0) {
+      throw invalidConfig('composite health check requires checks');
+    }
+    this.config = config;
+    this.checks = config.checks.map((check) => createHealthCheck(check));
+  }
+
+  async check(target: ProbeTarget): Promise<HealthResult> {
+    const results = await Promise.all(this.checks.map((check) => check.check(target)));
+    const failed = results.filter((result) => !result.healthy);
+
+    const healthy = this.config.operator === 'or' ? failed.length < results.length : failed.length === 0;
+    return healthy
+      ? { healthy: true }
+      : { healthy: false, message: failed.map((result) => result.message ?? 'unhealthy').join('; ') };
+  }
+}
+
+/**
+ * Process probe: every instance pid must be alive
+ */
+export class ProcessHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+
+  constructor(config: HealthCheckConfig) {
+    this.config = config;
+  }
+
+  async check(target: ProbeTarget): Promise<HealthResult> {
+    if (target.pids.length === 0) {
+      return { healthy: false, message: 'No running instances' };
+    }
+
+    const dead = target.pids.filter((pid) => !isAlive(pid));
+    return dead.length === 0
+      ? { healthy: true }
+      : { healthy: false, message: `Not running: ${dead.join(', ')}` };
+  }
+}
+
+/**
+ * Memory probe: total resident memory of all instances must stay below `threshold` bytes
+ */
+export class MemoryHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+
+  constructor(config: HealthCheckConfig) {
+    requireProcfs(config);
+    this.config = config;
+  }
+
+  async check(target: ProbeTarget): Promise<HealthResult> {
+    const rss = target.pids.reduce((total, pid) => total + (readProcMemory(pid)?.rss ?? 0), 0);
+    const threshold = this.config.threshold!;
+
+    return rss < threshold
+      ? { healthy: true, message: `${rss} bytes` }
+      : { healthy: false, message: `Memory ${rss} bytes exceeds ${threshold}` };
+  }
+}
+
+/**
+ * CPU probe: total CPU usage of all instances since the previous run
+ * must stay below `threshold` percent (of one core)
+ */
+export class CpuHealthCheck implements HealthCheck {
+  readonly config: HealthCheckConfig;
+  private previous = new Map<number, { ticks: number; time: number }>();
+
+  constructor(config: HealthCheckConfig) {
+    requireProcfs(config);
+    this.config = config;
+  }
+
+  async check(target: ProbeTarget): Promise<HealthResult> {
+    const now = Date.now();
+    const samples = new Map<number, { ticks: number; time: number }>();
+    let usage = 0;
+    let measured = false;
+
+    for (const pid of target.pids) {
+      const times = readProcCpuTimes(pid);
+      if (!times) {
+        continue;
+      }
+
+      const ticks = times.user + times.system;
+      samples.set(pid, { ticks, time: now });
+      const last = this.previous.get(pid);
+      if (last && now > last.time) {
+        usage += ((ticks - last.ticks) / CLOCK_TICKS / ((now - last.time) / 1000)) * 100;
+        measured = true;
+      }
+    }
+
+    this.previous = samples;
+    if (!measured) {
+      // Needs two samples to compute a rate
+      return { healthy: true, message: 'Collecting CPU samples' };
+    }
+
+    const threshold = this.config.threshold!;
+    return usage < threshold
+      ? { healthy: true, message: `${usage.toFixed(1)}%` }
+      : { healthy: false, message: `CPU ${usage.toFixed(1)}% exceeds ${threshold}%` };
+  }
+}
+
+function requireProcfs(config: HealthCheckConfig): void {
+  if (config.threshold === undefined) {
+    throw invalidConfig(`${config.type} health check requires a threshold`);
+  }
+  if (process.platform !== 'linux') {
+    throw invalidConfig(`${config.type} health check is only supported on Linux`);
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
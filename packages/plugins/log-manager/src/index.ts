@@ -0,0 +1,340 @@
+import type { Plugin, PluginContext, IpcSocket } from '../../../core/src/index.js';
+import {
+  Logger,
+  ProcessError,
+  ErrorCode,
+  FrameType,
+  encodeFrame,
+  serialize,
+} from '../../../core/src/index.js';
+import type { ProcessLogEntry, ProcessLogSource } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin, ManagedProcessInfo } from '../../process-manager/src/index.js';
+import { existsSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { LogWriter, resolveLogPaths } from './writer.js';
+import { parseLogLine, readLastLines } from './reader.js';
+import { listRotatedFiles } from './rotation.js';
+export {
+  detectLevel,
+  parseTimeBound,
+  compileSearchFilter,
+  searchLogFiles,
+  type LogLevel,
+  type LogSearchCursor,
+  type LogSearchParams,
+  type LogSearchMatch,
+  type LogSearchResult,
+  type LogSearchFile,
+  type LogSearchFilter,
+} from './search.js';
+import {
+  compileSearchFilter,
+  searchLogFiles,
+  type LogSearchFile,
+  type LogSearchParams,
+  type LogSearchResult,
+} from './search.js';
+
+export { LogWriter, resolveLogPaths, formatLogLine, type LogPaths } from './writer.js';
+export { parseLogLine, readLastLines, type ParsedLogLine } from './reader.js';
+export {
+  LogRotator,
+  formatDate,
+  gzipFile,
+  listRotatedFiles,
+  type RotatedFile,
+  type RotationState,
+} from './rotation.js';
+
+/**
+ * Number of recent lines returned by log.tail/log.stream when not specified
+ */
+const DEFAULT_TAIL_LINES = 15;
+
+/**
+ * Parameters of the log.tail and log.stream RPC methods
+ */
+export interface LogTailParams {
+  /** Processes to include (all when omitted) */
+  names?: string[];
+  /** Streams to include (both when omitted) */
+  sources?: ProcessLogSource[];
+  /** Number of recent lines to return */
+  lines?: number;
+}
+
+/**
+ * A socket subscribed to live output through log.stream
+ */
+interface LogSubscriber {
+  socket: IpcSocket;
+  names: Set<string> | undefined;
+  sources: Set<ProcessLogSource> | undefined;
+}
+
+/**
+ * Log Manager Plugin
+ * Writes captured process output to per-process log files
+ * and streams it to subscribed IPC clients
+ */
+export class LogManagerPlugin implements Plugin {
+  name = 'log-manager';
+  version = '1.0.0';
+  description = 'Captures process output to log files';
+  priority = 15;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  private logDir = resolve('logs');
+  private writers = new Map<string, LogWriter>();
+  private subscribers = new Map<string, LogSubscriber>();
+
+  constructor() {
+    this.logger = new Logger('log-manager');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+    this.logDir = resolve(context.config.daemon?.logDir ?? 'logs');
+    this.logger.info('Log manager installed', { logDir: this.logDir });
+
+    context.registerMethod('log.tail', this.tailLogs.bind(this));
+    context.registerMethod('log.stream', this.streamLogs.bind(this));
+    context.registerMethod('log.search', this.search.bind(this));
+
+    context.events.on('process:log', (data) => {
+      this.handleLog(data as ProcessLogEntry);
+      this.publish(data as ProcessLogEntry);
+    });
+
+    context.events.on('process:deleted', (data) => {
+      void this.closeWriter((data as { name: string }).name);
+    });
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    this.logger.info('Log manager stopping');
+
+    this.subscribers.clear();
+
+    const writers = Array.from(this.writers.values());
+    this.writers.clear();
+    await Promise.all(writers.map((writer) => writer.close()));
+  }
+
+  /**
+   * Get the log directory used for default log file locations
+   */
+  getLogDir(): string {
+    return this.logDir;
+  }
+
+  /**
+   * Get the most recent lines from the log files of the selected processes,
+   * oldest first
+   */
+  tail(params: LogTailParams = {}): ProcessLogEntry[] {
+    const count = params.lines ?? DEFAULT_TAIL_LINES;
+    const sources = params.sources ? new Set(params.sources) : undefined;
+    const entries: ProcessLogEntry[] = [];
+
+    for (const proc of this.selectProcesses(params.names)) {
+      const instances = Math.max(proc.workers.length, 1);
+
+      for (let instanceId = 0; instanceId < instances; instanceId++) {
+        const paths = resolveLogPaths(proc.config, this.logDir, instanceId);
+        // With mergeLogs both streams share one file, read it once
+        const files = paths.err === paths.out ? [paths.out] : [paths.out, paths.err];
+
+        for (const file of files) {
+          for (const line of readLastLines(file, count)) {
+            const parsed = parseLogLine(line);
+            if (!parsed || (sources && !sources.has(parsed.source))) {
+              continue;
+            }
+            entries.push({ ...parsed, processName: proc.config.name, instanceId });
+          }
+        }
+      }
+    }
+
+    // ISO timestamps sort lexicographically; sort is stable for equal stamps
+    entries.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+    return count > 0 ? entries.slice(-count) : [];
+  }
+
+  /**
+   * Search current and rotated log files of the selected processes.
+   * Files are scanned per process, oldest rotated file first; pass the
+   * returned `nextCursor` back to get the next page.
+   */
+  async search(params?: LogSearchParams): Promise<LogSearchResult> {
+    const options = params ?? {};
+    const filter = compileSearchFilter(options);
+    const files = this.selectProcesses(options.names).flatMap((proc) => this.getSearchFiles(proc));
+
+    return searchLogFiles(files, filter, options.limit, options.cursor);
+  }
+
+  /**
+   * Return recent lines (RPC handler)
+   */
+  private tailLogs(params: LogTailParams | undefined): ProcessLogEntry[] {
+    return this.tail(params ?? {});
+  }
+
+  /**
+   * Subscribe the calling socket to live output and return recent lines.
+   * Each new line is pushed as a BINARY frame holding the JSON-encoded
+   * ProcessLogEntry until the socket closes.
+   */
+  private streamLogs(params: LogTailParams | undefined, socket: IpcSocket): ProcessLogEntry[] {
+    const options = params ?? {};
+    const backlog = this.tail(options);
+
+    if (!this.subscribers.has(socket.id)) {
+      socket.on('close', () => {
+        this.subscribers.delete(socket.id);
+      });
+    }
+
+    this.subscribers.set(socket.id, {
+      socket,
+      names: options.names?.length ? new Set(options.names) : undefined,
+      sources: options.sources?.length ? new Set(options.sources) : undefined,
+    });
+    this.logger.debug(`Socket ${socket.id} subscribed to logs`, { names: options.names });
+
+    return backlog;
+  }
+
+  /**
+   * Push a captured line to every subscriber interested in it
+   */
+  private publish(entry: ProcessLogEntry): void {
+    if (this.subscribers.size === 0) {
+      return;
+    }
+
+    let frame: Buffer | undefined;
+    for (const subscriber of this.subscribers.values()) {
+      if (subscriber.names && !subscriber.names.has(entry.processName)) {
+        continue;
+      }
+      if (subscriber.sources && !subscriber.sources.has(entry.source)) {
+        continue;
+      }
+
+      frame ??= encodeFrame(FrameType.BINARY, serialize(entry));
+      try {
+        subscriber.socket.write(frame);
+      } catch (err) {
+        this.logger.warn(`Failed to push log line to socket ${subscriber.socket.id}`, {
+          error: (err as Error).message,
+        });
+        this.subscribers.delete(subscriber.socket.id);
+      }
+    }
+  }
+
+  /**
+   * List the files holding a process's output, rotated files first
+   */
+  private getSearchFiles(proc: ManagedProcessInfo): LogSearchFile[] {
+    const files: LogSearchFile[] = [];
+    const instances = Math.max(proc.workers.length, 1);
+
+    for (let instanceId = 0; instanceId < instances; instanceId++) {
+      const paths = resolveLogPaths(proc.config, this.logDir, instanceId);
+      const targets: Array<[string, ProcessLogSource[]]> =
+        paths.err === paths.out
+          ? [[paths.out, ['stdout', 'stderr']]]
+          : [
+              [paths.out, ['stdout']],
+              [paths.err, ['stderr']],
+            ];
+
+      for (const [path, sources] of targets) {
+        const base = { processName: proc.config.name, instanceId, sources };
+
+        for (const rotated of listRotatedFiles(path, proc.config.logRotation?.directory).reverse()) {
+          files.push({ ...base, path: rotated.path, compressed: rotated.compressed, mtime: rotated.mtime });
+        }
+        if (existsSync(path)) {
+          files.push({ ...base, path, compressed: false, mtime: statSync(path).mtimeMs });
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Resolve the processes a log request refers to
+   */
+  private selectProcesses(names: string[] | undefined): ManagedProcessInfo[] {
+    const processManager = this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+    if (!names || names.length === 0) {
+      return processManager?.getProcesses() ?? [];
+    }
+
+    return names.map((name) => {
+      const proc = processManager?.getProcess(name);
+      if (!proc) {
+        throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, name, `Process "${name}" not found`);
+      }
+      return proc;
+    });
+  }
+
+  /**
+   * Write a captured line to the process's log file
+   */
+  private handleLog(entry: ProcessLogEntry): void {
+    try {
+      this.getWriter(entry.processName)?.write(entry);
+    } catch (err) {
+      this.logger.error(`Failed to write log for ${entry.processName}`, undefined, err as Error);
+    }
+  }
+
+  /**
+   * Get the writer for a process, recreating it when the process config changed
+   */
+  private getWriter(name: string): LogWriter | undefined {
+    const processManager = this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+    const config = processManager?.getProcess(name)?.config;
+    if (!config) {
+      return undefined;
+    }
+
+    let writer = this.writers.get(name);
+    if (!writer || writer.config !== config) {
+      if (writer) {
+        void writer.close();
+      }
+      writer = new LogWriter(config, this.logDir);
+      this.writers.set(name, writer);
+    }
+
+    return writer;
+  }
+
+  /**
+   * Close and forget the writer of a process
+   */
+  private async closeWriter(name: string): Promise<void> {
+    const writer = this.writers.get(name);
+    if (writer) {
+      this.writers.delete(name);
+      await writer.close();
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type { ProcessLogSource } from '../../../core/src/index.js';
+import { closeSync, existsSync, fstatSync, openSync, readSync } from 'fs';
+
+/**
+ * Chunk size used when reading a file backwards
+ */
+const TAIL_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Matches a line written by formatLogLine()
+ */
+const LOG_LINE_PATTERN = /^(\S+) \[(stdout|stderr)\] (.*)$/;
+
+/**
+ * A log file line split back into its parts
+ */
+export interface ParsedLogLine {
+  timestamp: string;
+  source: ProcessLogSource;
+  message: string;
+}
+
+/**
+ * Parse a line written by formatLogLine()
+ *
+ * @returns The parsed line, or undefined if it was not written by the log manager
+ */
+export function parseLogLine(line: string): ParsedLogLine | undefined {
+  const match = LOG_LINE_PATTERN.exec(line);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    timestamp: match[1]!,
+    source: match[2] as ProcessLogSource,
+    message: match[3]!,
+  };
+}
+
+/**
+ * Read the last lines of a file without loading all of it
+ *
+ * @param path - File to read
+ * @param count - Maximum number of lines to return
+ * @returns Lines in file order; empty if the file does not exist
+ */
+export function readLastLines(path: string, count: number): string[] {
+  if (count <= 0 || !existsSync(path)) {
+    return [];
+  }
+
+  const fd = openSync(path, 'r');
+  try {
+    let position = fstatSync(fd).size;
+    let data = Buffer.alloc(0);
+    let newlines = 0;
+
+    // One extra newline is needed since the file ends with one
+    while (position > 0 && newlines <= count) {
+      const length = Math.min(TAIL_CHUNK_SIZE, position);
+      position -= length;
+
+      const chunk = Buffer.alloc(length);
+      readSync(fd, chunk, 0, length, position);
+      data = Buffer.concat([chunk, data]);
+
+      for (const byte of chunk) {
+        if (byte === 0x0a) {
+          newlines++;
+        }
+      }
+    }
+
+    const lines = data.toString('utf-8').split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines.slice(-count);
+  } finally {
+    closeSync(fd);
+  }
+}
@@ -0,0 +1,208 @@
+import type { LogRotationConfig } from '../../../core/src/index.js';
+import { parseSize, parseDuration } from '../../../core/src/index.js';
+import { createReadStream, createWriteStream, existsSync, readdirSync, statSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { resolve, dirname, extname, basename, join } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+
+/**
+ * Timestamp pattern used for rotated files when no datePattern is configured
+ */
+const DEFAULT_STAMP_PATTERN = 'YYYY-MM-DD_HH-mm-ss';
+
+/**
+ * Separator between the log name and the rotation stamp (app-out__2026-01-15.log)
+ */
+const ROTATION_SEPARATOR = '__';
+
+/**
+ * Rotation bookkeeping for an open log file
+ */
+export interface RotationState {
+  size: number;
+  period: string | undefined;
+}
+
+/**
+ * A rotated log file on disk
+ */
+export interface RotatedFile {
+  path: string;
+  mtime: number;
+  compressed: boolean;
+}
+
+/**
+ * Format a date with a simple token pattern (YYYY, MM, DD, HH, mm, ss) in local time
+ *
+ * @example
+ * ```typescript
+ * formatDate(new Date(2026, 0, 15, 10, 30), 'YYYY-MM-DD_HH'); // "2026-01-15_10"
+ * ```
+ */
+export function formatDate(date: Date, pattern: string): string {
+  const pad = (n: number): string => String(n).padStart(2, '0');
+
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => {
+    switch (token) {
+      case 'YYYY':
+        return String(date.getFullYear());
+      case 'MM':
+        return pad(date.getMonth() + 1);
+      case 'DD':
+        return pad(date.getDate());
+      case 'HH':
+        return pad(date.getHours());
+      case 'mm':
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+}
+
+/**
+ * List rotated files belonging to a log file, newest first
+ *
+ * @param path - Path of the live log file
+ * @param directory - Directory rotated files are kept in (defaults to the log's directory)
+ */
+export function listRotatedFiles(path: string, directory?: string): RotatedFile[] {
+  const dir = directory ? resolve(dirname(path), directory) : dirname(path);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const ext = extname(path);
+  const prefix = basename(path, ext) + ROTATION_SEPARATOR;
+  const files: RotatedFile[] = [];
+
+  for (const name of readdirSync(dir)) {
+    if (!name.startsWith(prefix)) {
+      continue;
+    }
+    const compressed = name.endsWith(`${ext}.gz`);
+    if (!compressed && !name.endsWith(ext)) {
+      continue;
+    }
+
+    const filePath = join(dir, name);
+    try {
+      files.push({ path: filePath, mtime: statSync(filePath).mtimeMs, compressed });
+    } catch {
+      // File removed while listing
+    }
+  }
+
+  return files.sort((a, b) => b.mtime - a.mtime);
+}
+
+/**
+ * Gzip a file in place (file -> file.gz) and remove the original
+ */
+export async function gzipFile(path: string): Promise<string> {
+  const target = `${path}.gz`;
+  await pipeline(createReadStream(path), createGzip(), createWriteStream(target));
+  await unlink(path);
+  return target;
+}
+
+/**
+ * Size- and time-based log rotation policy implementing LogRotationConfig.
+ *
+ * Rotated files are named `<name>__<stamp><ext>`, where the stamp is the
+ * datePattern period the file covers (or a full timestamp for size-only
+ * rotation), and are optionally gzipped and pruned by count and age.
+ *
+ * @example
+ * ```typescript
+ * const rotator = new LogRotator({ maxSize: '10M', maxFiles: 5, compress: true });
+ * if (rotator.shouldRotate(state, bytes, new Date())) {
+ *   const rotated = rotator.rotatedPathFor(path, state.period, new Date());
+ *   renameSync(path, rotated);
+ *   await rotator.finalize(path, rotated);
+ * }
+ * ```
+ */
+export class LogRotator {
+  readonly config: LogRotationConfig;
+  private readonly maxSize: number;
+  private readonly maxAge: number;
+
+  constructor(config: LogRotationConfig) {
+    this.config = config;
+    this.maxSize = config.maxSize !== undefined ? parseSize(config.maxSize) : 0;
+    // Bare numbers are seconds, as documented for maxAge
+    this.maxAge =
+      config.maxAge === undefined
+        ? 0
+        : typeof config.maxAge === 'number'
+          ? config.maxAge * 1000
+          : parseDuration(config.maxAge);
+  }
+
+  /**
+   * Get the datePattern period a date falls into
+   */
+  periodOf(date: Date): string | undefined {
+    return this.config.datePattern ? formatDate(date, this.config.datePattern) : undefined;
+  }
+
+  /**
+   * Check if a file must be rotated before writing more bytes to it
+   */
+  shouldRotate(state: RotationState, incoming: number, now: Date): boolean {
+    if (state.size === 0) {
+      return false;
+    }
+
+    if (this.maxSize > 0 && state.size + incoming > this.maxSize) {
+      return true;
+    }
+
+    return this.config.datePattern !== undefined && state.period !== this.periodOf(now);
+  }
+
+  /**
+   * Get a free path to move a live log file to
+   */
+  rotatedPathFor(path: string, period: string | undefined, now: Date): string {
+    const dir = this.config.directory ? resolve(dirname(path), this.config.directory) : dirname(path);
+    const ext = extname(path);
+    const stamp = period ?? formatDate(now, DEFAULT_STAMP_PATTERN);
+    const base = `${basename(path, ext)}${ROTATION_SEPARATOR}${stamp}`;
+
+    let candidate = join(dir, `${base}${ext}`);
+    for (let n = 1; existsSync(candidate) || existsSync(`${candidate}.gz`); n++) {
+      candidate = join(dir, `${base}.${n}${ext}`);
+    }
+    return candidate;
+  }
+
+  /**
+   * Compress a freshly rotated file (if configured) and prune old ones
+   */
+  async finalize(path: string, rotated: string): Promise<void> {
+    if (this.config.compress) {
+      await gzipFile(rotated);
+    }
+    await this.prune(path);
+  }
+
+  /**
+   * Delete rotated files beyond maxFiles or older than maxAge
+   */
+  async prune(path: string, now = Date.now()): Promise<string[]> {
+    const files = listRotatedFiles(path, this.config.directory);
+    const maxFiles = this.config.maxFiles ?? 0;
+
+    const expired = files.filter(
+      (file, index) =>
+        (maxFiles > 0 && index >= maxFiles) || (this.maxAge > 0 && now - file.mtime > this.maxAge)
+    );
+
+    await Promise.all(expired.map((file) => unlink(file.path).catch(() => undefined)));
+    return expired.map((file) => file.path);
+  }
+}
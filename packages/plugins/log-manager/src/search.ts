@@ -0,0 +1,366 @@
+import type { ProcessLogEntry, ProcessLogSource } from '../../../core/src/index.js';
+import { DaemonError, ErrorCode, parseDuration } from '../../../core/src/index.js';
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import { parseLogLine } from './reader.js';
+
+/**
+ * Log levels detected in process output
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/**
+ * Words recognized as levels, and the level they stand for
+ */
+const LEVEL_NAMES: Record<string, LogLevel> = {
+  trace: 'trace',
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  error: 'error',
+  err: 'error',
+  fatal: 'fatal',
+  critical: 'fatal',
+};
+
+/**
+ * Numeric levels used by pino and bunyan
+ */
+const NUMERIC_LEVELS: Record<number, LogLevel> = {
+  10: 'trace',
+  20: 'debug',
+  30: 'info',
+  40: 'warn',
+  50: 'error',
+  60: 'fatal',
+};
+
+/**
+ * Level keywords are only looked for near the start of a message,
+ * where loggers put them ("[ERROR] ...", "WARN: ...")
+ */
+const LEVEL_PREFIX_LENGTH = 64;
+
+const LEVEL_KEYWORD_PATTERN = /\b(trace|debug|info|notice|warn|warning|error|err|fatal|critical)\b/i;
+const LOGFMT_LEVEL_PATTERN = /\blevel=["']?(\w+)/i;
+
+/**
+ * Default and maximum number of matches per search page
+ */
+const DEFAULT_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 1000;
+
+/**
+ * Position to resume a search from
+ */
+export interface LogSearchCursor {
+  /** File the next page starts in */
+  file: string;
+  /** Byte offset of the next line (in the decompressed content for .gz files) */
+  offset: number;
+}
+
+/**
+ * Parameters of the log.search RPC method
+ */
+export interface LogSearchParams {
+  /** Processes to search (all when omitted) */
+  names?: string[];
+  /** Regular expression matched against the message */
+  pattern?: string;
+  /** Match the pattern case-insensitively */
+  ignoreCase?: boolean;
+  /** Oldest line to return: ISO date, epoch ms, or a duration ago ("15m") */
+  since?: string | number;
+  /** Newest line to return: ISO date, epoch ms, or a duration ago ("15m") */
+  until?: string | number;
+  /** Streams to include (both when omitted) */
+  sources?: ProcessLogSource[];
+  /** Detected levels to include (all lines when omitted) */
+  levels?: LogLevel[];
+  /** Maximum matches per page */
+  limit?: number;
+  /** Cursor returned by the previous page */
+  cursor?: LogSearchCursor;
+}
+
+/**
+ * A line matched by a search
+ */
+export interface LogSearchMatch extends ProcessLogEntry {
+  level: LogLevel | undefined;
+  file: string;
+  offset: number;
+}
+
+/**
+ * One page of search results
+ */
+export interface LogSearchResult {
+  matches: LogSearchMatch[];
+  /** Set when more files or lines remain to be scanned */
+  nextCursor?: LogSearchCursor;
+}
+
+/**
+ * A log file to scan, in the order files are searched
+ */
+export interface LogSearchFile {
+  path: string;
+  processName: string;
+  instanceId: number;
+  /** Streams written to this file */
+  sources: ProcessLogSource[];
+  compressed: boolean;
+  /** Last modification time, used to skip files older than `since` */
+  mtime?: number | undefined;
+}
+
+/**
+ * Compiled search filters
+ */
+export interface LogSearchFilter {
+  pattern?: RegExp | undefined;
+  since?: number | undefined;
+  until?: number | undefined;
+  sources?: Set<ProcessLogSource> | undefined;
+  levels?: Set<LogLevel> | undefined;
+}
+
+/**
+ * Detect the level of a log message from a JSON `level` field,
+ * a logfmt `level=` pair, or a level keyword near its start
+ *
+ * @example
+ * ```typescript
+ * detectLevel('{"level":50,"msg":"boom"}'); // "error"
+ * detectLevel('[WARN] disk almost full');  // "warn"
+ * ```
+ */
+export function detectLevel(message: string): LogLevel | undefined {
+  if (message.startsWith('{')) {
+    try {
+      const level = (JSON.parse(message) as { level?: unknown }).level;
+      if (typeof level === 'number') {
+        return NUMERIC_LEVELS[Math.min(Math.floor(level / 10) * 10, 60)];
+      }
+      if (typeof level === 'string') {
+        return LEVEL_NAMES[level.toLowerCase()];
+      }
+    } catch {
+      // Not JSON, fall through to text detection
+    }
+  }
+
+  const logfmt = LOGFMT_LEVEL_PATTERN.exec(message);
+  if (logfmt) {
+    const level = LEVEL_NAMES[logfmt[1]!.toLowerCase()];
+    if (level) {
+      return level;
+    }
+  }
+
+  const keyword = LEVEL_KEYWORD_PATTERN.exec(message.slice(0, LEVEL_PREFIX_LENGTH));
+  return keyword ? LEVEL_NAMES[keyword[1]!.toLowerCase()] : undefined;
+}
+
+/**
+ * Parse a search time bound into epoch milliseconds
+ *
+ * @param value - ISO date, epoch milliseconds (as a number or digits only),
+ * or a duration before `now` ("15m", "2h")
+ * @throws DaemonError if the value cannot be parsed
+ */
+export function parseTimeBound(value: string | number, now = Date.now()): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  // Digits without a unit are a timestamp, not milliseconds ago
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value);
+  }
+
+  try {
+    return now - parseDuration(value);
+  } catch {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Invalid time: ${value}`);
+    }
+    return time;
+  }
+}
+
+/**
+ * Validate search parameters and compile them into filters
+ *
+ * @throws DaemonError if the pattern or a time bound is invalid
+ */
+export function compileSearchFilter(params: LogSearchParams, now = Date.now()): LogSearchFilter {
+  let pattern: RegExp | undefined;
+  if (params.pattern) {
+    try {
+      pattern = new RegExp(params.pattern, params.ignoreCase ? 'i' : '');
+    } catch (err) {
+      throw new DaemonError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid pattern: ${(err as Error).message}`
+      );
+    }
+  }
+
+  return {
+    pattern,
+    since: params.since !== undefined ? parseTimeBound(params.since, now) : undefined,
+    until: params.until !== undefined ? parseTimeBound(params.until, now) : undefined,
+    sources: params.sources?.length ? new Set(params.sources) : undefined,
+    levels: params.levels?.length ? new Set(params.levels) : undefined,
+  };
+}
+
+/**
+ * Scan log files in order and return one page of matching lines
+ *
+ * Files that disappear or cannot be decoded while scanning are skipped.
+ *
+ * @param files - Files to scan, oldest first
+ * @param filter - Compiled filters
+ * @param limit - Maximum matches to return
+ * @param cursor - Position returned by the previous page
+ * @throws DaemonError if the cursor refers to a file that is no longer searched
+ */
+export async function searchLogFiles(
+  files: LogSearchFile[],
+  filter: LogSearchFilter,
+  limit = DEFAULT_SEARCH_LIMIT,
+  cursor?: LogSearchCursor
+): Promise<LogSearchResult> {
+  const pageSize = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+  let start = 0;
+
+  if (cursor) {
+    start = files.findIndex((file) => file.path === cursor.file);
+    if (start === -1) {
+      throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Invalid cursor: ${cursor.file} is no longer available`);
+    }
+  }
+
+  const matches: LogSearchMatch[] = [];
+
+  for (let i = start; i < files.length; i++) {
+    const file = files[i]!;
+    if (filter.sources && !file.sources.some((source) => filter.sources!.has(source))) {
+      continue;
+    }
+    if (filter.since !== undefined && file.mtime !== undefined && file.mtime < filter.since) {
+      continue;
+    }
+
+    const offset = i === start && cursor ? cursor.offset : 0;
+    try {
+      for await (const line of readLinesFrom(file.path, file.compressed, offset)) {
+        const match = matchLine(file, line.text, line.offset, filter);
+        if (!match) {
+          continue;
+        }
+
+        matches.push(match);
+        if (matches.length === pageSize) {
+          return { matches, nextCursor: { file: file.path, offset: line.next } };
+        }
+      }
+    } catch {
+      // File rotated away, pruned or still being compressed
+    }
+  }
+
+  return { matches };
+}
+
+/**
+ * Apply the filters to one raw line
+ */
+function matchLine(
+  file: LogSearchFile,
+  text: string,
+  offset: number,
+  filter: LogSearchFilter
+): LogSearchMatch | undefined {
+  const parsed = parseLogLine(text);
+  if (!parsed) {
+    return undefined;
+  }
+  if (filter.sources && !filter.sources.has(parsed.source)) {
+    return undefined;
+  }
+
+  if (filter.since !== undefined || filter.until !== undefined) {
+    const time = Date.parse(parsed.timestamp);
+    if (filter.since !== undefined && time < filter.since) {
+      return undefined;
+    }
+    if (filter.until !== undefined && time > filter.until) {
+      return undefined;
+    }
+  }
+
+  if (filter.pattern && !filter.pattern.test(parsed.message)) {
+    return undefined;
+  }
+
+  const level = detectLevel(parsed.message);
+  if (filter.levels && (!level || !filter.levels.has(level))) {
+    return undefined;
+  }
+
+  return {
+    ...parsed,
+    processName: file.processName,
+    instanceId: file.instanceId,
+    level,
+    file: file.path,
+    offset,
+  };
+}
+
+/**
+ * Read lines of a plain or gzipped file with their byte offsets,
+ * starting at the line that begins at `start`
+ */
+async function* readLinesFrom(
+  path: string,
+  compressed: boolean,
+  start: number
+): AsyncGenerator<{ text: string; offset: number; next: number }> {
+  // Gzip streams cannot be entered midway, so compressed files are skipped up to `start`
+  const input = createReadStream(path, compressed ? {} : { start });
+  const stream = compressed ? input.pipe(createGunzip()) : input;
+  let position = compressed ? 0 : start;
+  let rest: Buffer = Buffer.alloc(0);
+
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      let data: Buffer = rest.length > 0 ? Buffer.concat([rest, chunk]) : chunk;
+      let index: number;
+
+      while ((index = data.indexOf(0x0a)) !== -1) {
+        const next = position + index + 1;
+        if (position >= start) {
+          yield { text: data.subarray(0, index).toString('utf-8'), offset: position, next };
+        }
+        position = next;
+        data = data.subarray(index + 1);
+      }
+      rest = data;
+    }
+
+    if (rest.length > 0 && position >= start) {
+      yield { text: rest.toString('utf-8'), offset: position, next: position + rest.length };
+    }
+  } finally {
+    input.destroy();
+    stream.destroy();
+  }
+}
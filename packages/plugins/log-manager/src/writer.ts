@@ -0,0 +1,226 @@
+import type { ProcessConfig, ProcessLogEntry, ProcessLogSource } from '../../../core/src/index.js';
+import { Logger, isRotationEnabled } from '../../../core/src/index.js';
+import {
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  renameSync,
+  statSync,
+  type WriteStream,
+} from 'fs';
+import { resolve, dirname, extname, basename, join } from 'path';
+import { LogRotator, type RotationState } from './rotation.js';
+import { resolveInstanceCount } from '../../process-manager/src/instances.js';
+
+/**
+ * Resolved log file locations for one process instance
+ */
+export interface LogPaths {
+  out: string;
+  err: string;
+}
+
+/**
+ * Check if a process runs with more than one instance
+ */
+export function isClustered(config: ProcessConfig): boolean {
+  if (config.mode !== 'cluster') {
+    return false;
+  }
+  return resolveInstanceCount(config.name, config.instances) > 1;
+}
+
+/**
+ * Insert an instance suffix before the file extension (app-out.log -> app-out-2.log)
+ */
+export function withInstanceSuffix(path: string, instanceId: number): string {
+  const ext = extname(path);
+  const base = basename(path, ext);
+  return join(dirname(path), `${base}-${instanceId}${ext}`);
+}
+
+/**
+ * Resolve where stdout/stderr of a process instance are written.
+ *
+ * Defaults to `<logDir>/<name>-out.log` and `<logDir>/<name>-error.log`.
+ * With `mergeLogs`, stderr goes to the stdout file. Cluster instances get
+ * a `-<instanceId>` suffix so workers never interleave within a file.
+ */
+export function resolveLogPaths(config: ProcessConfig, logDir: string, instanceId = 0): LogPaths {
+  const cwd = config.cwd ? resolve(config.cwd) : process.cwd();
+  const out = config.logFile
+    ? resolve(cwd, config.logFile)
+    : resolve(logDir, `${config.name}-out.log`);
+  const err = config.mergeLogs
+    ? out
+    : config.errorLogFile
+      ? resolve(cwd, config.errorLogFile)
+      : resolve(logDir, `${config.name}-error.log`);
+
+  if (!isClustered(config)) {
+    return { out, err };
+  }
+
+  return {
+    out: withInstanceSuffix(out, instanceId),
+    err: err === out ? withInstanceSuffix(out, instanceId) : withInstanceSuffix(err, instanceId),
+  };
+}
+
+/**
+ * Format a captured line for a log file
+ *
+ * @example
+ * ```
+ * 2026-01-15T10:30:00.000Z [stdout] Server listening on :3000
+ * ```
+ */
+export function formatLogLine(entry: ProcessLogEntry): string {
+  return `${entry.timestamp} [${entry.source}] ${entry.message}`;
+}
+
+/**
+ * An open log file and its rotation bookkeeping
+ */
+interface OpenLogFile extends RotationState {
+  stream: WriteStream;
+}
+
+/**
+ * Writes captured output of a single process to its log files.
+ * Streams are opened lazily, one per distinct file, and rotated
+ * according to the process's `logRotation` config.
+ */
+export class LogWriter {
+  readonly config: ProcessConfig;
+  private readonly logDir: string;
+  private readonly rotator: LogRotator | undefined;
+  private files = new Map<string, OpenLogFile>();
+  private pending = new Set<Promise<void>>();
+  private logger = new Logger('log-manager');
+
+  constructor(config: ProcessConfig, logDir: string) {
+    this.config = config;
+    this.logDir = logDir;
+    this.rotator = isRotationEnabled(config.logRotation) ? new LogRotator(config.logRotation) : undefined;
+  }
+
+  /**
+   * Append an entry to the file for its source and instance
+   */
+  write(entry: ProcessLogEntry): void {
+    const path = this.pathFor(entry.source, entry.instanceId);
+    const line = formatLogLine(entry) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    let file = this.getFile(path);
+    if (this.rotator?.shouldRotate(file, bytes, new Date())) {
+      this.rotate(path, file);
+      file = this.getFile(path);
+    }
+
+    file.stream.write(line);
+    file.size += bytes;
+  }
+
+  /**
+   * Get the file an entry of the given source/instance is written to
+   */
+  pathFor(source: ProcessLogSource, instanceId: number): string {
+    const paths = resolveLogPaths(this.config, this.logDir, instanceId);
+    return source === 'stderr' ? paths.err : paths.out;
+  }
+
+  /**
+   * Get all files currently open by this writer
+   */
+  getOpenFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * Flush and close all open files, waiting for pending compression/pruning
+   */
+  async close(): Promise<void> {
+    const files = Array.from(this.files.values());
+    this.files.clear();
+
+    await Promise.all(
+      files.map(
+        (file) =>
+          new Promise<void>((resolve) => {
+            file.stream.end(() => resolve());
+          })
+      )
+    );
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Move the live file aside and finish rotation in the background.
+   * The old stream keeps its file descriptor, so buffered writes still
+   * land in the rotated file before it is compressed.
+   */
+  private rotate(path: string, file: OpenLogFile): void {
+    const rotator = this.rotator!;
+    const now = new Date();
+
+    let rotated: string;
+    try {
+      rotated = rotator.rotatedPathFor(path, file.period, now);
+      mkdirSync(dirname(rotated), { recursive: true });
+      renameSync(path, rotated);
+    } catch (err) {
+      this.logger.error(`Failed to rotate log file: ${path}`, undefined, err as Error);
+      // Keep writing to the live file and retry in the next period/size window
+      file.size = 0;
+      file.period = rotator.periodOf(now);
+      return;
+    }
+
+    this.files.delete(path);
+    this.logger.debug(`Rotated log file: ${path}`, { rotated });
+
+    const task = new Promise<void>((resolve) => {
+      file.stream.end(() => resolve());
+    })
+      .then(() => rotator.finalize(path, rotated))
+      .catch((err: Error) => {
+        this.logger.error(`Failed to finalize rotated log: ${rotated}`, undefined, err);
+      })
+      .finally(() => {
+        this.pending.delete(task);
+      });
+    this.pending.add(task);
+  }
+
+  /**
+   * Get or open the append stream for a file
+   */
+  private getFile(path: string): OpenLogFile {
+    let file = this.files.get(path);
+    if (!file) {
+      mkdirSync(dirname(path), { recursive: true });
+
+      let size = 0;
+      let lastWrite = new Date();
+      if (existsSync(path)) {
+        const stats = statSync(path);
+        size = stats.size;
+        lastWrite = stats.mtime;
+      }
+
+      // Open synchronously so the file exists (and can be renamed) before the first flush
+      const stream = createWriteStream(path, { fd: openSync(path, 'a') });
+      stream.on('error', (err) => {
+        this.logger.error(`Failed to write log file: ${path}`, undefined, err);
+        this.files.delete(path);
+      });
+
+      file = { stream, size, period: this.rotator?.periodOf(lastWrite) };
+      this.files.set(path, file);
+    }
+    return file;
+  }
+}
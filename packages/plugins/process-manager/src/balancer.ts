@@ -0,0 +1,77 @@
+import type { LoadBalancingConfig, LoadBalancingStrategy, ProcessConfig } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError } from '../../../core/src/index.js';
+
+const STRATEGIES: readonly LoadBalancingStrategy[] = ['round-robin', 'least-connections', 'ip-hash', 'random', 'weighted'];
+
+/**
+ * Load balancing settings passed to the primary shim, validated
+ */
+export interface ClusterBalancerOptions {
+  port: number;
+  host?: string | undefined;
+  strategy: LoadBalancingStrategy;
+  sticky: boolean;
+  /** Weights by instance id */
+  weights: number[];
+}
+
+/**
+ * Messages between a worker accepting connections with the SDK and the primary.
+ * The primary sends `od:connection` with the socket as handle.
+ */
+export type BalancedConnectionMessage =
+  | { type: 'od:accepting' }
+  | { type: 'od:connection' }
+  | { type: 'od:connection-closed' };
+
+/**
+ * Worker selection of the primary shim, created by `createBalancer`.
+ * Workers are identified by a key (their pid).
+ */
+export interface ConnectionBalancer {
+  /** Start routing connections to a worker */
+  add(key: number, id: number): void;
+  /** Stop routing connections to a worker and forget its sticky clients */
+  remove(key: number): void;
+  /** Pick the worker of a connection from a client address, if any worker accepts connections */
+  pick(address: string | undefined): number | undefined;
+}
+
+/**
+ * Resolve the loadBalancing setting of a process
+ *
+ * @returns The options, or undefined if load balancing is not configured
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid settings
+ */
+export function resolveLoadBalancing(config: ProcessConfig): ClusterBalancerOptions | undefined {
+  const balancing: LoadBalancingConfig | undefined = config.loadBalancing;
+  if (!balancing) {
+    return undefined;
+  }
+
+  const invalid = (message: string): ProcessError =>
+    new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, config.name, message);
+
+  if (config.mode !== 'cluster') {
+    throw invalid('loadBalancing requires cluster mode');
+  }
+  if (!Number.isInteger(balancing.port) || balancing.port < 1 || balancing.port > 65535) {
+    throw invalid(`Invalid loadBalancing.port: ${balancing.port}`);
+  }
+  const strategy = balancing.strategy ?? 'round-robin';
+  if (!STRATEGIES.includes(strategy)) {
+    throw invalid(`Invalid loadBalancing.strategy: ${strategy} (expected one of ${STRATEGIES.join(', ')})`);
+  }
+  const weights = balancing.weights ?? [];
+  if (!Array.isArray(weights) || weights.some((weight) => typeof weight !== 'number' || !(weight > 0))) {
+    throw invalid('Invalid loadBalancing.weights (expected positive numbers)');
+  }
+
+  return {
+    port: balancing.port,
+    host: balancing.host,
+    strategy,
+    sticky: balancing.sticky ?? false,
+    weights,
+  };
+}
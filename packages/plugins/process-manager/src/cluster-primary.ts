@@ -0,0 +1,226 @@
+/**
+ * Primary process of a cluster, forked by the process manager with its
+ * ClusterPrimaryOptions in the OD_CLUSTER environment variable.
+ *
+ * Forks the workers with node:cluster so they share server handles (every
+ * worker can listen on the same port), and reports each worker's pid,
+ * output, readiness, metrics and exit to the daemon over IPC. The daemon decides
+ * when to fork: it sends a `fork` message with the instance id to restart a
+ * worker, or to start its replacement on reload while the old worker still
+ * runs. A `stop` message disconnects a worker so it gets no new connections
+ * and closes its servers, then signals it with SIGTERM (or first sends it a
+ * `shutdown` message, with `shutdown` set). A `scale` message sets the
+ * OD_WORKER_COUNT of future workers and tells the running ones the new count.
+ * On SIGTERM or SIGINT the primary waits for the workers (which the daemon
+ * signals as part of the process tree) and exits once none are left; on a
+ * `shutdown` message it forwards the message to the workers and does the same.
+ *
+ * With a balancer, the primary listens on the configured port and sends each
+ * connection to a worker that announced `od:accepting` (see acceptConnections
+ * in the SDK), which counts as listening. A worker being stopped gets no new
+ * connections and is disconnected once its connections are closed.
+ */
+
+import cluster, { type Worker } from 'cluster';
+import { createServer, type Socket } from 'net';
+import type { BalancedConnectionMessage, ConnectionBalancer } from './balancer.js';
+import {
+  CLUSTER_OPTIONS_ENV,
+  type ClusterDaemonMessage,
+  type ClusterPrimaryMessage,
+  type ClusterPrimaryOptions,
+  type InstanceMetricsMessage,
+  type ShutdownMessage,
+  type WorkerCountMessage,
+} from './cluster.js';
+import { createBalancer } from './connection-balancer.js';
+
+/**
+ * Messages from a worker to the primary
+ */
+type WorkerMessage = 'ready' | InstanceMetricsMessage | BalancedConnectionMessage | null | undefined;
+
+const options = JSON.parse(process.env[CLUSTER_OPTIONS_ENV]!) as ClusterPrimaryOptions;
+delete process.env[CLUSTER_OPTIONS_ENV];
+
+cluster.setupPrimary({ exec: options.script, args: options.args, execArgv: options.execArgv, silent: true });
+
+const workers = new Map<number, Worker>();
+let stopping = false;
+
+// Open balanced connections by worker pid, and workers to disconnect once drained
+const connections = new Map<number, number>();
+const drains = new Map<number, () => void>();
+const pending: Socket[] = [];
+const balancer = options.balancer ? createBalancer(options.balancer, (pid) => connections.get(pid) ?? 0) : undefined;
+
+function send(message: ClusterPrimaryMessage): void {
+  if (process.connected) {
+    process.send!(message);
+  }
+}
+
+function dispatch(balancer: ConnectionBalancer, socket: Socket): void {
+  const pid = balancer.pick(socket.remoteAddress);
+  const worker = pid === undefined ? undefined : workers.get(pid);
+  if (pid === undefined || !worker) {
+    // Held until a worker accepts connections
+    pending.push(socket);
+    return;
+  }
+  connections.set(pid, (connections.get(pid) ?? 0) + 1);
+  worker.send({ type: 'od:connection' } satisfies BalancedConnectionMessage, socket, (err) => {
+    if (err) {
+      closed(pid);
+      socket.destroy();
+    }
+  });
+}
+
+function closed(pid: number): void {
+  const count = (connections.get(pid) ?? 1) - 1;
+  connections.set(pid, count);
+  if (count === 0) {
+    drains.get(pid)?.();
+  }
+}
+
+function drain(balancer: ConnectionBalancer, pid: number, done: () => void): void {
+  balancer.remove(pid);
+  if (!connections.get(pid)) {
+    done();
+  } else {
+    drains.set(pid, done);
+  }
+}
+
+const server = balancer
+  ? createServer({ pauseOnConnect: true }, (socket) => dispatch(balancer, socket)).on('error', (err) => {
+      console.error('Load balancer failed: ' + err.message);
+      process.exit(1);
+    })
+  : undefined;
+
+function exitWhenIdle(): void {
+  if (stopping && workers.size === 0) {
+    process.exit(0);
+  }
+}
+
+function fork(id: number): void {
+  if (stopping) {
+    return;
+  }
+  const worker = cluster.fork({ OD_WORKER_ID: String(id), OD_WORKER_COUNT: String(options.instances) });
+  const pid = worker.process.pid!;
+  workers.set(pid, worker);
+  send({ type: 'fork', id, pid });
+
+  for (const source of ['stdout', 'stderr'] as const) {
+    const stream = worker.process[source];
+    // Decoded by the stream so characters split across chunks stay whole
+    stream?.setEncoding('utf8');
+    stream?.on('data', (data: string) => {
+      send({ type: 'output', pid, source, data });
+    });
+  }
+
+  worker.on('message', (message: WorkerMessage) => {
+    if (message === 'ready') {
+      send({ type: 'ready', pid });
+    } else if (message?.type === 'od:metrics') {
+      send({ type: 'metrics', pid, metrics: message.metrics });
+    } else if (balancer && message?.type === 'od:accepting') {
+      if (!drains.has(pid)) {
+        balancer.add(pid, id);
+        send({ type: 'listening', pid });
+        pending.splice(0).forEach((socket) => !socket.destroyed && dispatch(balancer, socket));
+      }
+    } else if (balancer && message?.type === 'od:connection-closed') {
+      closed(pid);
+    }
+  });
+  worker.on('listening', () => send({ type: 'listening', pid }));
+
+  worker.process.once('exit', (code: number | null, signal: string | null) => {
+    workers.delete(pid);
+    if (balancer) {
+      balancer.remove(pid);
+      connections.delete(pid);
+      drains.delete(pid);
+    }
+    send({ type: 'exit', pid, code, signal });
+    exitWhenIdle();
+  });
+}
+
+function stop(message: Extract<ClusterDaemonMessage, { type: 'stop' }>): void {
+  const worker = workers.get(message.pid);
+  if (!worker) {
+    return;
+  }
+  const disconnect = (): void => {
+    if (message.shutdown) {
+      // Sent before the disconnect closes the IPC channel
+      worker.send({ type: 'shutdown' } satisfies ShutdownMessage);
+    } else {
+      worker.once('disconnect', () => worker.process.kill('SIGTERM'));
+    }
+    worker.disconnect();
+  };
+  if (balancer) {
+    drain(balancer, message.pid, disconnect);
+  } else {
+    disconnect();
+  }
+}
+
+function shutdown(): void {
+  stopping = true;
+  if (server) {
+    server.close();
+    pending.splice(0).forEach((socket) => socket.destroy());
+  }
+  exitWhenIdle();
+}
+
+process.on('message', (message: ClusterDaemonMessage | null | undefined) => {
+  switch (message?.type) {
+    case 'fork':
+      fork(message.id);
+      break;
+    case 'stop':
+      stop(message);
+      break;
+    case 'shutdown':
+      for (const worker of workers.values()) {
+        if (worker.isConnected()) {
+          worker.send({ type: 'shutdown' } satisfies ShutdownMessage);
+        } else {
+          worker.process.kill('SIGTERM');
+        }
+      }
+      shutdown();
+      break;
+    case 'scale':
+      options.instances = message.instances;
+      for (const worker of workers.values()) {
+        if (worker.isConnected()) {
+          worker.send({ type: 'od:worker-count', count: message.instances } satisfies WorkerCountMessage);
+        }
+      }
+      break;
+  }
+});
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.on(signal, shutdown);
+}
+
+if (server) {
+  server.listen(options.balancer!.port, options.balancer!.host);
+}
+
+for (let id = 0; id < options.instances; id++) {
+  fork(id);
+}
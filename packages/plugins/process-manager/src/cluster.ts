@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { existsSync } from 'fs';
+import { PassThrough, type Readable } from 'stream';
+import { fileURLToPath } from 'url';
+import type { ClusterBalancerOptions } from './balancer.js';
+
+/**
+ * Environment variable carrying the ClusterPrimaryOptions to the primary shim
+ */
+export const CLUSTER_OPTIONS_ENV = 'OD_CLUSTER';
+
+/**
+ * Where the primary shim (cluster-primary.ts) is compiled to: next to the
+ * bundled daemon, or in the plugin's dist directory when running from source
+ */
+const CLUSTER_PRIMARY_SCRIPTS = ['./cluster-primary.js', '../dist/cluster-primary.js'];
+
+/**
+ * Find the compiled primary shim
+ *
+ * @param base - URL the script paths are relative to
+ * @returns Its path, or undefined if it has not been built
+ */
+export function findClusterPrimaryScript(base: string = import.meta.url): string | undefined {
+  return CLUSTER_PRIMARY_SCRIPTS.map((path) => fileURLToPath(new URL(path, base))).find((path) => existsSync(path));
+}
+
+/**
+ * Options of the cluster primary shim
+ */
+export interface ClusterPrimaryOptions {
+  /** Script run by every worker */
+  script: string;
+  /** Arguments of the script */
+  args: string[];
+  /** Node.js flags of the workers */
+  execArgv: string[];
+  /** Number of workers forked at startup, with ids 0..instances-1 */
+  instances: number;
+  /** Distribute connections from a port of the primary */
+  balancer?: ClusterBalancerOptions | undefined;
+}
+
+/**
+ * Messages from the primary shim to the daemon
+ */
+export type ClusterPrimaryMessage =
+  | { type: 'fork'; id: number; pid: number }
+  | { type: 'output'; pid: number; source: 'stdout' | 'stderr'; data: string }
+  | { type: 'ready'; pid: number }
+  | { type: 'listening'; pid: number }
+  | { type: 'metrics'; pid: number; metrics: Record<string, number> }
+  | { type: 'exit'; pid: number; code: number | null; signal: string | null };
+
+/**
+ * Messages from the daemon to the primary shim
+ */
+export type ClusterDaemonMessage =
+  | { type: 'fork'; id: number }
+  | { type: 'stop'; pid: number; shutdown?: boolean }
+  | { type: 'scale'; instances: number }
+  | { type: 'shutdown' };
+
+/**
+ * Message sent to the running instances of a cluster when it is scaled.
+ * OD_WORKER_COUNT in their environment keeps the count they started with.
+ */
+export interface WorkerCountMessage {
+  type: 'od:worker-count';
+  count: number;
+}
+
+/**
+ * Message asking an instance to exit, sent instead of the stop signal to
+ * processes with shutdownWithMessage
+ */
+export interface ShutdownMessage {
+  type: 'shutdown';
+}
+
+/**
+ * Message an instance sends with its metrics (see reportMetrics in the SDK)
+ */
+export interface InstanceMetricsMessage {
+  type: 'od:metrics';
+  metrics: Record<string, number>;
+}
+
+/**
+ * A worker of a cluster as seen by the daemon. The worker is a child of the
+ * primary shim; its output and exit arrive as messages from the shim.
+ * Emits `message` ('ready' or an InstanceMetricsMessage), `listening` and
+ * `exit` like a child process.
+ */
+export class ClusterWorker extends EventEmitter {
+  readonly stdout: PassThrough = new PassThrough();
+  readonly stderr: PassThrough = new PassThrough();
+  exitCode: number | null = null;
+  signalCode: NodeJS.Signals | null = null;
+  /** Whether the worker sent 'ready'; kept since reports can arrive before anyone listens */
+  ready = false;
+  /** Whether the worker listens on a server handle */
+  listening = false;
+
+  constructor(readonly pid: number) {
+    super();
+  }
+
+  /**
+   * Record that the worker sent 'ready' and emit it as `message`
+   */
+  markReady(): void {
+    this.ready = true;
+    this.emit('message', 'ready');
+  }
+
+  /**
+   * Record that the worker listens and emit `listening`
+   */
+  markListening(): void {
+    this.listening = true;
+    this.emit('listening');
+  }
+
+  /**
+   * Append output received from the shim
+   */
+  write(source: 'stdout' | 'stderr', data: string): void {
+    if (this.exitCode === null && this.signalCode === null) {
+      this[source].write(data);
+    }
+  }
+
+  /**
+   * Record the exit of the worker and emit `exit`
+   */
+  exited(code: number | null, signal: string | null): void {
+    if (this.exitCode !== null || this.signalCode !== null) {
+      return;
+    }
+    this.exitCode = code;
+    this.signalCode = signal as NodeJS.Signals | null;
+    this.stdout.end();
+    this.stderr.end();
+    this.emit('exit', code, signal);
+  }
+}
+
+/**
+ * What the process manager needs from an instance: a child process in fork
+ * mode, or a ClusterWorker
+ */
+export interface InstanceProcess extends EventEmitter {
+  readonly pid?: number | undefined;
+  readonly exitCode: number | null;
+  readonly signalCode: NodeJS.Signals | null;
+  readonly stdout: Readable | null;
+  readonly stderr: Readable | null;
+}
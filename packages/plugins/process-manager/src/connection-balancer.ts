@@ -0,0 +1,137 @@
+import type { ClusterBalancerOptions, ConnectionBalancer } from './balancer.js';
+
+/**
+ * Client addresses remembered for sticky sessions
+ */
+const MAX_STICKY = 10000;
+
+/**
+ * A worker accepting balanced connections
+ */
+interface BalancedWorker {
+  key: number;
+  id: number;
+  weight: number;
+  /** Current weight of the smooth weighted round-robin */
+  current: number;
+}
+
+/**
+ * FNV-1a hash of a client address
+ */
+function hashAddress(address: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < address.length; i++) {
+    h = Math.imul(h ^ address.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Create the worker selection of the primary shim. `connections(key)`
+ * returns the open connections of a worker for least-connections.
+ *
+ * - round-robin takes the workers in turn
+ * - least-connections takes the worker with the fewest open connections,
+ *   in turn among equals
+ * - ip-hash hashes the client address over the workers ordered by instance id
+ * - random picks any worker
+ * - weighted is a smooth weighted round-robin over the instance weights
+ *
+ * With sticky, the first pick for a client address is kept for its later
+ * connections until the worker is removed. The most recently used addresses
+ * are remembered, up to 10000.
+ */
+export function createBalancer(
+  options: ClusterBalancerOptions,
+  connections: (key: number) => number
+): ConnectionBalancer {
+  const workers: BalancedWorker[] = [];
+  const sticky = new Map<string, number>();
+  let turn = 0;
+
+  // Only called with at least one worker
+  const choose = (address: string | undefined): BalancedWorker => {
+    switch (options.strategy) {
+      case 'least-connections': {
+        let best: BalancedWorker | undefined;
+        for (let i = 0; i < workers.length; i++) {
+          const worker = workers[(turn + i) % workers.length]!;
+          if (best === undefined || connections(worker.key) < connections(best.key)) {
+            best = worker;
+          }
+        }
+        turn = (workers.indexOf(best!) + 1) % workers.length;
+        return best!;
+      }
+      case 'ip-hash':
+        return workers[hashAddress(address ?? '') % workers.length]!;
+      case 'random':
+        return workers[Math.floor(Math.random() * workers.length)]!;
+      case 'weighted': {
+        let total = 0;
+        let best: BalancedWorker | undefined;
+        for (const worker of workers) {
+          worker.current += worker.weight;
+          total += worker.weight;
+          if (best === undefined || worker.current > best.current) {
+            best = worker;
+          }
+        }
+        best!.current -= total;
+        return best!;
+      }
+      default: {
+        const worker = workers[turn % workers.length]!;
+        turn = (turn + 1) % workers.length;
+        return worker;
+      }
+    }
+  };
+
+  return {
+    add(key, id) {
+      if (workers.some((worker) => worker.key === key)) {
+        return;
+      }
+      workers.push({ key, id, weight: options.weights[id] ?? 1, current: 0 });
+      workers.sort((a, b) => a.id - b.id);
+    },
+
+    remove(key) {
+      const index = workers.findIndex((worker) => worker.key === key);
+      if (index !== -1) {
+        workers.splice(index, 1);
+      }
+      for (const [address, stuck] of sticky) {
+        if (stuck === key) {
+          sticky.delete(address);
+        }
+      }
+    },
+
+    pick(address) {
+      if (workers.length === 0) {
+        return undefined;
+      }
+      if (options.sticky && address) {
+        const stuck = sticky.get(address);
+        if (stuck !== undefined) {
+          // Most recently used last
+          sticky.delete(address);
+          sticky.set(address, stuck);
+          return stuck;
+        }
+      }
+
+      const key = choose(address).key;
+      if (options.sticky && address) {
+        sticky.set(address, key);
+        if (sticky.size > MAX_STICKY) {
+          sticky.delete(sticky.keys().next().value!);
+        }
+      }
+      return key;
+    },
+  };
+}
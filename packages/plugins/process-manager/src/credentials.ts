@@ -0,0 +1,195 @@
+import type { ProcessConfig } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError } from '../../../core/src/index.js';
+import { readFileSync } from 'fs';
+
+/**
+ * A user from /etc/passwd
+ */
+export interface PasswdEntry {
+  name: string;
+  uid: number;
+  gid: number;
+  home: string;
+  shell: string;
+}
+
+/**
+ * A group from /etc/group
+ */
+export interface GroupEntry {
+  name: string;
+  gid: number;
+}
+
+/**
+ * Credentials and scheduling settings applied to each spawned instance
+ */
+export interface SpawnIdentity {
+  uid?: number | undefined;
+  gid?: number | undefined;
+  /** The passwd entry of uid, used for HOME/USER/LOGNAME */
+  user?: PasswdEntry | undefined;
+  nice?: number | undefined;
+  umask?: number | undefined;
+}
+
+/**
+ * Where to look up users and groups, and who the daemon runs as (for tests)
+ */
+export interface IdentityLookup {
+  passwdFile?: string;
+  groupFile?: string;
+  currentUid?: number;
+  currentGid?: number;
+}
+
+/**
+ * Parse /etc/passwd content
+ */
+export function parsePasswd(content: string): PasswdEntry[] {
+  const entries: PasswdEntry[] = [];
+  for (const line of content.split('\n')) {
+    const fields = line.split(':');
+    if (line.startsWith('#') || fields.length < 7) {
+      continue;
+    }
+    entries.push({
+      name: fields[0]!,
+      uid: Number(fields[2]),
+      gid: Number(fields[3]),
+      home: fields[5]!,
+      shell: fields[6]!,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Parse /etc/group content
+ */
+export function parseGroups(content: string): GroupEntry[] {
+  const entries: GroupEntry[] = [];
+  for (const line of content.split('\n')) {
+    const fields = line.split(':');
+    if (line.startsWith('#') || fields.length < 3) {
+      continue;
+    }
+    entries.push({ name: fields[0]!, gid: Number(fields[2]) });
+  }
+  return entries;
+}
+
+/**
+ * Parse a umask given as an octal string (`'022'`) or a number (`0o022`)
+ *
+ * @returns The mask, or undefined if it is not a valid umask
+ */
+export function parseUmask(value: string | number): number | undefined {
+  const digits = typeof value === 'string' ? value.replace(/^0o/i, '') : '';
+  const mask = typeof value === 'number' ? value : /^[0-7]{1,4}$/.test(digits) ? parseInt(digits, 8) : NaN;
+  return Number.isInteger(mask) && mask >= 0 && mask <= 0o777 ? mask : undefined;
+}
+
+/**
+ * Wrap a command in a shell that sets the umask and then execs the command,
+ * so the mask applies to the instance only and its pid stays the same
+ *
+ * @example
+ * ```typescript
+ * withUmask('node', ['app.js'], 0o027);
+ * // { command: '/bin/sh', args: ['-c', 'umask 0027 && exec "$0" "$@"', 'node', 'app.js'] }
+ * ```
+ */
+export function withUmask(command: string, args: string[], umask: number): { command: string; args: string[] } {
+  const mask = umask.toString(8).padStart(4, '0');
+  return { command: '/bin/sh', args: ['-c', `umask ${mask} && exec "$0" "$@"`, command, ...args] };
+}
+
+function readEntries<T>(path: string, parse: (content: string) => T[]): T[] {
+  try {
+    return parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve and validate the uid, gid, nice and umask settings of a process
+ *
+ * - `uid` and `gid` accept ids or names from /etc/passwd and /etc/group.
+ *   Without `gid`, a user's primary group is used.
+ * - Switching user or group requires the daemon to run as root.
+ * - A negative `nice` (higher priority) requires root.
+ *
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for unknown users/groups and out-of-range values
+ * @throws ProcessError (PERMISSION_DENIED) if the daemon cannot apply a setting
+ */
+export function resolveSpawnIdentity(config: ProcessConfig, lookup: IdentityLookup = {}): SpawnIdentity {
+  const identity: SpawnIdentity = {};
+  const name = config.name;
+  const invalid = (message: string): ProcessError => new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, name, message);
+  const denied = (message: string): ProcessError => new ProcessError(ErrorCode.PERMISSION_DENIED, name, message);
+
+  if (config.uid !== undefined || config.gid !== undefined) {
+    if (process.platform === 'win32') {
+      throw denied('uid and gid are not supported on Windows');
+    }
+
+    const users = readEntries(lookup.passwdFile ?? '/etc/passwd', parsePasswd);
+
+    if (config.uid !== undefined) {
+      const user = users.find((entry) => (typeof config.uid === 'number' ? entry.uid === config.uid : entry.name === config.uid));
+      if (!user && typeof config.uid !== 'number') {
+        throw invalid(`Unknown user: ${config.uid}`);
+      }
+      identity.uid = user?.uid ?? (config.uid as number);
+      identity.user = user;
+    }
+
+    if (config.gid !== undefined) {
+      if (typeof config.gid === 'number') {
+        identity.gid = config.gid;
+      } else {
+        const groups = readEntries(lookup.groupFile ?? '/etc/group', parseGroups);
+        const group = groups.find((entry) => entry.name === config.gid);
+        if (!group) {
+          throw invalid(`Unknown group: ${config.gid}`);
+        }
+        identity.gid = group.gid;
+      }
+    } else if (identity.user) {
+      identity.gid = identity.user.gid;
+    }
+
+    const currentUid = lookup.currentUid ?? process.getuid?.();
+    const currentGid = lookup.currentGid ?? process.getgid?.();
+    if (currentUid !== 0) {
+      if (identity.uid !== undefined && identity.uid !== currentUid) {
+        throw denied(`Running as uid ${identity.uid} requires the daemon to run as root`);
+      }
+      if (identity.gid !== undefined && identity.gid !== currentGid) {
+        throw denied(`Running as gid ${identity.gid} requires the daemon to run as root`);
+      }
+    }
+  }
+
+  if (config.nice !== undefined) {
+    if (!Number.isInteger(config.nice) || config.nice < -20 || config.nice > 19) {
+      throw invalid(`Invalid nice value: ${config.nice} (expected -20 to 19)`);
+    }
+    if (config.nice < 0 && (lookup.currentUid ?? process.getuid?.()) !== 0) {
+      throw denied(`Negative nice value ${config.nice} requires the daemon to run as root`);
+    }
+    identity.nice = config.nice;
+  }
+
+  if (config.umask !== undefined) {
+    const umask = parseUmask(config.umask);
+    if (umask === undefined) {
+      throw invalid(`Invalid umask: ${config.umask}`);
+    }
+    identity.umask = umask;
+  }
+
+  return identity;
+}
@@ -0,0 +1,134 @@
+import type { DependencyCondition, ProcessConfig } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError } from '../../../core/src/index.js';
+
+const CONDITIONS: readonly DependencyCondition[] = ['online', 'healthy', 'completed'];
+
+/**
+ * Check if a process is restarted after exiting with code 0, and so never completes
+ */
+function restartsOnSuccess(config: ProcessConfig): boolean {
+  const strategy = config.autoRestart;
+  return strategy !== false && strategy !== 'never' && strategy !== 'on-failure';
+}
+
+/**
+ * A dependency with its condition resolved
+ */
+export interface ResolvedDependency {
+  name: string;
+  condition: DependencyCondition;
+}
+
+/**
+ * Get the names of the processes a process depends on
+ */
+export function dependencyNames(config: ProcessConfig): string[] {
+  return (config.dependencies ?? []).map((dependency) =>
+    typeof dependency === 'string' ? dependency : dependency.name
+  );
+}
+
+/**
+ * Resolve the dependencies of a process against the configs of the
+ * processes it depends on
+ *
+ * @param lookup - Config of a process by name, if it is known
+ * @throws ProcessError (PROCESS_DEPENDENCY_MISSING) for unknown dependencies,
+ * (PROCESS_INVALID_CONFIG) for invalid conditions, including conditions the
+ * dependency cannot meet
+ */
+export function resolveDependencies(
+  config: ProcessConfig,
+  lookup: (name: string) => ProcessConfig | undefined
+): ResolvedDependency[] {
+  return (config.dependencies ?? []).map((dependency) => {
+    const { name, condition } = typeof dependency === 'string' ? { name: dependency, condition: undefined } : dependency;
+
+    const target = lookup(name);
+    if (!target) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_DEPENDENCY_MISSING,
+        config.name,
+        `Process "${config.name}" depends on "${name}" which is not configured`
+      );
+    }
+    if (condition !== undefined && !CONDITIONS.includes(condition)) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        config.name,
+        `Invalid condition for dependency "${name}": ${condition} (expected one of ${CONDITIONS.join(', ')})`
+      );
+    }
+    if (condition === 'healthy' && !target.healthCheck) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        config.name,
+        `Dependency "${name}" has no healthCheck to become healthy`
+      );
+    }
+    // Cron processes only run on their schedule and read as stopped until then
+    if (condition === 'completed' && target.cron !== undefined) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        config.name,
+        `Dependency "${name}" is a cron process and cannot be a completed dependency`
+      );
+    }
+    if (condition === 'completed' && restartsOnSuccess(target)) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        config.name,
+        `Dependency "${name}" restarts when it exits with code 0, so it never completes ` +
+          `(set its autoRestart to false, 'never' or 'on-failure')`
+      );
+    }
+
+    return { name, condition: condition ?? (target.healthCheck ? 'healthy' : 'online') };
+  });
+}
+
+/**
+ * Order processes so that each comes after the processes it depends on.
+ * Dependencies outside the given configs are ignored.
+ *
+ * @returns Process names, dependencies first
+ * @throws ProcessError (PROCESS_DEPENDENCY_CIRCULAR) naming the cycle, e.g. `api -> worker -> api`
+ */
+export function resolveStartOrder(configs: ProcessConfig[]): string[] {
+  const byName = new Map(configs.map((config) => [config.name, config]));
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): void => {
+    if (visited.has(name)) {
+      return;
+    }
+
+    const index = path.indexOf(name);
+    if (index !== -1) {
+      const cycle = [...path.slice(index), name];
+      throw new ProcessError(
+        ErrorCode.PROCESS_DEPENDENCY_CIRCULAR,
+        name,
+        `Circular dependency: ${cycle.join(' -> ')}`
+      );
+    }
+
+    path.push(name);
+    for (const dependency of dependencyNames(byName.get(name)!)) {
+      if (byName.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    path.pop();
+
+    visited.add(name);
+    order.push(name);
+  };
+
+  for (const name of byName.keys()) {
+    visit(name);
+  }
+  return order;
+}
@@ -1,20 +1,231 @@
-import type { Plugin, PluginContext } from '../../../core/src/index.js';
-import { Logger } from '../../../core/src/index.js';
-import { DaemonError, ErrorCode, ProcessError } from '../../../core/src/index.js';
+import type { Plugin, PluginContext, ProcessHealth, ProcessSchedule, IpcSocket } from '../../../core/src/index.js';
+import { Logger, FrameType, encodeFrame, serialize } from '../../../core/src/index.js';
+import { DaemonError, ErrorCode, ProcessError, validateLogRotation } from '../../../core/src/index.js';
 import type {
   ProcessConfig,
   ProcessInfo,
   ProcessStatus,
   ProcessMode,
+  ProcessLogEntry,
+  ProcessLogSource,
+  ProcessCrashEvent,
+  ProcessCrashLoopEvent,
+  ProcessMetrics,
+  ReloadProgressEvent,
+  ProcessScaledEvent,
+  ProcessMetricsReport,
+  InstanceCount,
+  InstanceStopReport,
+  ProcessStopReport,
 } from '../../../core/src/index.js';
 import { spawn, type ChildProcess } from 'child_process';
+import { setPriority } from 'os';
 import { existsSync } from 'fs';
 import { resolve, dirname } from 'path';
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import { OutputBuffer, resolveBufferLimits } from './output-buffer.js';
+import {
+  DEFAULT_MAX_RESTARTS,
+  computeRestartDelay,
+  isStableRun,
+  recordRestart,
+  resolveCrashLoopPolicy,
+} from './restart-strategy.js';
+import { getDescendants, isProcessRunning, readProcessTable, signalProcessTree } from './process-tree.js';
+import { isNodeBinary, resolveSpawnCommand, type SpawnCommand } from './interpreter.js';
+import { resolveSpawnIdentity, withUmask, type SpawnIdentity } from './credentials.js';
+import { resolveInstanceCount, resolveScaleTarget } from './instances.js';
+import { resolveLoadBalancing } from './balancer.js';
+import { dependencyNames, resolveDependencies, resolveStartOrder, type ResolvedDependency } from './dependencies.js';
+import {
+  CLUSTER_OPTIONS_ENV,
+  ClusterWorker,
+  findClusterPrimaryScript,
+  type ClusterDaemonMessage,
+  type ClusterPrimaryMessage,
+  type ClusterPrimaryOptions,
+  type InstanceProcess,
+  type WorkerCountMessage,
+  type InstanceMetricsMessage,
+  type ShutdownMessage,
+} from './cluster.js';
+import {
+  DEFAULT_SAMPLE_INTERVAL,
+  ResourceSampler,
+  emptyUsage,
+  toProcessMetrics,
+  type ResourceUsage,
+} from './resource-sampler.js';
+
+export {
+  OutputBuffer,
+  resolveBufferLimits,
+  DEFAULT_BUFFER_LINES,
+  DEFAULT_BUFFER_BYTES,
+  type OutputBufferLimits,
+} from './output-buffer.js';
+
+export {
+  computeRestartDelay,
+  isStableRun,
+  resolveCrashLoopPolicy,
+  recordRestart,
+  DEFAULT_RESTART_DELAY,
+  DEFAULT_MAX_BACKOFF_DELAY,
+  DEFAULT_MAX_RESTARTS,
+  DEFAULT_CRASH_LOOP,
+  type RestartPolicy,
+} from './restart-strategy.js';
+
+export {
+  ResourceSampler,
+  readProcCpuTimes,
+  readProcMemory,
+  countProcFds,
+  emptyUsage,
+  toProcessMetrics,
+  DEFAULT_SAMPLE_INTERVAL,
+  CLOCK_TICKS,
+  type ProcCpuTimes,
+  type ProcMemory,
+  type ResourceUsage,
+} from './resource-sampler.js';
+
+export {
+  resolveSpawnCommand,
+  detectInterpreter,
+  readShebang,
+  isNodeInterpreter,
+  isNodeBinary,
+  resolveMaxOldSpaceSize,
+  NO_INTERPRETER,
+  INTERPRETERS_BY_EXTENSION,
+  type SpawnCommand,
+} from './interpreter.js';
+
+export { resolveInstanceCount, resolveScaleTarget } from './instances.js';
+
+export {
+  dependencyNames,
+  resolveDependencies,
+  resolveStartOrder,
+  type ResolvedDependency,
+} from './dependencies.js';
+
+export {
+  resolveLoadBalancing,
+  type ClusterBalancerOptions,
+  type ConnectionBalancer,
+  type BalancedConnectionMessage,
+} from './balancer.js';
+
+export { createBalancer } from './connection-balancer.js';
+
+export {
+  findClusterPrimaryScript,
+  ClusterWorker,
+  type ClusterPrimaryMessage,
+  type ClusterDaemonMessage,
+  type ClusterPrimaryOptions,
+  type InstanceProcess,
+  type WorkerCountMessage,
+  type InstanceMetricsMessage,
+  type ShutdownMessage,
+} from './cluster.js';
+
+export {
+  resolveSpawnIdentity,
+  parsePasswd,
+  parseGroups,
+  parseUmask,
+  withUmask,
+  type SpawnIdentity,
+  type IdentityLookup,
+  type PasswdEntry,
+  type GroupEntry,
+} from './credentials.js';
+
+export {
+  readProcessTable,
+  getDescendants,
+  isProcessRunning,
+  signalProcessTree,
+  type ProcessTable,
+} from './process-tree.js';
+
+/**
+ * Process manager plugin configuration (`plugins['process-manager']`)
+ */
+export interface ProcessManagerConfig {
+  /** Milliseconds between CPU/memory samples, 0 disables sampling */
+  sampleInterval?: number;
+}
+
+/**
+ * Milliseconds a new instance gets to become ready on reload
+ */
+export const DEFAULT_READY_TIMEOUT = 3000;
+
+/**
+ * Milliseconds a process waits for its dependencies by default
+ */
+export const DEFAULT_DEPENDENCY_TIMEOUT = 60000;
+
+/**
+ * Events after which the condition of a dependency is checked again
+ */
+const DEPENDENCY_EVENTS = ['process:started', 'process:healthy', 'process:exit', 'process:stopped', 'process:deleted'];
+
+/**
+ * Milliseconds to wait for the exit of an instance killed with SIGKILL
+ */
+const KILL_EXIT_TIMEOUT = 2000;
+
+/**
+ * Check if a child process has exited
+ */
+function hasExited(child: InstanceProcess): boolean {
+  return child.exitCode !== null || child.signalCode !== null;
+}
+
+/**
+ * Wait for the exit event of an instance
+ *
+ * @returns Whether it exited within the timeout
+ */
+function waitForExit(child: InstanceProcess, timeout: number): Promise<boolean> {
+  if (hasExited(child)) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolveExit) => {
+    const onExit = (): void => {
+      clearTimeout(timer);
+      resolveExit(true);
+    };
+    const timer = setTimeout(() => {
+      child.off('exit', onExit);
+      resolveExit(false);
+    }, timeout);
+    child.once('exit', onExit);
+  });
+}
+
+/**
+ * A running instance and the descendants it spawned
+ */
+interface InstanceTree {
+  child: InstanceProcess;
+  pid: number;
+  descendants: number[];
+  group: boolean;
+}
 
 /**
  * Managed process information
  */
-interface ManagedProcessInfo {
+export interface ManagedProcessInfo {
   id: number;
   config: ProcessConfig;
   status: ProcessStatus;
@@ -24,8 +235,35 @@ interface ManagedProcessInfo {
   restartCount: number;
   lastRestart?: Date;
   childProcess?: ChildProcess | undefined;
-  workers: ChildProcess[];
+  /** Instances in cluster mode: workers of the primary shim, or independent processes */
+  workers: InstanceProcess[];
+  /** node:cluster primary shim that forks the workers */
+  primary?: ChildProcess | undefined;
+  /** Workers of the primary shim by pid, including replacements not attached yet */
+  clusterWorkers: Map<number, ClusterWorker>;
+  /** Forks requested by a reload, waiting for the shim to report the worker */
+  pendingForks: Map<number, (worker: ClusterWorker) => void>;
   stopTimeout?: NodeJS.Timeout | undefined;
+  /** Recent output per instance, kept across restarts */
+  outputBuffers: Map<number, OutputBuffer>;
+  /** Start time (epoch ms) of each instance's current run */
+  instanceStarts: Map<number, number>;
+  /** Consecutive restarts per instance since it last stayed up for minUptime */
+  restartAttempts: Map<number, number>;
+  /** Times (epoch ms) of recent restarts within the crash-loop window */
+  restartHistory: number[];
+  /** When the crash-loop cooldown ends */
+  crashLoopUntil?: Date | undefined;
+  /** Latest CPU/memory sample summed over all instances */
+  usage?: ResourceUsage | undefined;
+  /** Credentials, nice level and umask resolved from the config */
+  identity: SpawnIdentity;
+  /** Number of instances resolved from the config when the process was (re)started */
+  instanceCount: number;
+  /** Exit code of the last run, once it exited without being restarted */
+  exitCode?: number | null | undefined;
+  /** Stop under way, shared with concurrent stops */
+  stop?: Promise<ProcessStopReport> | undefined;
 }
 
 /**
@@ -43,6 +281,11 @@ export class ProcessManagerPlugin implements Plugin {
   private context!: PluginContext;
   private logger: Logger;
   private stopping = false;
+  private sampler = new ResourceSampler();
+  private sampleTimer?: NodeJS.Timeout | undefined;
+  /** Instances replaced by a reload, whose exit is expected */
+  private retired = new WeakSet<InstanceProcess>();
+  private readonly onDaemonExit = (): void => this.signalProcessGroups('SIGTERM');
 
   constructor() {
     this.logger = new Logger('process-manager');
@@ -57,11 +300,24 @@ export class ProcessManagerPlugin implements Plugin {
 
     // Register RPC methods
     context.registerMethod('list', this.listProcesses.bind(this));
-    context.registerMethod('start', this.startProcess.bind(this));
+    context.registerMethod('start', this.startApp.bind(this));
     context.registerMethod('stop', this.stopProcess.bind(this));
     context.registerMethod('restart', this.restartProcess.bind(this));
+    context.registerMethod('reload', this.reloadProcess.bind(this));
+    context.registerMethod('scale', this.scaleProcess.bind(this));
     context.registerMethod('delete', this.deleteProcess.bind(this));
     context.registerMethod('info', this.getProcessInfo.bind(this));
+
+    // Process group leaders do not get the terminal's SIGINT or SIGHUP, so
+    // they are signalled if the daemon exits without stopping them
+    process.on('exit', this.onDaemonExit);
+
+    const config = context.pluginConfig as ProcessManagerConfig | undefined;
+    const sampleInterval = config?.sampleInterval ?? DEFAULT_SAMPLE_INTERVAL;
+    if (sampleInterval > 0) {
+      this.sampleTimer = setInterval(() => this.sampleResources(), sampleInterval);
+      this.sampleTimer.unref();
+    }
   }
 
   /**
@@ -70,16 +326,26 @@ export class ProcessManagerPlugin implements Plugin {
   async onStart(context: PluginContext): Promise<void> {
     this.logger.info('Process manager starting');
 
-    // Load processes from config
+    // Load processes from config, in dependency order
     const config = context.config;
     if (config.apps) {
-      for (const appConfig of config.apps) {
-        try {
-          await this.startProcess(appConfig);
-        } catch (err) {
-          this.logger.error(`Failed to start ${appConfig.name}`, undefined, err as Error);
-        }
+      let starts: Map<string, Promise<ProcessInfo>>;
+      try {
+        starts = this.startApps(config.apps);
+      } catch (err) {
+        this.logger.error('Failed to resolve app dependencies', undefined, err as Error);
+        return;
       }
+
+      await Promise.all(
+        Array.from(starts, async ([name, started]) => {
+          try {
+            await started;
+          } catch (err) {
+            this.logger.error(`Failed to start ${name}`, undefined, err as Error);
+          }
+        })
+      );
     }
   }
 
@@ -90,10 +356,14 @@ export class ProcessManagerPlugin implements Plugin {
     this.stopping = true;
     this.logger.info('Process manager stopping');
 
-    // Stop all processes
+    clearInterval(this.sampleTimer);
+    this.sampleTimer = undefined;
+
+    // Stop all processes, dependents first
+    const stops = new Map<string, Promise<ProcessStopReport>>();
     const promises = Array.from(this.processes.values()).map(async (proc) => {
       try {
-        await this.stopProcessInternal(proc, 'SIGTERM', 10000);
+        await this.stopWithDependents(proc, 'SIGTERM', 10000, stops, true);
       } catch (err) {
         this.logger.error(`Failed to stop ${proc.config.name}`, undefined, err as Error);
       }
@@ -101,6 +371,7 @@ export class ProcessManagerPlugin implements Plugin {
 
     await Promise.all(promises);
     this.processes.clear();
+    process.off('exit', this.onDaemonExit);
   }
 
   /**
@@ -113,18 +384,67 @@ export class ProcessManagerPlugin implements Plugin {
   /**
    * Get process info by name
    */
-  private async getProcessInfo(params: { name: string }): Promise<ProcessInfo | null> {
+  private async getProcessInfo(params: { name: string; lines?: number }): Promise<ProcessInfo | null> {
     const proc = this.processes.get(params.name);
     if (!proc) {
       return null;
     }
-    return this.toProcessInfo(proc);
+    return {
+      ...this.toProcessInfo(proc),
+      metrics: toProcessMetrics(proc.usage ?? emptyUsage()),
+      recentLogs: this.collectRecentLogs(proc, params.lines),
+    };
   }
 
   /**
    * Start a process
    */
   private async startProcess(config: ProcessConfig): Promise<ProcessInfo> {
+    const proc = this.createProcess(config);
+
+    try {
+      // Start the process
+      if (this.isClustered(proc)) {
+        await this.startCluster(proc);
+      } else {
+        await this.startFork(proc);
+      }
+
+      proc.status = 'online';
+      proc.startTime = new Date();
+
+      this.logger.info(`Process started: ${config.name}`, { pid: proc.pid });
+      this.context.events.emit('process:started', { name: config.name, pid: proc.pid });
+
+      return this.toProcessInfo(proc);
+    } catch (err) {
+      proc.status = 'errored';
+      this.logger.error(`Failed to start process ${config.name}:`, undefined, err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Register a process without starting it. Processes with cron are
+   * registered stopped and run by the scheduler plugin.
+   */
+  private async registerProcess(config: ProcessConfig): Promise<ProcessInfo> {
+    const proc = this.createProcess(config);
+    proc.status = 'stopped';
+
+    this.logger.info(`Process registered: ${config.name}`);
+    this.context.events.emit('process:registered', { name: config.name });
+
+    return this.toProcessInfo(proc);
+  }
+
+  /**
+   * Validate the config of a process and add it, replacing a stopped process
+   * of the same name
+   *
+   * @throws ProcessError if the process is running or the config is invalid
+   */
+  private createProcess(config: ProcessConfig): ManagedProcessInfo {
     // Check if already exists
     const existing = this.processes.get(config.name);
     if (existing && existing.status !== 'stopped' && existing.status !== 'errored') {
@@ -137,6 +457,10 @@ export class ProcessManagerPlugin implements Plugin {
 
     // Validate config
     this.validateConfig(config);
+    const identity = resolveSpawnIdentity(config);
+    const instanceCount = resolveInstanceCount(config.name, config.instances);
+    resolveLoadBalancing(config);
+    validateLogRotation(config);
 
     // Resolve script path
     const scriptPath = resolve(config.script);
@@ -156,181 +480,1060 @@ export class ProcessManagerPlugin implements Plugin {
       pids: [],
       restartCount: existing?.restartCount ?? 0,
       workers: [],
+      clusterWorkers: new Map(),
+      pendingForks: new Map(),
+      outputBuffers: existing?.outputBuffers ?? new Map(),
+      instanceStarts: new Map(),
+      restartAttempts: new Map(),
+      restartHistory: [],
+      identity,
+      instanceCount,
     };
 
+    const bufferLimits = resolveBufferLimits(config.logBuffer);
+    for (const buffer of proc.outputBuffers.values()) {
+      buffer.resize(bufferLimits);
+    }
+
     this.processes.set(config.name, proc);
+    return proc;
+  }
+
+  /**
+   * Start a process once its dependencies meet their conditions
+   */
+  private async startApp(config: ProcessConfig): Promise<ProcessInfo> {
+    return this.startApps([config]).get(config.name)!;
+  }
+
+  /**
+   * Start processes in dependency order: each starts once the processes it
+   * depends on meet their condition, independent processes in parallel.
+   * Dependencies may also be processes that are already registered.
+   *
+   * @returns The start of each process by name
+   * @throws ProcessError for missing or circular dependencies, before anything starts
+   */
+  private startApps(configs: ProcessConfig[]): Map<string, Promise<ProcessInfo>> {
+    const byName = new Map(configs.map((config) => [config.name, config]));
+    const lookup = (name: string): ProcessConfig | undefined => byName.get(name) ?? this.processes.get(name)?.config;
+
+    const order = resolveStartOrder(configs);
+    const dependencies = new Map(order.map((name) => [name, resolveDependencies(byName.get(name)!, lookup)]));
+
+    const starts = new Map<string, Promise<ProcessInfo>>();
+    for (const name of order) {
+      const config = byName.get(name)!;
+      const timeout = config.dependencyTimeout ?? DEFAULT_DEPENDENCY_TIMEOUT;
+
+      starts.set(
+        name,
+        (async () => {
+          await Promise.all(
+            dependencies.get(name)!.map(async (dependency) => {
+              try {
+                await starts.get(dependency.name);
+              } catch {
+                throw new ProcessError(
+                  ErrorCode.PROCESS_DEPENDENCY_FAILED,
+                  name,
+                  `Dependency "${dependency.name}" of "${name}" failed to start`
+                );
+              }
+              await this.waitForDependency(name, dependency, timeout);
+            })
+          );
+          return config.cron !== undefined ? this.registerProcess(config) : this.startProcess(config);
+        })()
+      );
+    }
+    return starts;
+  }
+
+  /**
+   * Wait until a dependency of a process meets its condition
+   *
+   * @throws ProcessError (PROCESS_DEPENDENCY_FAILED) if it cannot meet it anymore or the timeout passes
+   */
+  private waitForDependency(name: string, dependency: ResolvedDependency, timeout: number): Promise<void> {
+    return new Promise((resolveMet, rejectMet) => {
+      const failed = (reason: string): ProcessError =>
+        new ProcessError(
+          ErrorCode.PROCESS_DEPENDENCY_FAILED,
+          name,
+          `Dependency "${dependency.name}" of "${name}" ${reason}`
+        );
+
+      const check = (): void => {
+        const state = this.checkDependency(dependency);
+        if (state === false) {
+          return;
+        }
+        cleanup();
+        if (state === true) {
+          resolveMet();
+        } else {
+          rejectMet(failed(state));
+        }
+      };
+
+      const unsubscribes = DEPENDENCY_EVENTS.map((event) =>
+        this.context.events.on(event, (data) => {
+          if ((data as { name: string }).name === dependency.name) {
+            check();
+          }
+        })
+      );
+      const timer = setTimeout(() => {
+        cleanup();
+        rejectMet(failed(`did not become ${dependency.condition} within ${timeout}ms`));
+      }, timeout);
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+      };
+
+      this.logger.debug(`Waiting for ${dependency.name} to be ${dependency.condition}: ${name}`);
+      check();
+    });
+  }
+
+  /**
+   * Check the condition of a dependency
+   *
+   * @returns true once it is met, false while pending, or why it cannot be met anymore
+   */
+  private checkDependency(dependency: ResolvedDependency): boolean | string {
+    const proc = this.processes.get(dependency.name);
+    if (!proc) {
+      return false;
+    }
+
+    if (dependency.condition === 'completed' && proc.exitCode === 0) {
+      return true;
+    }
+    if (proc.status === 'stopped' || proc.status === 'errored') {
+      return proc.exitCode !== undefined ? `exited with code ${proc.exitCode}` : `is ${proc.status}`;
+    }
+    if (dependency.condition === 'online') {
+      return proc.status === 'online';
+    }
+    if (dependency.condition === 'healthy') {
+      const health = this.context
+        .getPlugin<Plugin & { getHealth(name: string): ProcessHealth | undefined }>('health-check')
+        ?.getHealth(dependency.name);
+      return proc.status === 'online' && health?.status === 'healthy';
+    }
+    return false;
+  }
 
+  /**
+   * Stop a process
+   *
+   * @returns How each instance stopped
+   */
+  private async stopProcess(params: { name: string; signal?: string; timeout?: number }): Promise<ProcessStopReport> {
+    const proc = this.processes.get(params.name);
+    if (!proc) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    return this.stopWithDependents(proc, params.signal ?? 'SIGTERM', params.timeout);
+  }
+
+  /**
+   * Restart a process
+   */
+  private async restartProcess(params: { name: string }): Promise<ProcessInfo> {
+    const proc = this.processes.get(params.name);
+    if (!proc) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    if (!proc.config.cascadeRestart) {
+      await this.stopProcessInternal(proc, 'SIGTERM', proc.config.killTimeout ?? 5000);
+      return this.startProcess(proc.config);
+    }
+
+    // Running dependents are stopped first and started again once this
+    // process meets their conditions
+    const dependents = new Map<string, ProcessConfig>();
+    const collect = (name: string): void => {
+      for (const dependent of this.getDependents(name)) {
+        if (!dependents.has(dependent.config.name)) {
+          dependents.set(dependent.config.name, dependent.config);
+          collect(dependent.config.name);
+        }
+      }
+    };
+    collect(params.name);
+
+    await this.stopWithDependents(proc, 'SIGTERM', undefined, new Map(), true);
+    const starts = this.startApps([proc.config, ...dependents.values()]);
+    for (const [name, started] of starts) {
+      if (name !== params.name) {
+        started.catch((err) => this.logger.error(`Failed to restart dependent ${name}`, undefined, err as Error));
+      }
+    }
+    return starts.get(params.name)!;
+  }
+
+  /**
+   * Reload a process without downtime: replace its instances one at a time,
+   * stopping each old instance only once its replacement is ready. If a
+   * replacement fails, it is stopped and the remaining old instances keep
+   * running. Progress is emitted as `process:reload` and pushed to the
+   * calling socket as BINARY frames holding the JSON-encoded ReloadProgressEvent.
+   * A process that is not online is restarted instead.
+   */
+  private async reloadProcess(params: { name: string }, socket?: IpcSocket): Promise<ProcessInfo> {
+    const proc = this.processes.get(params.name);
+    if (!proc) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    if (proc.status === 'reloading' || proc.status === 'scaling') {
+      throw new ProcessError(
+        ErrorCode.INVALID_ARGUMENT,
+        params.name,
+        `Process "${params.name}" cannot be reloaded while ${proc.status}`
+      );
+    }
+
+    if (proc.status !== 'online') {
+      return this.restartProcess(params);
+    }
+
+    proc.status = 'reloading';
+    this.logger.info(`Reloading process: ${proc.config.name}`);
+
+    const total = this.isClustered(proc) ? proc.instanceCount : 1;
     try {
-      // Start the process
-      if (config.mode === 'cluster' && typeof config.instances === 'number' && config.instances > 1) {
-        await this.startCluster(proc);
-      } else {
-        await this.startFork(proc);
+      for (let i = 0; i < total; i++) {
+        await this.reloadInstance(proc, i, total, socket);
       }
+    } finally {
+      if (proc.status === 'reloading') {
+        proc.status = 'online';
+      }
+    }
 
-      proc.status = 'online';
-      proc.startTime = new Date();
+    this.logger.info(`Process reloaded: ${proc.config.name}`);
+    return this.toProcessInfo(proc);
+  }
 
-      this.logger.info(`Process started: ${config.name}`, { pid: proc.pid });
-      this.context.events.emit('process:started', { name: config.name, pid: proc.pid });
+  /**
+   * Scale a cluster without restarting it. New workers get the next
+   * OD_WORKER_IDs; scaling down drains and stops the highest-index workers.
+   * Running workers are told the new count with a WorkerCountMessage and the
+   * count is kept in the process config. Changing between one instance (run
+   * in fork mode unless load balanced) and several restarts the process, and
+   * a process that is not running only has its config updated.
+   */
+  private async scaleProcess(params: {
+    name: string;
+    instances: InstanceCount | string;
+    reason?: string;
+  }): Promise<ProcessInfo> {
+    const proc = this.processes.get(params.name);
+    if (!proc) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    if (proc.config.mode !== 'cluster') {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        params.name,
+        `Process "${params.name}" runs in fork mode and cannot be scaled`
+      );
+    }
 
+    const from = proc.instanceCount;
+    const to = resolveScaleTarget(params.name, from, params.instances);
+    const wasClustered = this.isClustered(proc);
+
+    if (proc.status === 'stopped' || proc.status === 'errored') {
+      proc.config = { ...proc.config, instances: to };
+      proc.instanceCount = to;
       return this.toProcessInfo(proc);
+    }
+    if (proc.status !== 'online') {
+      throw new ProcessError(
+        ErrorCode.INVALID_ARGUMENT,
+        params.name,
+        `Process "${params.name}" cannot be scaled while ${proc.status}`
+      );
+    }
+
+    proc.config = { ...proc.config, instances: to };
+    if (to === from) {
+      return this.toProcessInfo(proc);
+    }
+
+    this.logger.info(`Scaling process: ${params.name}`, { from, to, reason: params.reason });
+
+    if (wasClustered !== this.isClustered(proc, to)) {
+      await this.restartProcess({ name: params.name });
+    } else {
+      proc.status = 'scaling';
+      try {
+        await this.scaleCluster(proc, from, to);
+      } finally {
+        if (proc.status === 'scaling') {
+          proc.status = 'online';
+        }
+      }
+    }
+
+    const event: ProcessScaledEvent = { name: params.name, from, to, reason: params.reason };
+    this.context.events.emit('process:scaled', event);
+    return this.toProcessInfo(proc);
+  }
+
+  /**
+   * Start or stop the workers of a running cluster to reach a new count
+   */
+  private async scaleCluster(proc: ManagedProcessInfo, from: number, to: number): Promise<void> {
+    proc.instanceCount = to;
+
+    // The shim hands the new count to future and running workers
+    if (proc.primary && !hasExited(proc.primary)) {
+      proc.primary.send({ type: 'scale', instances: to } satisfies ClusterDaemonMessage);
+    } else {
+      for (const worker of this.getRunningChildren(proc)) {
+        const child = worker as ChildProcess;
+        if (child.connected) {
+          child.send({ type: 'od:worker-count', count: to } satisfies WorkerCountMessage);
+        }
+      }
+    }
+
+    for (let i = from; i < to; i++) {
+      this.attachWorker(proc, i, await this.spawnWorker(proc, i));
+    }
+
+    if (to < from) {
+      const removed = proc.workers.slice(to);
+      proc.workers.length = to;
+      for (let i = to; i < from; i++) {
+        this.clearWorkerTimeout(proc, i);
+        proc.instanceStarts.delete(i);
+        proc.restartAttempts.delete(i);
+      }
+      this.updatePids(proc);
+
+      await Promise.all(removed.filter((worker) => worker !== undefined).map((worker) => this.stopInstance(proc, worker)));
+    }
+  }
+
+  /**
+   * Replace one instance of a process during a reload
+   */
+  private async reloadInstance(
+    proc: ManagedProcessInfo,
+    index: number,
+    total: number,
+    socket: IpcSocket | undefined
+  ): Promise<void> {
+    const clustered = this.isClustered(proc);
+    const report = (event: Omit<ReloadProgressEvent, 'name' | 'instanceId' | 'total'>): void => {
+      this.reportReload({ name: proc.config.name, instanceId: index, total, ...event }, socket);
+    };
+    const current = (): InstanceProcess | undefined => (clustered ? proc.workers[index] : proc.childProcess);
+
+    report({ step: 'starting', oldPid: current()?.pid });
+
+    let replacement: InstanceProcess;
+    try {
+      replacement = clustered ? await this.spawnWorker(proc, index) : this.spawnFork(proc);
     } catch (err) {
-      proc.status = 'errored';
-      this.logger.error(`Failed to start process ${config.name}:`, undefined, err as Error);
+      report({ step: 'failed', oldPid: current()?.pid, message: (err as Error).message });
       throw err;
     }
+
+    try {
+      await this.waitForInstanceReady(proc, replacement);
+      if (proc.status !== 'reloading') {
+        throw new Error(`reload interrupted (status: ${proc.status})`);
+      }
+    } catch (err) {
+      await this.stopInstance(proc, replacement);
+      const message = (err as Error).message;
+      report({ step: 'failed', oldPid: current()?.pid, newPid: replacement.pid, message });
+      throw new ProcessError(
+        ErrorCode.PROCESS_START_FAILED,
+        proc.config.name,
+        `Reload of ${proc.config.name}[${index}] rolled back: ${message}`,
+        { instanceId: index, pid: replacement.pid }
+      );
+    }
+
+    // The instance being replaced is whichever runs at this point, e.g. one
+    // restarted after a crash while the replacement was starting
+    const old = current();
+    this.clearWorkerTimeout(proc, index);
+    if (old) {
+      this.retired.add(old);
+    }
+    if (clustered) {
+      this.attachWorker(proc, index, replacement);
+    } else {
+      this.attachFork(proc, replacement as ChildProcess);
+    }
+
+    if (old && !hasExited(old)) {
+      await this.stopInstance(proc, old);
+    }
+
+    report({ step: 'replaced', oldPid: old?.pid, newPid: replacement.pid });
+  }
+
+  /**
+   * Wait until a new instance is ready: with waitReady, until it sends
+   * 'ready'; otherwise until a cluster worker listens or readyTimeout passes.
+   * A configured health check must then pass against the new instance.
+   */
+  private async waitForInstanceReady(proc: ManagedProcessInfo, instance: InstanceProcess): Promise<void> {
+    const waitReady = proc.config.waitReady ?? false;
+    const timeout = proc.config.readyTimeout ?? DEFAULT_READY_TIMEOUT;
+
+    await new Promise<void>((resolveReady, rejectReady) => {
+      const finish = (err?: Error): void => {
+        clearTimeout(timer);
+        instance.off('message', onMessage);
+        instance.off('listening', onListening);
+        instance.off('exit', onExit);
+        if (err) {
+          rejectReady(err);
+        } else {
+          resolveReady();
+        }
+      };
+      const onMessage = (message: unknown): void => {
+        if (message === 'ready') {
+          finish();
+        }
+      };
+      const onListening = (): void => {
+        if (!waitReady) {
+          finish();
+        }
+      };
+      const onExit = (code: number | null, signal: string | null): void => {
+        finish(new Error(`new instance exited before it was ready (code ${code}, signal ${signal})`));
+      };
+      const timer = setTimeout(() => {
+        finish(waitReady ? new Error(`new instance did not send 'ready' within ${timeout}ms`) : undefined);
+      }, timeout);
+
+      if (hasExited(instance)) {
+        onExit(instance.exitCode, instance.signalCode);
+        return;
+      }
+      // Shim workers may have reported before the reload started waiting
+      if (instance instanceof ClusterWorker && (instance.ready || (!waitReady && instance.listening))) {
+        finish();
+        return;
+      }
+      instance.on('message', onMessage);
+      instance.on('listening', onListening);
+      instance.once('exit', onExit);
+    });
+
+    const healthCheck = this.context.getPlugin<
+      Plugin & { probe(name: string, pids: number[]): Promise<{ healthy: boolean; message?: string | undefined } | undefined> }
+    >('health-check');
+    const result = await healthCheck?.probe(proc.config.name, [instance.pid!]);
+    if (result && !result.healthy) {
+      throw new Error(`new instance failed its health check: ${result.message ?? 'unhealthy'}`);
+    }
+  }
+
+  /**
+   * Gracefully stop a single instance and its descendants
+   */
+  private async stopInstance(proc: ManagedProcessInfo, instance: InstanceProcess): Promise<void> {
+    this.retired.add(instance);
+    if (hasExited(instance)) {
+      return;
+    }
+
+    // Workers of the primary shim are not group leaders
+    const tree: InstanceTree = {
+      child: instance,
+      pid: instance.pid!,
+      descendants: getDescendants(instance.pid!, readProcessTable()),
+      group: !(instance instanceof ClusterWorker) && this.isGroupLeader(proc.config),
+    };
+
+    if (instance instanceof ClusterWorker && proc.primary && !hasExited(proc.primary)) {
+      // The shim stops routing connections to the worker before stopping it
+      proc.primary.send({
+        type: 'stop',
+        pid: tree.pid,
+        shutdown: proc.config.shutdownWithMessage ?? false,
+      } satisfies ClusterDaemonMessage);
+    } else {
+      this.requestStop(proc, tree, 'SIGTERM');
+    }
+    await this.waitForTrees(proc, [tree], proc.config.killTimeout ?? 5000);
+  }
+
+  /**
+   * Emit the progress of a reload and push it to the client that requested it
+   */
+  private reportReload(event: ReloadProgressEvent, socket: IpcSocket | undefined): void {
+    this.context.events.emit('process:reload', event);
+
+    if (!socket) {
+      return;
+    }
+    try {
+      socket.write(encodeFrame(FrameType.BINARY, serialize(event)));
+    } catch (err) {
+      this.logger.warn(`Failed to push reload progress to socket ${socket.id}`, {
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Delete a process
+   */
+  private async deleteProcess(params: { name: string }): Promise<void> {
+    const proc = this.processes.get(params.name);
+    if (!proc) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    if (proc.status === 'online' || proc.status === 'starting' || proc.status === 'crashloop') {
+      await this.stopProcessInternal(proc, 'SIGTERM', proc.config.killTimeout ?? 5000);
+    }
+
+    this.processes.delete(params.name);
+    this.logger.info(`Process deleted: ${params.name}`);
+    this.context.events.emit('process:deleted', { name: params.name });
+  }
+
+  /**
+   * Start process in fork mode
+   */
+  private async startFork(proc: ManagedProcessInfo): Promise<void> {
+    const child = this.spawnFork(proc);
+    proc.startTime = new Date();
+    this.attachFork(proc, child);
+  }
+
+  /**
+   * Spawn the instance of a process in fork mode and capture its output
+   */
+  private spawnFork(proc: ManagedProcessInfo): ChildProcess {
+    const config = proc.config;
+    const scriptPath = resolve(config.script);
+    const cwd = config.cwd ? resolve(config.cwd) : dirname(scriptPath);
+
+    const env = this.buildEnv(config);
+    const child = this.spawnInstance(proc, resolveSpawnCommand(config, scriptPath), cwd, env);
+    this.captureOutput(proc, child, 0);
+
+    child.on('error', (err) => {
+      this.logger.error(`Process error: ${config.name}`, undefined, err);
+      if (!this.retired.has(child)) {
+        proc.status = 'errored';
+        this.context.events.emit('process:error', { name: config.name, error: err.message });
+      }
+    });
+
+    return child;
+  }
+
+  /**
+   * Make a spawned child the instance of a process in fork mode
+   */
+  private attachFork(proc: ManagedProcessInfo, child: ChildProcess): void {
+    proc.childProcess = child;
+    proc.instanceStarts.set(0, Date.now());
+    this.updatePids(proc);
+
+    child.on('exit', (code, signal) => {
+      if (!this.retired.has(child)) {
+        this.handleProcessExit(proc, code, signal);
+      }
+    });
+    child.on('message', (message) => this.handleInstanceMessage(proc, 0, child, message));
+  }
+
+  /**
+   * Start process in cluster mode. Node.js scripts run as workers of a
+   * node:cluster primary shim so they can share listening ports; scripts of
+   * other interpreters run as independent processes.
+   */
+  private async startCluster(proc: ManagedProcessInfo): Promise<void> {
+    proc.pids = [];
+
+    const command = resolveSpawnCommand(proc.config, resolve(proc.config.script));
+    if (isNodeBinary(command.command)) {
+      await this.startClusterPrimary(proc, command);
+    } else if (proc.config.loadBalancing) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_INVALID_CONFIG,
+        proc.config.name,
+        'loadBalancing requires a Node.js script'
+      );
+    } else {
+      for (let i = 0; i < proc.instanceCount; i++) {
+        await this.startWorker(proc, i);
+      }
+    }
+
+    proc.pid = proc.pids[0];
+  }
+
+  /**
+   * Spawn the node:cluster primary shim and wait until it has forked every worker
+   */
+  private async startClusterPrimary(proc: ManagedProcessInfo, command: SpawnCommand): Promise<void> {
+    const config = proc.config;
+    const scriptPath = resolve(config.script);
+    const cwd = config.cwd ? resolve(config.cwd) : dirname(scriptPath);
+
+    const primaryScript = findClusterPrimaryScript();
+    if (!primaryScript) {
+      throw new ProcessError(
+        ErrorCode.PROCESS_START_FAILED,
+        config.name,
+        'The cluster primary shim is not built (run the build first)'
+      );
+    }
+
+    const options: ClusterPrimaryOptions = {
+      script: scriptPath,
+      args: config.args ?? [],
+      execArgv: command.interpreterArgs,
+      instances: proc.instanceCount,
+      balancer: resolveLoadBalancing(config),
+    };
+    const env = { ...this.buildEnv(config), [CLUSTER_OPTIONS_ENV]: JSON.stringify(options) };
+    const primary = this.spawnInstance(
+      proc,
+      { command: command.command, args: [primaryScript], interpreterArgs: [], ipc: true },
+      cwd,
+      env
+    );
+
+    proc.primary = primary;
+    proc.workers = [];
+    proc.clusterWorkers.clear();
+    proc.pendingForks.clear();
+    this.captureOutput(proc, primary, 0);
+
+    await new Promise<void>((resolveStarted, rejectStarted) => {
+      const onMessage = (message: ClusterPrimaryMessage): void => {
+        this.handlePrimaryMessage(proc, primary, message);
+        if (this.getRunningChildren(proc).length >= proc.instanceCount) {
+          cleanup();
+          resolveStarted();
+        }
+      };
+      const onExit = (code: number | null, signal: string | null): void => {
+        cleanup();
+        rejectStarted(
+          new ProcessError(
+            ErrorCode.PROCESS_START_FAILED,
+            config.name,
+            `Cluster primary exited before starting its workers (code ${code}, signal ${signal})`
+          )
+        );
+      };
+      const cleanup = (): void => {
+        primary.off('message', onMessage);
+        primary.off('exit', onExit);
+        primary.off('error', rejectStarted);
+      };
+
+      primary.on('message', onMessage);
+      primary.once('exit', onExit);
+      primary.once('error', rejectStarted);
+    });
+
+    primary.on('message', (message: ClusterPrimaryMessage) => {
+      this.handlePrimaryMessage(proc, primary, message);
+    });
+
+    primary.on('exit', (code, signal) => {
+      this.handlePrimaryExit(proc, primary, code, signal);
+    });
+
+    primary.on('error', (err) => {
+      this.logger.error(`Cluster primary error: ${config.name}`, undefined, err);
+    });
+  }
+
+  /**
+   * Track the workers of a cluster from the messages of its primary shim
+   */
+  private handlePrimaryMessage(proc: ManagedProcessInfo, primary: ChildProcess, message: ClusterPrimaryMessage): void {
+    if (proc.primary !== primary) {
+      return;
+    }
+
+    if (message.type === 'fork') {
+      const forked = new ClusterWorker(message.pid);
+      proc.clusterWorkers.set(message.pid, forked);
+      this.captureOutput(proc, forked, message.id);
+
+      // A fork requested by a reload is attached once it is ready
+      const pending = proc.pendingForks.get(message.id);
+      if (pending) {
+        proc.pendingForks.delete(message.id);
+        pending(forked);
+      } else {
+        this.attachWorker(proc, message.id, forked);
+      }
+      return;
+    }
+
+    const worker = proc.clusterWorkers.get(message.pid);
+    if (!worker) {
+      return;
+    }
+
+    if (message.type === 'output') {
+      worker.write(message.source, message.data);
+    } else if (message.type === 'ready') {
+      worker.markReady();
+    } else if (message.type === 'listening') {
+      worker.markListening();
+    } else if (message.type === 'metrics') {
+      worker.emit('message', { type: 'od:metrics', metrics: message.metrics } satisfies InstanceMetricsMessage);
+    } else {
+      proc.clusterWorkers.delete(message.pid);
+      worker.exited(message.code, message.signal);
+      this.updatePids(proc);
+    }
+  }
+
+  /**
+   * Handle the exit of a cluster primary: its workers go down with it and
+   * the whole cluster restarts like a process in fork mode
+   */
+  private handlePrimaryExit(
+    proc: ManagedProcessInfo,
+    primary: ChildProcess,
+    code: number | null,
+    signal: string | null
+  ): void {
+    if (proc.primary !== primary) {
+      return;
+    }
+
+    for (const worker of proc.clusterWorkers.values()) {
+      worker.exited(null, signal ?? 'SIGTERM');
+    }
+    proc.clusterWorkers.clear();
+
+    this.handleProcessExit(proc, code, signal);
+  }
+
+  /**
+   * Start a single worker. With a primary shim, the shim forks it.
+   */
+  private async startWorker(proc: ManagedProcessInfo, index: number): Promise<void> {
+    if (proc.primary) {
+      proc.primary.send({ type: 'fork', id: index } satisfies ClusterDaemonMessage);
+      return;
+    }
+
+    this.attachWorker(proc, index, this.spawnIndependentWorker(proc, index));
+  }
+
+  /**
+   * Start a worker without attaching it, e.g. the replacement of a worker on
+   * reload. With a primary shim, resolves once the shim has forked it.
+   */
+  private async spawnWorker(proc: ManagedProcessInfo, index: number): Promise<InstanceProcess> {
+    const primary = proc.primary;
+    if (!primary) {
+      return this.spawnIndependentWorker(proc, index);
+    }
+
+    return new Promise<InstanceProcess>((resolveForked, rejectForked) => {
+      const onExit = (): void => {
+        proc.pendingForks.delete(index);
+        rejectForked(new Error('cluster primary exited before forking the new worker'));
+      };
+      proc.pendingForks.set(index, (worker) => {
+        primary.off('exit', onExit);
+        resolveForked(worker);
+      });
+      primary.once('exit', onExit);
+      primary.send({ type: 'fork', id: index } satisfies ClusterDaemonMessage);
+    });
+  }
+
+  /**
+   * Spawn a worker as a process of its own and capture its output
+   */
+  private spawnIndependentWorker(proc: ManagedProcessInfo, index: number): ChildProcess {
+    const config = proc.config;
+    const scriptPath = resolve(config.script);
+    const cwd = config.cwd ? resolve(config.cwd) : dirname(scriptPath);
+
+    const env = {
+      ...this.buildEnv(config),
+      OD_WORKER_ID: String(index),
+      OD_WORKER_COUNT: String(proc.instanceCount),
+    };
+    const child = this.spawnInstance(proc, resolveSpawnCommand(config, scriptPath), cwd, env);
+    this.captureOutput(proc, child, index);
+
+    child.on('error', (err) => {
+      this.logger.error(`Worker error: ${config.name}[${index}]`, undefined, err);
+    });
+
+    return child;
   }
 
   /**
-   * Stop a process
+   * Make a started worker the instance at an index of a cluster
    */
-  private async stopProcess(params: { name: string; signal?: string; timeout?: number }): Promise<void> {
-    const proc = this.processes.get(params.name);
-    if (!proc) {
-      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
-    }
+  private attachWorker(proc: ManagedProcessInfo, index: number, worker: InstanceProcess): void {
+    const primary = proc.primary;
 
-    await this.stopProcessInternal(
-      proc,
-      params.signal ?? 'SIGTERM',
-      params.timeout ?? (proc.config.killTimeout ?? 5000)
-    );
+    proc.workers[index] = worker;
+    proc.instanceStarts.set(index, Date.now());
+    this.updatePids(proc);
+
+    worker.on('exit', (code: number | null, signal: string | null) => {
+      // When the primary itself exits, the whole cluster restarts instead
+      if (this.retired.has(worker) || (primary && (proc.primary !== primary || hasExited(primary)))) {
+        return;
+      }
+      this.handleWorkerExit(proc, index, code, signal);
+    });
+    worker.on('message', (message: unknown) => this.handleInstanceMessage(proc, index, worker, message));
   }
 
   /**
-   * Restart a process
+   * Publish the metrics an instance reports as `process:metrics`
    */
-  private async restartProcess(params: { name: string }): Promise<ProcessInfo> {
-    const proc = this.processes.get(params.name);
-    if (!proc) {
-      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+  private handleInstanceMessage(
+    proc: ManagedProcessInfo,
+    instanceId: number,
+    instance: InstanceProcess,
+    message: unknown
+  ): void {
+    const metrics = message as Partial<InstanceMetricsMessage> | null;
+    if (metrics?.type !== 'od:metrics' || !metrics.metrics || this.retired.has(instance)) {
+      return;
     }
 
-    await this.stopProcessInternal(proc, 'SIGTERM', proc.config.killTimeout ?? 5000);
-    return this.startProcess(proc.config);
+    const report: ProcessMetricsReport = {
+      name: proc.config.name,
+      instanceId,
+      pid: instance.pid,
+      metrics: metrics.metrics,
+    };
+    this.context.events.emit('process:metrics', report);
   }
 
   /**
-   * Delete a process
+   * Recompute the pids of a process from its running instances
    */
-  private async deleteProcess(params: { name: string }): Promise<void> {
-    const proc = this.processes.get(params.name);
-    if (!proc) {
-      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
-    }
-
-    if (proc.status === 'online' || proc.status === 'starting') {
-      await this.stopProcessInternal(proc, 'SIGTERM', proc.config.killTimeout ?? 5000);
-    }
-
-    this.processes.delete(params.name);
-    this.logger.info(`Process deleted: ${params.name}`);
+  private updatePids(proc: ManagedProcessInfo): void {
+    proc.pids = this.getRunningChildren(proc).map((child) => child.pid!);
+    proc.pid = proc.pids[0];
   }
 
   /**
-   * Start process in fork mode
+   * Spawn one instance with the process's interpreter, credentials, nice level and umask.
+   * The nice level is set once the instance is spawned, so its first
+   * instructions may run at the daemon's priority.
    */
-  private async startFork(proc: ManagedProcessInfo): Promise<void> {
+  private spawnInstance(proc: ManagedProcessInfo, spawnCommand: SpawnCommand, cwd: string, env: NodeJS.ProcessEnv): ChildProcess {
     const config = proc.config;
-    const scriptPath = resolve(config.script);
-    const cwd = config.cwd ? resolve(config.cwd) : dirname(scriptPath);
-
-    const env = this.buildEnv(config);
+    const identity = proc.identity;
+    const { ipc } = spawnCommand;
+    const { command, args } =
+      identity.umask !== undefined && process.platform !== 'win32'
+        ? withUmask(spawnCommand.command, spawnCommand.args, identity.umask)
+        : spawnCommand;
+
+    if (identity.user) {
+      env['HOME'] = identity.user.home;
+      env['USER'] = identity.user.name;
+      env['LOGNAME'] = identity.user.name;
+    }
 
-    const child = spawn(process.execPath, [scriptPath, ...(config.args ?? [])], {
+    const child = spawn(command, args, {
       cwd,
       env,
-      detached: false,
-      stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
+      detached: this.isGroupLeader(config),
+      stdio: ipc ? ['pipe', 'pipe', 'pipe', 'ipc'] : ['pipe', 'pipe', 'pipe'],
+      ...(identity.uid !== undefined ? { uid: identity.uid } : {}),
+      ...(identity.gid !== undefined ? { gid: identity.gid } : {}),
     });
 
-    proc.childProcess = child;
-    proc.pid = child.pid;
-    if (child.pid) {
-      proc.pids = [child.pid];
+    if (identity.nice !== undefined && child.pid !== undefined) {
+      try {
+        setPriority(child.pid, identity.nice);
+      } catch (err) {
+        this.logger.warn(`Failed to set nice ${identity.nice} for ${config.name}`, { error: (err as Error).message });
+      }
     }
 
-    // Handle process events
-    child.on('exit', (code, signal) => {
-      this.handleProcessExit(proc, code, signal);
-    });
+    return child;
+  }
 
-    child.on('error', (err) => {
-      this.logger.error(`Process error: ${config.name}`, undefined, err);
-      proc.status = 'errored';
-      this.context.events.emit('process:error', { name: config.name, error: err.message });
-    });
+  /**
+   * Drain the child's stdout/stderr and publish every line as a `process:log` event.
+   * The pipes must always be read, otherwise a chatty child blocks once the buffer fills.
+   */
+  private captureOutput(proc: ManagedProcessInfo, child: InstanceProcess, instanceId: number): void {
+    const outputs: Array<[ProcessLogSource, Readable | null]> = [
+      ['stdout', child.stdout],
+      ['stderr', child.stderr],
+    ];
+
+    for (const [source, stream] of outputs) {
+      if (!stream) {
+        continue;
+      }
 
-    // Wait for process to be ready (optional)
-    if (config.minUptime) {
-      await this.waitForReady(child, config.minUptime);
+      const reader = createInterface({ input: stream, crlfDelay: Infinity });
+      reader.on('line', (line) => {
+        const entry: ProcessLogEntry = {
+          timestamp: new Date().toISOString(),
+          processName: proc.config.name,
+          instanceId,
+          pid: child.pid,
+          source,
+          message: line,
+        };
+        this.bufferOutput(proc, entry);
+        this.context.events.emit('process:log', entry);
+      });
     }
   }
 
   /**
-   * Start process in cluster mode
+   * Keep a line in the instance's recent output buffer
    */
-  private async startCluster(proc: ManagedProcessInfo): Promise<void> {
-    const config = proc.config;
-    const instances = typeof config.instances === 'number' ? config.instances : 1;
-
-    proc.pids = [];
-
-    for (let i = 0; i < instances; i++) {
-      await this.startWorker(proc, i);
+  private bufferOutput(proc: ManagedProcessInfo, entry: ProcessLogEntry): void {
+    let buffer = proc.outputBuffers.get(entry.instanceId);
+    if (!buffer) {
+      buffer = new OutputBuffer(resolveBufferLimits(proc.config.logBuffer));
+      proc.outputBuffers.set(entry.instanceId, buffer);
     }
-
-    proc.pid = proc.pids[0];
+    buffer.push(entry);
   }
 
   /**
-   * Start a single worker
+   * Merge the recent output of all instances, oldest first
    */
-  private async startWorker(proc: ManagedProcessInfo, index: number): Promise<void> {
-    const config = proc.config;
-    const scriptPath = resolve(config.script);
-    const cwd = config.cwd ? resolve(config.cwd) : dirname(scriptPath);
+  private collectRecentLogs(proc: ManagedProcessInfo, lines?: number): ProcessLogEntry[] {
+    const entries = Array.from(proc.outputBuffers.values()).flatMap((buffer) => buffer.toArray(lines));
+    // ISO timestamps sort lexicographically; sort is stable for equal stamps
+    entries.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+    return lines !== undefined ? entries.slice(-lines) : entries;
+  }
 
-    const env = {
-      ...this.buildEnv(config),
-      OD_WORKER_ID: String(index),
-      OD_WORKER_COUNT: String(config.instances),
-    };
+  /**
+   * Check if a process runs as a cluster: of more than one instance, or of
+   * any number behind the load balancer of its primary
+   */
+  private isClustered(proc: ManagedProcessInfo, instanceCount = proc.instanceCount): boolean {
+    return proc.config.mode === 'cluster' && (instanceCount > 1 || proc.config.loadBalancing !== undefined);
+  }
 
-    const child = spawn(process.execPath, [scriptPath, ...(config.args ?? [])], {
-      cwd,
-      env,
-      detached: false,
-      stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
-    });
+  /**
+   * Check if instances of a process are spawned as process group leaders
+   */
+  private isGroupLeader(config: ProcessConfig): boolean {
+    return (config.detached ?? true) && process.platform !== 'win32';
+  }
 
-    proc.workers[index] = child;
-    if (child.pid) {
-      proc.pids.push(child.pid);
+  /**
+   * Signal the process groups of all running instances spawned as group
+   * leaders, without waiting for them to exit
+   */
+  private signalProcessGroups(signal: NodeJS.Signals): void {
+    for (const proc of this.processes.values()) {
+      if (!this.isGroupLeader(proc.config)) {
+        continue;
+      }
+      // Cluster workers are in the group of the primary shim
+      const roots = proc.primary && !hasExited(proc.primary) ? [proc.primary] : this.getRunningChildren(proc);
+      for (const child of roots) {
+        if (!(child instanceof ClusterWorker)) {
+          signalProcessTree(child.pid!, signal, [], true);
+        }
+      }
     }
+  }
 
-    child.on('exit', (code, signal) => {
-      this.handleWorkerExit(proc, index, code, signal);
-    });
+  /**
+   * Get the running instances of a process with their current descendants
+   */
+  private getInstanceTrees(proc: ManagedProcessInfo): InstanceTree[] {
+    const table = readProcessTable();
+    const group = this.isGroupLeader(proc.config);
+
+    // Cluster workers are descendants of the primary shim
+    const roots = proc.primary && !hasExited(proc.primary) ? [proc.primary] : this.getRunningChildren(proc);
+    return roots.map((child) => ({
+      child,
+      pid: child.pid!,
+      descendants: getDescendants(child.pid!, table),
+      group,
+    }));
+  }
 
-    child.on('error', (err) => {
-      this.logger.error(`Worker error: ${config.name}[${index}]`, undefined, err);
-    });
+  /**
+   * Get the running instances of a process with their instance ids
+   */
+  private getRunningInstances(proc: ManagedProcessInfo): Array<{ child: InstanceProcess; instanceId: number }> {
+    const children: Array<InstanceProcess | undefined> =
+      proc.workers.length > 0 ? proc.workers : [proc.childProcess];
+    return children.flatMap((child, instanceId) =>
+      child && child.pid !== undefined && !hasExited(child) ? [{ child, instanceId }] : []
+    );
   }
 
   /**
-   * Stop process internal
+   * Get the instances of a process that are currently running
    */
-  private async stopProcessInternal(
-    proc: ManagedProcessInfo,
-    signal: string,
-    timeout: number
-  ): Promise<void> {
-    if (proc.status === 'stopped' || proc.status === 'stopping') {
-      return;
+  private getRunningChildren(proc: ManagedProcessInfo): InstanceProcess[] {
+    const children: InstanceProcess[] = proc.workers.length > 0 ? proc.workers : proc.childProcess ? [proc.childProcess] : [];
+    return children.filter((child) => child && child.pid !== undefined && !hasExited(child));
+  }
+
+  /**
+   * Stop all instances of a process: ask them to exit with the signal (or a
+   * shutdown message), wait for their exit and force kill what still runs
+   * after the timeout
+   *
+   * @returns How each instance stopped; no instances if the process was
+   * already stopped. Stops while one is under way get its report.
+   */
+  private stopProcessInternal(proc: ManagedProcessInfo, signal: string, timeout: number): Promise<ProcessStopReport> {
+    if (proc.stop) {
+      return proc.stop;
+    }
+    if (proc.status === 'stopped') {
+      return Promise.resolve({ name: proc.config.name, instances: [], duration: 0 });
     }
 
+    proc.stop = this.stopRunningProcess(proc, signal, timeout).finally(() => {
+      proc.stop = undefined;
+    });
+    return proc.stop;
+  }
+
+  /**
+   * Stop the running instances of a process and mark it stopped
+   */
+  private async stopRunningProcess(proc: ManagedProcessInfo, signal: string, timeout: number): Promise<ProcessStopReport> {
     proc.status = 'stopping';
     this.logger.info(`Stopping process: ${proc.config.name}`);
 
@@ -349,50 +1552,166 @@ export class ProcessManagerPlugin implements Plugin {
       workerTimeouts.clear();
     }
 
-    // Send signal to main process
-    if (proc.childProcess && !proc.childProcess.killed) {
-      proc.childProcess.kill(signal as NodeJS.Signals);
-    }
-
-    // Send signal to workers
-    for (const worker of proc.workers) {
-      if (worker && !worker.killed) {
-        worker.kill(signal as NodeJS.Signals);
-      }
-    }
-
-    // Wait for processes to exit
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      const allStopped = proc.workers.every((w) => !w || w.killed) && 
-        (!proc.childProcess || proc.childProcess.killed);
-      
-      if (allStopped) {
-        break;
-      }
-      
-      await new Promise((r) => setTimeout(r, 100));
+    // Record when each instance exits
+    const started = Date.now();
+    const instances = this.getRunningInstances(proc);
+    const exits = new Map<InstanceProcess, number>();
+    for (const { child } of instances) {
+      child.once('exit', () => exits.set(child, Date.now()));
     }
 
-    // Force kill if still running
-    if (proc.childProcess && !proc.childProcess.killed) {
-      proc.childProcess.kill('SIGKILL');
+    // Snapshot descendants before signalling: once an instance exits they
+    // are reparented and can no longer be found
+    const trees = this.getInstanceTrees(proc);
+    for (const tree of trees) {
+      this.requestStop(proc, tree, signal as NodeJS.Signals);
     }
+    const killedAt = await this.waitForTrees(proc, trees, timeout);
 
-    for (const worker of proc.workers) {
-      if (worker && !worker.killed) {
-        worker.kill('SIGKILL');
-      }
-    }
+    const report: ProcessStopReport = {
+      name: proc.config.name,
+      instances: instances.map(({ child, instanceId }): InstanceStopReport => {
+        const exitedAt = exits.get(child);
+        return {
+          instanceId,
+          pid: child.pid!,
+          code: child.exitCode,
+          signal: child.signalCode,
+          duration: (exitedAt ?? Date.now()) - started,
+          killed: killedAt !== undefined && (exitedAt === undefined || exitedAt >= killedAt),
+        };
+      }),
+      duration: Date.now() - started,
+    };
 
     proc.status = 'stopped';
     proc.pid = undefined;
     proc.pids = [];
     proc.childProcess = undefined;
     proc.workers = [];
+    proc.primary = undefined;
+    proc.clusterWorkers.clear();
+    proc.pendingForks.clear();
 
-    this.logger.info(`Process stopped: ${proc.config.name}`);
+    this.logger.info(`Process stopped: ${proc.config.name}`, {
+      duration: report.duration,
+      killed: report.instances.filter((instance) => instance.killed).length,
+    });
     this.context.events.emit('process:stopped', { name: proc.config.name });
+    return report;
+  }
+
+  /**
+   * Stop a process after its running dependents (unless cascadeStop is
+   * false), which are stopped the same way. Independent dependents stop in
+   * parallel.
+   *
+   * @param timeout - Milliseconds before force killing, by default the killTimeout of each process
+   * @param stops - Stops already under way, by process name
+   * @param shutdown - Stop dependents first regardless of cascadeStop
+   */
+  private stopWithDependents(
+    proc: ManagedProcessInfo,
+    signal: string,
+    timeout: number | undefined,
+    stops = new Map<string, Promise<ProcessStopReport>>(),
+    shutdown = false
+  ): Promise<ProcessStopReport> {
+    const name = proc.config.name;
+    let stop = stops.get(name);
+    if (!stop) {
+      const dependents = shutdown || proc.config.cascadeStop !== false ? this.getDependents(name) : [];
+      stop = (async () => {
+        const results = await Promise.allSettled(
+          dependents.map((dependent) => this.stopWithDependents(dependent, signal, timeout, stops, shutdown))
+        );
+        results.forEach((result, i) => {
+          if (result.status === 'rejected') {
+            this.logger.error(`Failed to stop dependent ${dependents[i]!.config.name}`, undefined, result.reason as Error);
+          }
+        });
+        return this.stopProcessInternal(proc, signal, timeout ?? proc.config.killTimeout ?? 5000);
+      })();
+      stops.set(name, stop);
+    }
+    return stop;
+  }
+
+  /**
+   * Get the processes that depend on a process and are not stopped
+   */
+  private getDependents(name: string): ManagedProcessInfo[] {
+    return Array.from(this.processes.values()).filter(
+      (proc) =>
+        proc.status !== 'stopped' && proc.status !== 'errored' && dependencyNames(proc.config).includes(name)
+    );
+  }
+
+  /**
+   * Ask an instance tree to exit: with a shutdown message if the process is
+   * configured for it and the instance has an IPC channel, otherwise with
+   * the signal
+   */
+  private requestStop(proc: ManagedProcessInfo, tree: InstanceTree, signal: NodeJS.Signals): void {
+    const child = tree.child as ChildProcess;
+    if (proc.config.shutdownWithMessage && child.connected) {
+      // The primary shim forwards the message to its workers
+      child.send({ type: 'shutdown' } satisfies ShutdownMessage);
+      return;
+    }
+    signalProcessTree(tree.pid, signal, tree.descendants, tree.group);
+  }
+
+  /**
+   * Wait for the instances of signalled trees to exit and their descendants
+   * to be gone, and force kill whatever is still running after the timeout
+   *
+   * @returns When the remaining trees were force killed, if any were
+   */
+  private async waitForTrees(
+    proc: ManagedProcessInfo,
+    trees: InstanceTree[],
+    timeout: number
+  ): Promise<number | undefined> {
+    const isTreeRunning = (tree: InstanceTree): boolean =>
+      !hasExited(tree.child) || tree.descendants.some((pid) => isProcessRunning(pid));
+
+    const deadline = Date.now() + timeout;
+    await Promise.all(
+      trees.map(async (tree) => {
+        await waitForExit(tree.child, timeout);
+        // Descendants are not our children and have no exit event
+        while (isTreeRunning(tree) && Date.now() < deadline) {
+          await new Promise((r) => setTimeout(r, 100));
+        }
+      })
+    );
+
+    // Force kill whatever is still running
+    const running = trees.filter(isTreeRunning);
+    if (running.length === 0) {
+      return undefined;
+    }
+
+    const killedAt = Date.now();
+    for (const tree of running) {
+      this.logger.warn(`Force killing process tree: ${proc.config.name}`, { pid: tree.pid });
+      signalProcessTree(tree.pid, 'SIGKILL', tree.descendants, tree.group);
+    }
+    await Promise.all(running.map((tree) => waitForExit(tree.child, KILL_EXIT_TIMEOUT)));
+    return killedAt;
+  }
+
+  /**
+   * Cancel the pending restart of a cluster worker
+   */
+  private clearWorkerTimeout(proc: ManagedProcessInfo, index: number): void {
+    const workerTimeouts = (proc as ManagedProcessInfo & { workerTimeouts?: Map<number, NodeJS.Timeout> }).workerTimeouts;
+    const timeout = workerTimeouts?.get(index);
+    if (timeout) {
+      clearTimeout(timeout);
+      workerTimeouts?.delete(index);
+    }
   }
 
 /**
@@ -410,15 +1729,21 @@ private handleProcessExit(
   this.logger.info(`Process exited: ${proc.config.name}`, { code, signal });
 
   // Check if should restart
-  const shouldRestart = this.shouldRestart(proc, code);
+  const attempt = this.nextRestartAttempt(proc, 0);
+  const shouldRestart = this.shouldRestart(proc, code, attempt);
+  this.reportCrash(proc, 0, proc.childProcess?.pid, code, signal, shouldRestart);
 
   if (shouldRestart) {
+    proc.restartAttempts.set(0, attempt);
     proc.restartCount++;
     proc.lastRestart = new Date();
     proc.status = 'starting';
+    const delay = this.getRestartDelay(proc, 0, attempt);
 
     this.logger.info(`Restarting process: ${proc.config.name}`, {
       restartCount: proc.restartCount,
+      attempt,
+      delay,
     });
 
     // Clear any existing timeout
@@ -432,20 +1757,34 @@ private handleProcessExit(
         // Process was manually stopped during restart delay
         return;
       }
-      if (proc.config.mode === 'cluster' && typeof proc.config.instances === 'number' && proc.config.instances > 1) {
-        this.startCluster(proc).catch((err) => {
+      if (proc.status === 'crashloop') {
+        proc.status = 'starting';
+        proc.crashLoopUntil = undefined;
+      }
+      if (this.isClustered(proc)) {
+        this.startCluster(proc).then(() => {
+          if (proc.status === 'starting') {
+            proc.status = 'online';
+          }
+        }).catch((err) => {
           this.logger.error(`Failed to restart cluster: ${proc.config.name}`, undefined, err);
           proc.status = 'errored';
         });
       } else {
-        this.startFork(proc).catch((err) => {
+        this.startFork(proc).then(() => {
+          if (proc.status === 'starting') {
+            proc.status = 'online';
+          }
+        }).catch((err) => {
           this.logger.error(`Failed to restart: ${proc.config.name}`, undefined, err);
           proc.status = 'errored';
         });
       }
-    }, proc.config.restartDelay ?? 1000);
+    }, delay);
   } else {
-    proc.status = code === 0 ? 'stopped' : 'errored';
+    const stopped = code === 0 || proc.status === 'stopping' || proc.status === 'stopped';
+    proc.status = stopped ? 'stopped' : 'errored';
+    proc.exitCode = code;
     this.context.events.emit('process:exit', { name: proc.config.name, code, signal });
   }
 }
@@ -466,9 +1805,17 @@ private handleProcessExit(
     this.logger.info(`Worker exited: ${proc.config.name}[${index}]`, { code, signal });
 
     // Restart worker if needed
-    const shouldRestart = this.shouldRestart(proc, code);
+    const attempt = this.nextRestartAttempt(proc, index);
+    const shouldRestart = this.shouldRestart(proc, code, attempt);
+    this.reportCrash(proc, index, proc.workers[index]?.pid, code, signal, shouldRestart);
 
     if (shouldRestart) {
+      proc.restartAttempts.set(index, attempt);
+      proc.restartCount++;
+      proc.lastRestart = new Date();
+      const delay = this.getRestartDelay(proc, index, attempt);
+      const quarantined = proc.status === 'crashloop';
+
       // Store worker restart timeout in a map attached to proc
       const workerTimeouts = (proc as ManagedProcessInfo & { workerTimeouts?: Map<number, NodeJS.Timeout> }).workerTimeouts ??= new Map();
 
@@ -484,24 +1831,120 @@ private handleProcessExit(
           // Process was manually stopped during restart delay
           return;
         }
+        if (quarantined && proc.status === 'crashloop') {
+          proc.status = 'online';
+          proc.crashLoopUntil = undefined;
+        }
         this.startWorker(proc, index).catch((err) => {
           this.logger.error(`Failed to restart worker: ${proc.config.name}[${index}]`, undefined, err);
         });
-      }, proc.config.restartDelay ?? 1000));
+      }, delay));
+    }
+  }
+
+  /**
+   * Get the delay before restarting an instance. When the restarts within the
+   * crash-loop window reach the limit, the process enters the `crashloop`
+   * status and the delay is the cooldown instead of the backoff.
+   */
+  private getRestartDelay(proc: ManagedProcessInfo, instanceId: number, attempt: number): number {
+    const policy = resolveCrashLoopPolicy(proc.config.crashLoop);
+    if (!policy || !recordRestart(proc.restartHistory, policy)) {
+      return computeRestartDelay(proc.config, attempt);
+    }
+
+    const event: ProcessCrashLoopEvent = {
+      name: proc.config.name,
+      instanceId,
+      restarts: proc.restartHistory.length,
+      window: policy.window,
+      cooldown: policy.cooldown,
+    };
+
+    // Backoff starts over after the cooldown
+    proc.restartHistory = [];
+    proc.restartAttempts.clear();
+    proc.status = 'crashloop';
+    proc.crashLoopUntil = new Date(Date.now() + policy.cooldown);
+
+    this.logger.warn(`Crash loop detected: ${proc.config.name}`, {
+      restarts: event.restarts,
+      cooldown: policy.cooldown,
+    });
+    this.context.events.emit('process:crashloop', event);
+
+    return policy.cooldown;
+  }
+
+  /**
+   * Emit `process:crash` with a snapshot of an instance that exited abnormally.
+   * Exits caused by a stop request are not crashes.
+   */
+  private reportCrash(
+    proc: ManagedProcessInfo,
+    instanceId: number,
+    pid: number | undefined,
+    code: number | null,
+    signal: string | null,
+    willRestart: boolean
+  ): void {
+    if ((code === 0 && !signal) || proc.status === 'stopping' || proc.status === 'stopped') {
+      return;
+    }
+
+    const crash: ProcessCrashEvent = {
+      name: proc.config.name,
+      instanceId,
+      pid,
+      exitCode: code,
+      signal,
+      uptime: this.instanceUptime(proc, instanceId),
+      restartCount: proc.restartCount,
+      willRestart,
+      logs: proc.outputBuffers.get(instanceId)?.toArray() ?? [],
+      envKeys: Object.keys(this.buildEnv(proc.config)).sort(),
+    };
+
+    this.logger.warn(`Process crashed: ${proc.config.name}`, { instanceId, code, signal });
+    this.context.events.emit('process:crash', crash);
+  }
+
+  /**
+   * Milliseconds since an instance's current run started
+   */
+  private instanceUptime(proc: ManagedProcessInfo, instanceId: number): number {
+    const started = proc.instanceStarts.get(instanceId);
+    return started !== undefined ? Date.now() - started : 0;
+  }
+
+  /**
+   * Get the consecutive restart number the next restart of an instance would be.
+   * The count starts over when the instance stayed up for at least minUptime.
+   */
+  private nextRestartAttempt(proc: ManagedProcessInfo, instanceId: number): number {
+    if (isStableRun(proc.config, this.instanceUptime(proc, instanceId))) {
+      proc.restartAttempts.delete(instanceId);
     }
+    return (proc.restartAttempts.get(instanceId) ?? 0) + 1;
   }
 
   /**
    * Check if process should restart
    */
-  private shouldRestart(proc: ManagedProcessInfo, code: number | null): boolean {
+  private shouldRestart(proc: ManagedProcessInfo, code: number | null, attempt: number): boolean {
     const strategy = proc.config.autoRestart;
     
     if (strategy === false || strategy === 'never') {
       return false;
     }
 
-    if (strategy === 'unless-stopped' && proc.status === 'stopping') {
+    // Runs of cron processes end on exit; the scheduler retries failed runs
+    if (proc.config.cron !== undefined) {
+      return false;
+    }
+
+    // Exits caused by a manual stop are never restarted
+    if (proc.status === 'stopping' || proc.status === 'stopped') {
       return false;
     }
 
@@ -509,9 +1952,9 @@ private handleProcessExit(
       return false;
     }
 
-    // Check max restarts
-    const maxRestarts = proc.config.maxRestarts ?? 10;
-    if (proc.restartCount >= maxRestarts) {
+    // Check max consecutive restarts
+    const maxRestarts = proc.config.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+    if (attempt > maxRestarts) {
       this.logger.warn(`Max restarts reached for ${proc.config.name}`);
       return false;
     }
@@ -519,24 +1962,6 @@ private handleProcessExit(
     return true;
   }
 
-  /**
-   * Wait for process to be ready
-   */
-  private async waitForReady(child: ChildProcess, timeout: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error('Process ready timeout'));
-      }, timeout);
-
-      child.once('message', (msg) => {
-        if (msg === 'ready' || (typeof msg === 'object' && (msg as { type: string }).type === 'ready')) {
-          clearTimeout(timer);
-          resolve();
-        }
-      });
-    });
-  }
-
   /**
    * Build environment variables
    */
@@ -580,27 +2005,134 @@ private handleProcessExit(
       name: proc.config.name,
       status: proc.status,
       mode: (proc.config.mode ?? 'fork') as ProcessMode,
-      instances: typeof proc.config.instances === 'number' ? proc.config.instances : (proc.config.instances === 'max' ? proc.workers.length || 1 : 1),
-      runningInstances: proc.workers.length || (proc.childProcess ? 1 : 0),
+      instances: this.isClustered(proc) ? proc.instanceCount : 1,
+      runningInstances: this.getRunningChildren(proc).length,
       pid: proc.pid,
       pids: proc.pids,
       restartCount: proc.restartCount,
       uptime,
-      cpu: 0, // TODO: Implement CPU monitoring
-      memory: 0, // TODO: Implement memory monitoring
+      cpu: proc.usage?.cpu ?? 0,
+      memory: proc.usage?.memory ?? 0,
       script: proc.config.script,
       cwd: proc.config.cwd,
       createdAt: now.toISOString(),
       startedAt: proc.startTime?.toISOString(),
-      errorMessage: proc.status === 'errored' ? 'Process exited with error' : undefined,
+      errorMessage: this.getErrorMessage(proc),
       env: {}, // Don't expose env for security
+      health: this.context.getPlugin<Plugin & { getHealth(name: string): ProcessHealth | undefined }>(
+        'health-check'
+      )?.getHealth(proc.config.name),
+      schedule: this.context.getPlugin<Plugin & { getSchedule(name: string): ProcessSchedule | undefined }>(
+        'scheduler'
+      )?.getSchedule(proc.config.name),
+      watching: this.context.getPlugin<Plugin & { isWatching(name: string): boolean }>(
+        'watch-mode'
+      )?.isWatching(proc.config.name),
     };
   }
 
+  /**
+   * Describe why a process is not running normally
+   */
+  private getErrorMessage(proc: ManagedProcessInfo): string | undefined {
+    if (proc.status === 'errored') {
+      return 'Process exited with error';
+    }
+    if (proc.status === 'crashloop' && proc.crashLoopUntil) {
+      return `Crash loop detected, restarting at ${proc.crashLoopUntil.toISOString()}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Sample CPU and memory of all running processes and their descendants from /proc.
+   * Emits process:usage with the sample of each running process.
+   */
+  sampleResources(): void {
+    const table = readProcessTable();
+    const sampled: number[] = [];
+
+    for (const proc of this.processes.values()) {
+      const roots = this.getRunningChildren(proc).map((child) => child.pid!);
+      if (roots.length === 0) {
+        proc.usage = undefined;
+        continue;
+      }
+      const pids = [...roots, ...roots.flatMap((pid) => getDescendants(pid, table))];
+      proc.usage = this.sampler.sample(pids);
+      sampled.push(...pids);
+      this.context.events.emit('process:usage', { name: proc.config.name, usage: proc.usage });
+    }
+
+    this.sampler.retain(sampled);
+  }
+
+  /**
+   * Get the latest resource metrics of a process, summed over all instances
+   *
+   * @returns The metrics, or undefined if the process does not exist
+   */
+  getMetrics(name: string): ProcessMetrics | undefined {
+    const proc = this.processes.get(name);
+    return proc ? toProcessMetrics(proc.usage ?? emptyUsage()) : undefined;
+  }
+
   /**
    * Get all managed processes (for WebUI and other plugins)
    */
   getProcesses(): ManagedProcessInfo[] {
     return Array.from(this.processes.values());
   }
+
+  /**
+   * Get a single managed process by name (for other plugins)
+   */
+  getProcess(name: string): ManagedProcessInfo | undefined {
+    return this.processes.get(name);
+  }
+
+  /**
+   * Restart a process by name (for health checks and other plugins)
+   */
+  async restart(name: string): Promise<ProcessInfo> {
+    return this.restartProcess({ name });
+  }
+
+  /**
+   * Scale a cluster by name (for auto-scaling and other plugins)
+   *
+   * @param instances - Absolute count, or `'+N'`/`'-N'` relative to the current one
+   * @param reason - Why the process is scaled, reported with `process:scaled`
+   */
+  async scale(name: string, instances: InstanceCount | string, reason?: string): Promise<ProcessInfo> {
+    return this.scaleProcess({ name, instances, ...(reason !== undefined ? { reason } : {}) });
+  }
+
+  /**
+   * Stop a process by name (for health checks and other plugins)
+   */
+  async stop(name: string): Promise<ProcessStopReport> {
+    return this.stopProcess({ name });
+  }
+
+  /**
+   * Get the buffered recent output of a process, oldest first (for WebUI and other plugins)
+   *
+   * @param name - Process name
+   * @param lines - Only return the most recent lines
+   * @returns The lines, or undefined if the process does not exist
+   */
+  getRecentLogs(name: string, lines?: number): ProcessLogEntry[] | undefined {
+    const proc = this.processes.get(name);
+    return proc ? this.collectRecentLogs(proc, lines) : undefined;
+  }
+
+  /**
+   * Drop the buffered recent output of a process (for watch mode and other plugins)
+   */
+  clearRecentLogs(name: string): void {
+    for (const buffer of this.processes.get(name)?.outputBuffers.values() ?? []) {
+      buffer.clear();
+    }
+  }
 }
@@ -0,0 +1,82 @@
+import type { InstanceCount } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError } from '../../../core/src/index.js';
+import { availableParallelism } from 'os';
+
+/**
+ * Resolve the `instances` setting against the CPU parallelism of the host:
+ *
+ * - a positive number runs that many instances
+ * - `'max'` or `0` runs one instance per CPU
+ * - a negative number runs all CPUs but that many (`-1` on 8 CPUs is 7)
+ * - a percentage such as `'50%'` runs that share of the CPUs, rounded
+ *
+ * Numbers may also be given as strings (`'4'`, `'-1'`). The result is at least 1.
+ *
+ * @param name - Process name for errors
+ * @param instances - Configured count, 1 when not set
+ * @param cpus - CPU parallelism (detected when not given)
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) if the value is not one of the forms above
+ */
+export function resolveInstanceCount(
+  name: string,
+  instances: InstanceCount | undefined,
+  cpus = availableParallelism()
+): number {
+  if (instances === undefined) {
+    return 1;
+  }
+
+  const invalid = (): ProcessError =>
+    new ProcessError(
+      ErrorCode.PROCESS_INVALID_CONFIG,
+      name,
+      `Invalid instances: ${instances} (expected a number, 'max' or a percentage)`
+    );
+
+  if (instances === 'max') {
+    return cpus;
+  }
+
+  if (typeof instances === 'string' && instances.endsWith('%')) {
+    const percent = Number(instances.slice(0, -1));
+    if (instances.length === 1 || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      throw invalid();
+    }
+    return Math.max(1, Math.round((cpus * percent) / 100));
+  }
+
+  const count = typeof instances === 'number' ? instances : instances.trim() === '' ? NaN : Number(instances);
+  if (!Number.isInteger(count)) {
+    throw invalid();
+  }
+  if (count === 0) {
+    return cpus;
+  }
+  return Math.max(1, count < 0 ? cpus + count : count);
+}
+
+/**
+ * Resolve the target of a scale request: `'+N'` and `'-N'` add or remove
+ * instances from the current count, anything else is an absolute count as
+ * accepted by resolveInstanceCount. The result is at least 1.
+ *
+ * @param name - Process name for errors
+ * @param current - Current instance count
+ * @param instances - Requested count
+ * @param cpus - CPU parallelism (detected when not given)
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) if the value is invalid
+ */
+export function resolveScaleTarget(
+  name: string,
+  current: number,
+  instances: InstanceCount | string,
+  cpus = availableParallelism()
+): number {
+  const relative = typeof instances === 'string' ? /^([+-])(\d+)$/.exec(instances.trim()) : null;
+  if (relative) {
+    const delta = Number(relative[2]);
+    return Math.max(1, relative[1] === '+' ? current + delta : current - delta);
+  }
+
+  return resolveInstanceCount(name, instances as InstanceCount, cpus);
+}
@@ -0,0 +1,166 @@
+import type { ProcessConfig } from '../../../core/src/index.js';
+import { parseSize } from '../../../core/src/index.js';
+import { closeSync, openSync, readSync } from 'fs';
+import { basename, extname } from 'path';
+
+/**
+ * `interpreter` value that executes the script directly (binaries, scripts with a shebang)
+ */
+export const NO_INTERPRETER = 'none';
+
+/**
+ * Interpreters detected from the script extension
+ */
+export const INTERPRETERS_BY_EXTENSION: Readonly<Record<string, string>> = {
+  '.js': 'node',
+  '.mjs': 'node',
+  '.cjs': 'node',
+  '.ts': 'tsx',
+  '.mts': 'tsx',
+  '.cts': 'tsx',
+  '.py': 'python3',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.pl': 'perl',
+  '.sh': 'bash',
+  '.bash': 'bash',
+};
+
+/**
+ * Interpreters that run Node.js and therefore support the IPC channel
+ */
+const NODE_INTERPRETERS = new Set(['node', 'nodejs', 'tsx', 'ts-node']);
+
+/**
+ * Node.js binaries that accept V8 flags such as --max-old-space-size
+ */
+const NODE_BINARIES = new Set(['node', 'nodejs']);
+
+/**
+ * Longest shebang line read from a script
+ */
+const MAX_SHEBANG_BYTES = 256;
+
+/**
+ * How to spawn a process instance
+ */
+export interface SpawnCommand {
+  command: string;
+  args: string[];
+  /** The leading `args` passed to the interpreter rather than the script */
+  interpreterArgs: string[];
+  /** Whether to open the Node.js IPC channel */
+  ipc: boolean;
+}
+
+/**
+ * Read the interpreter and its arguments from a `#!` line
+ *
+ * @returns The tokens of the shebang, or undefined if the file has none
+ */
+export function readShebang(scriptPath: string): string[] | undefined {
+  let fd: number | undefined;
+  try {
+    fd = openSync(scriptPath, 'r');
+    const buffer = Buffer.alloc(MAX_SHEBANG_BYTES);
+    const bytesRead = readSync(fd, buffer, 0, MAX_SHEBANG_BYTES, 0);
+    const head = buffer.subarray(0, bytesRead).toString('utf-8');
+    if (!head.startsWith('#!')) {
+      return undefined;
+    }
+
+    let tokens = head.slice(2).split('\n')[0]!.trim().split(/\s+/).filter(Boolean);
+    // `#!/usr/bin/env [-S] node --flag`: spawn looks up PATH the same way env does
+    if (tokens[0] && basename(tokens[0]) === 'env') {
+      tokens = tokens.slice(tokens[1] === '-S' ? 2 : 1);
+    }
+    return tokens.length > 0 ? tokens : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) {
+      closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Detect the interpreter of a script from its extension, then its shebang
+ *
+ * @returns The interpreter with its arguments, or undefined to execute the script directly
+ */
+export function detectInterpreter(scriptPath: string): string[] | undefined {
+  const byExtension = INTERPRETERS_BY_EXTENSION[extname(scriptPath).toLowerCase()];
+  if (byExtension) {
+    return [byExtension];
+  }
+  return readShebang(scriptPath);
+}
+
+/**
+ * Check if an interpreter command runs Node.js
+ */
+export function isNodeInterpreter(command: string): boolean {
+  return command === process.execPath || NODE_INTERPRETERS.has(basename(command));
+}
+
+/**
+ * Check if a command is the Node.js binary itself (not a wrapper such as tsx)
+ */
+export function isNodeBinary(command: string): boolean {
+  return command === process.execPath || NODE_BINARIES.has(basename(command));
+}
+
+/**
+ * V8 old-space limit in MiB from `limits.maxOldSpaceSize`: `true` uses maxMemory
+ *
+ * @returns The limit, or undefined if none is configured
+ * @throws DaemonError if a size cannot be parsed
+ */
+export function resolveMaxOldSpaceSize(config: ProcessConfig): number | undefined {
+  const setting = config.limits?.maxOldSpaceSize;
+  if (setting === undefined || setting === false) {
+    return undefined;
+  }
+
+  const size = setting === true ? config.maxMemory : setting;
+  if (size === undefined) {
+    return undefined;
+  }
+  return Math.max(1, Math.floor(parseSize(size) / 1024 ** 2));
+}
+
+/**
+ * Build the command that runs a process instance:
+ * `<interpreter> [...interpreterArgs] <script> [...args]`, or
+ * `<script> [...args]` with `interpreter: 'none'`.
+ * `node` runs on the daemon's own Node.js binary, with --max-old-space-size
+ * when `limits.maxOldSpaceSize` is set.
+ *
+ * @param config - Process config
+ * @param scriptPath - Resolved script path
+ */
+export function resolveSpawnCommand(config: ProcessConfig, scriptPath: string): SpawnCommand {
+  const args = config.args ?? [];
+
+  const detected = config.interpreter ? [config.interpreter] : detectInterpreter(scriptPath);
+  if (!detected || detected[0] === NO_INTERPRETER) {
+    return { command: scriptPath, args, interpreterArgs: [], ipc: config.ipc ?? false };
+  }
+
+  const [interpreter, ...shebangArgs] = detected as [string, ...string[]];
+  const command = interpreter === 'node' ? process.execPath : interpreter;
+  const interpreterArgs = [...shebangArgs, ...(config.interpreterArgs ?? [])];
+
+  const maxOldSpaceSize = resolveMaxOldSpaceSize(config);
+  if (maxOldSpaceSize !== undefined && isNodeBinary(command) && !interpreterArgs.some((arg) => arg.startsWith('--max-old-space-size'))) {
+    interpreterArgs.unshift(`--max-old-space-size=${maxOldSpaceSize}`);
+  }
+
+  return {
+    command,
+    args: [...interpreterArgs, scriptPath, ...args],
+    interpreterArgs,
+    ipc: config.ipc ?? isNodeInterpreter(command),
+  };
+}
@@ -0,0 +1,153 @@
+import type { LogBufferConfig, ProcessLogEntry } from '../../../core/src/index.js';
+import { parseSize } from '../../../core/src/index.js';
+
+/**
+ * Lines kept per instance when logBuffer.lines is not configured
+ */
+export const DEFAULT_BUFFER_LINES = 100;
+
+/**
+ * Bytes kept per instance when logBuffer.bytes is not configured
+ */
+export const DEFAULT_BUFFER_BYTES = 64 * 1024;
+
+/**
+ * Resolved ring buffer limits
+ */
+export interface OutputBufferLimits {
+  lines: number;
+  bytes: number;
+}
+
+/**
+ * Resolve logBuffer config into limits, applying defaults
+ */
+export function resolveBufferLimits(config: LogBufferConfig | undefined): OutputBufferLimits {
+  return {
+    lines: Math.max(0, Math.floor(config?.lines ?? DEFAULT_BUFFER_LINES)),
+    bytes: config?.bytes !== undefined ? parseSize(config.bytes) : DEFAULT_BUFFER_BYTES,
+  };
+}
+
+/**
+ * Fixed-capacity ring buffer of the most recent output lines of one
+ * process instance, bounded both by line count and by message bytes.
+ * Oldest lines are evicted first.
+ *
+ * @example
+ * ```typescript
+ * const buffer = new OutputBuffer({ lines: 100, bytes: 64 * 1024 });
+ * buffer.push(entry);
+ * buffer.toArray(); // oldest first
+ * ```
+ */
+export class OutputBuffer {
+  private entries: Array<ProcessLogEntry | undefined>;
+  private sizes: number[];
+  private head = 0;
+  private count = 0;
+  private bytes = 0;
+  private limits: OutputBufferLimits;
+
+  constructor(limits: OutputBufferLimits) {
+    this.limits = limits;
+    this.entries = new Array<ProcessLogEntry | undefined>(limits.lines);
+    this.sizes = new Array<number>(limits.lines).fill(0);
+  }
+
+  /**
+   * Number of buffered lines
+   */
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Number of buffered message bytes
+   */
+  get byteLength(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Append a line, evicting the oldest ones to stay within limits.
+   * A message larger than the byte limit is truncated.
+   */
+  push(entry: ProcessLogEntry): void {
+    const capacity = this.limits.lines;
+    if (capacity === 0 || this.limits.bytes === 0) {
+      return;
+    }
+
+    let stored = entry;
+    let size = Buffer.byteLength(entry.message);
+    if (size > this.limits.bytes) {
+      const message = Buffer.from(entry.message).subarray(0, this.limits.bytes).toString('utf-8');
+      stored = { ...entry, message };
+      size = Buffer.byteLength(message);
+    }
+
+    while (this.count === capacity || (this.count > 0 && this.bytes + size > this.limits.bytes)) {
+      this.shift();
+    }
+
+    const index = (this.head + this.count) % capacity;
+    this.entries[index] = stored;
+    this.sizes[index] = size;
+    this.count++;
+    this.bytes += size;
+  }
+
+  /**
+   * Get buffered lines, oldest first
+   *
+   * @param lines - Only return the most recent lines
+   */
+  toArray(lines?: number): ProcessLogEntry[] {
+    const skip = lines !== undefined ? Math.max(this.count - lines, 0) : 0;
+    const result: ProcessLogEntry[] = [];
+
+    for (let i = skip; i < this.count; i++) {
+      result.push(this.entries[(this.head + i) % this.limits.lines]!);
+    }
+    return result;
+  }
+
+  /**
+   * Change the limits, keeping the most recent lines that still fit
+   */
+  resize(limits: OutputBufferLimits): void {
+    if (limits.lines === this.limits.lines && limits.bytes === this.limits.bytes) {
+      return;
+    }
+
+    const kept = this.toArray();
+    this.limits = limits;
+    this.clear();
+    for (const entry of kept) {
+      this.push(entry);
+    }
+  }
+
+  /**
+   * Drop all buffered lines
+   */
+  clear(): void {
+    this.entries = new Array<ProcessLogEntry | undefined>(this.limits.lines);
+    this.sizes = new Array<number>(this.limits.lines).fill(0);
+    this.head = 0;
+    this.count = 0;
+    this.bytes = 0;
+  }
+
+  /**
+   * Evict the oldest line
+   */
+  private shift(): void {
+    this.bytes -= this.sizes[this.head]!;
+    this.entries[this.head] = undefined;
+    this.sizes[this.head] = 0;
+    this.head = (this.head + 1) % this.limits.lines;
+    this.count--;
+  }
+}
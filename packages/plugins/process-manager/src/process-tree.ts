@@ -0,0 +1,124 @@
+import { readFileSync, readdirSync } from 'fs';
+
+/**
+ * Parent pid of every process, from /proc
+ */
+export type ProcessTable = Map<number, number>;
+
+/**
+ * Read the parent pid of every process in /proc
+ *
+ * @returns The table, empty where /proc is unavailable
+ */
+export function readProcessTable(): ProcessTable {
+  const table: ProcessTable = new Map();
+
+  let entries: string[];
+  try {
+    entries = readdirSync('/proc');
+  } catch {
+    return table;
+  }
+
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    const stat = readStat(Number(entry));
+    if (stat) {
+      table.set(Number(entry), stat.ppid);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Find all descendants of a process, breadth first
+ *
+ * @param pid - Root process
+ * @param table - Process table to walk (read from /proc when not given)
+ */
+export function getDescendants(pid: number, table: ProcessTable = readProcessTable()): number[] {
+  const children = new Map<number, number[]>();
+  for (const [child, parent] of table) {
+    const siblings = children.get(parent);
+    if (siblings) {
+      siblings.push(child);
+    } else {
+      children.set(parent, [child]);
+    }
+  }
+
+  const descendants: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      if (!descendants.includes(child)) {
+        descendants.push(child);
+        queue.push(child);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Check if a process is running. Zombies (exited, not yet reaped) are not.
+ */
+export function isProcessRunning(pid: number): boolean {
+  const stat = readStat(pid);
+  if (stat) {
+    return stat.state !== 'Z' && stat.state !== 'X';
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Send a signal to a process tree: the process group of `pid` when it leads
+ * one, then every known descendant individually (descendants may have left
+ * the group). Processes that are already gone are ignored.
+ *
+ * @param pid - Root process
+ * @param descendants - Descendants found before signalling; orphans are
+ *   reparented once the root exits and cannot be discovered afterwards
+ * @param group - Whether the root was spawned as a process group leader
+ */
+export function signalProcessTree(
+  pid: number,
+  signal: NodeJS.Signals,
+  descendants: number[],
+  group: boolean
+): void {
+  const targets = group && process.platform !== 'win32' ? [-pid, ...descendants] : [pid, ...descendants];
+
+  for (const target of targets) {
+    try {
+      process.kill(target, signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+/**
+ * Read state and parent pid from /proc/<pid>/stat
+ */
+function readStat(pid: number): { state: string; ppid: number } | undefined {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // Fields after the parenthesized command name: state, ppid, ...
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return { state: fields[0] ?? '', ppid: Number(fields[1]) };
+  } catch {
+    return undefined;
+  }
+}
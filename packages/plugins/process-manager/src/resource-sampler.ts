@@ -0,0 +1,225 @@
+import type { ProcessMetrics } from '../../../core/src/index.js';
+import { readFileSync, readdirSync } from 'fs';
+
+/**
+ * Sampling interval when not configured
+ */
+export const DEFAULT_SAMPLE_INTERVAL = 5000;
+
+/**
+ * Kernel clock ticks per second used by /proc/<pid>/stat (USER_HZ)
+ */
+export const CLOCK_TICKS = 100;
+
+/**
+ * CPU time of a process from /proc/<pid>/stat, in clock ticks
+ */
+export interface ProcCpuTimes {
+  user: number;
+  system: number;
+}
+
+/**
+ * Memory figures of a process from /proc/<pid>/status, in bytes
+ */
+export interface ProcMemory {
+  rss: number;
+  peakRss: number;
+  virtual: number;
+  swap: number;
+  threads: number;
+}
+
+/**
+ * Resource usage of one instance, or the sum over all instances of a process.
+ * CPU figures are percent of one core since the previous sample.
+ */
+export interface ResourceUsage {
+  cpu: number;
+  cpuUser: number;
+  cpuSystem: number;
+  memory: number;
+  peakMemory: number;
+  virtualMemory: number;
+  swap: number;
+  threads: number;
+  fds: number;
+  timestamp: number;
+}
+
+/**
+ * Read user and system CPU time from /proc/<pid>/stat
+ *
+ * @returns The times, or undefined if the process does not exist or /proc is unavailable
+ */
+export function readProcCpuTimes(pid: number): ProcCpuTimes | undefined {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // Fields after the parenthesized command name; utime and stime are fields 14 and 15
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const user = Number(fields[11]);
+    const system = Number(fields[12]);
+    return Number.isFinite(user) && Number.isFinite(system) ? { user, system } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read memory figures from /proc/<pid>/status
+ *
+ * @returns The figures, or undefined if the process does not exist or /proc is unavailable
+ */
+export function readProcMemory(pid: number): ProcMemory | undefined {
+  let status: string;
+  try {
+    status = readFileSync(`/proc/${pid}/status`, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  const kilobytes = (field: string): number => {
+    const match = new RegExp(`^${field}:\\s+(\\d+)\\s+kB`, 'm').exec(status);
+    return match ? Number(match[1]) * 1024 : 0;
+  };
+  const threads = /^Threads:\s+(\d+)/m.exec(status);
+
+  return {
+    rss: kilobytes('VmRSS'),
+    peakRss: kilobytes('VmHWM'),
+    virtual: kilobytes('VmSize'),
+    swap: kilobytes('VmSwap'),
+    threads: threads ? Number(threads[1]) : 0,
+  };
+}
+
+/**
+ * Count open file descriptors in /proc/<pid>/fd
+ */
+export function countProcFds(pid: number): number {
+  try {
+    return readdirSync(`/proc/${pid}/fd`).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Usage with every figure at zero
+ */
+export function emptyUsage(timestamp = Date.now()): ResourceUsage {
+  return {
+    cpu: 0,
+    cpuUser: 0,
+    cpuSystem: 0,
+    memory: 0,
+    peakMemory: 0,
+    virtualMemory: 0,
+    swap: 0,
+    threads: 0,
+    fds: 0,
+    timestamp,
+  };
+}
+
+/**
+ * Convert usage to the ProcessMetrics shape. Heap, event loop and request
+ * figures are only known inside the process and are reported as zero.
+ */
+export function toProcessMetrics(usage: ResourceUsage): ProcessMetrics {
+  return {
+    cpu: { percent: usage.cpu, user: usage.cpuUser, system: usage.cpuSystem },
+    memory: { rss: usage.memory, heapTotal: 0, heapUsed: 0, external: 0, arrayBuffers: 0 },
+    eventLoop: { latency: { p50: 0, p95: 0, p99: 0, max: 0 }, utilization: 0 },
+    handles: usage.fds,
+    requests: 0,
+  };
+}
+
+/**
+ * Samples CPU and memory usage of process instances from /proc.
+ * CPU percent is computed from the tick delta since the previous sample of
+ * the same pid, so the first sample of a pid reports 0% CPU.
+ *
+ * @example
+ * ```typescript
+ * const sampler = new ResourceSampler();
+ * const usage = sampler.sample([1234, 1235]);
+ * usage.cpu; // percent of one core, summed over both pids
+ * ```
+ */
+export class ResourceSampler {
+  private previous = new Map<number, { times: ProcCpuTimes; time: number }>();
+
+  /**
+   * Sample one instance
+   *
+   * @returns The usage, or undefined if the pid cannot be read
+   */
+  sampleInstance(pid: number, now = Date.now()): ResourceUsage | undefined {
+    const times = readProcCpuTimes(pid);
+    const memory = readProcMemory(pid);
+    if (!times || !memory) {
+      this.previous.delete(pid);
+      return undefined;
+    }
+
+    const usage: ResourceUsage = {
+      ...emptyUsage(now),
+      memory: memory.rss,
+      peakMemory: memory.peakRss,
+      virtualMemory: memory.virtual,
+      swap: memory.swap,
+      threads: memory.threads,
+      fds: countProcFds(pid),
+    };
+
+    const last = this.previous.get(pid);
+    if (last && now > last.time) {
+      const seconds = (now - last.time) / 1000;
+      usage.cpuUser = Math.max(0, ((times.user - last.times.user) / CLOCK_TICKS / seconds) * 100);
+      usage.cpuSystem = Math.max(0, ((times.system - last.times.system) / CLOCK_TICKS / seconds) * 100);
+      usage.cpu = usage.cpuUser + usage.cpuSystem;
+    }
+
+    this.previous.set(pid, { times, time: now });
+    return usage;
+  }
+
+  /**
+   * Sample all instances of a process and sum their usage
+   */
+  sample(pids: number[], now = Date.now()): ResourceUsage {
+    const total = emptyUsage(now);
+
+    for (const pid of pids) {
+      const usage = this.sampleInstance(pid, now);
+      if (!usage) {
+        continue;
+      }
+      total.cpu += usage.cpu;
+      total.cpuUser += usage.cpuUser;
+      total.cpuSystem += usage.cpuSystem;
+      total.memory += usage.memory;
+      total.peakMemory += usage.peakMemory;
+      total.virtualMemory += usage.virtualMemory;
+      total.swap += usage.swap;
+      total.threads += usage.threads;
+      total.fds += usage.fds;
+    }
+
+    return total;
+  }
+
+  /**
+   * Drop CPU history of pids that are no longer sampled
+   */
+  retain(pids: Iterable<number>): void {
+    const keep = new Set(pids);
+    for (const pid of Array.from(this.previous.keys())) {
+      if (!keep.has(pid)) {
+        this.previous.delete(pid);
+      }
+    }
+  }
+}
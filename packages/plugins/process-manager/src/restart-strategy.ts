@@ -0,0 +1,103 @@
+import type { CrashLoopConfig, ProcessConfig } from '../../../core/src/index.js';
+
+/**
+ * Delay before the first restart when restartDelay is not configured
+ */
+export const DEFAULT_RESTART_DELAY = 1000;
+
+/**
+ * Upper bound for linear and exponential delays when maxBackoffDelay is not configured
+ */
+export const DEFAULT_MAX_BACKOFF_DELAY = 30000;
+
+/**
+ * Consecutive restarts allowed when maxRestarts is not configured
+ */
+export const DEFAULT_MAX_RESTARTS = 10;
+
+/**
+ * Crash-loop detection defaults once enabled: 5 restarts within a minute pause restarts for 5 minutes
+ */
+export const DEFAULT_CRASH_LOOP: Required<CrashLoopConfig> = {
+  restarts: 5,
+  window: 60000,
+  cooldown: 300000,
+};
+
+/**
+ * Restart settings of a process config
+ */
+export type RestartPolicy = Pick<
+  ProcessConfig,
+  'restartDelay' | 'backoffStrategy' | 'backoffMultiplier' | 'maxBackoffDelay' | 'minUptime'
+>;
+
+/**
+ * Compute the delay before a restart
+ *
+ * - `fixed`: always `restartDelay`
+ * - `linear`: grows by `restartDelay * backoffMultiplier` (default 1) per attempt
+ * - `exponential`: multiplies by `backoffMultiplier` (default 2) per attempt,
+ *   then applies equal jitter (a random delay between half and the full value)
+ *
+ * Linear and exponential delays are capped at `maxBackoffDelay`.
+ *
+ * @param policy - Restart settings
+ * @param attempt - Consecutive restart number, starting at 1
+ * @param random - Random source in [0, 1) used for jitter
+ */
+export function computeRestartDelay(policy: RestartPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.max(0, policy.restartDelay ?? DEFAULT_RESTART_DELAY);
+  const step = Math.max(0, attempt - 1);
+  const strategy = policy.backoffStrategy ?? 'fixed';
+
+  if (strategy === 'fixed') {
+    return base;
+  }
+
+  const maxDelay = policy.maxBackoffDelay ?? Math.max(DEFAULT_MAX_BACKOFF_DELAY, base);
+
+  if (strategy === 'linear') {
+    const multiplier = policy.backoffMultiplier ?? 1;
+    return Math.min(base + base * multiplier * step, maxDelay);
+  }
+
+  const multiplier = policy.backoffMultiplier ?? 2;
+  const delay = Math.min(base * Math.pow(multiplier, step), maxDelay);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * Check if an instance stayed up long enough to reset its backoff.
+ * Without minUptime, no run counts as stable.
+ */
+export function isStableRun(policy: RestartPolicy, uptime: number): boolean {
+  return policy.minUptime !== undefined && uptime >= policy.minUptime;
+}
+
+/**
+ * Resolve crashLoop config, applying defaults. Detection is off unless
+ * crashLoop is true or an object.
+ *
+ * @returns The policy, or undefined if crash-loop detection is disabled
+ */
+export function resolveCrashLoopPolicy(config: CrashLoopConfig | boolean | undefined): Required<CrashLoopConfig> | undefined {
+  if (config === undefined || config === false) {
+    return undefined;
+  }
+  return { ...DEFAULT_CRASH_LOOP, ...(config === true ? {} : config) };
+}
+
+/**
+ * Record a restart in a sliding window of restart times, dropping the ones
+ * that fell out of the window
+ *
+ * @returns True if the restarts within the window reached the crash-loop limit
+ */
+export function recordRestart(history: number[], policy: Required<CrashLoopConfig>, now = Date.now()): boolean {
+  history.push(now);
+  while (history.length > 0 && history[0]! <= now - policy.window) {
+    history.shift();
+  }
+  return history.length >= policy.restarts;
+}
@@ -0,0 +1,154 @@
+import type { Plugin, PluginContext } from '../../../core/src/index.js';
+import { Logger, ProcessError } from '../../../core/src/index.js';
+import type { ProcessLimitEvent, ResourceLimitAction } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin, ResourceUsage } from '../../process-manager/src/index.js';
+import { LimitWatcher, resolveResourceLimits, type LimitBreach } from './limits.js';
+
+export {
+  resolveResourceLimits,
+  LimitWatcher,
+  DEFAULT_LIMIT_ACTION,
+  DEFAULT_MEMORY_GRACE_PERIOD,
+  DEFAULT_CPU_DURATION,
+  type ResolvedLimits,
+  type LimitBreach,
+} from './limits.js';
+
+/**
+ * Resource Limiter Plugin
+ * Compares each resource sample of the process manager with the process's
+ * maxMemory and maxCpu, and applies the configured action once memory stays
+ * above its limit for the grace period or CPU for the sustained duration
+ */
+export class ResourceLimiterPlugin implements Plugin {
+  name = 'resource-limiter';
+  version = '1.0.0';
+  description = 'Enforces memory and CPU limits of processes';
+  priority = 18;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  /** Watchers of processes with limits; null for processes without (or with invalid) limits */
+  private watchers = new Map<string, LimitWatcher | null>();
+
+  constructor() {
+    this.logger = new Logger('resource-limiter');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+
+    context.events.on('process:usage', (data) => {
+      const { name, usage } = data as { name: string; usage: ResourceUsage };
+      void this.check(name, usage);
+    });
+
+    // A (re)started or stopped process starts over with fresh counters and config
+    for (const event of ['process:started', 'process:stopped', 'process:exit', 'process:deleted']) {
+      context.events.on(event, (data) => {
+        this.watchers.delete((data as { name: string }).name);
+      });
+    }
+
+    this.logger.info('Resource limiter plugin installed');
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    this.watchers.clear();
+  }
+
+  /**
+   * Compare a resource sample with the limits of a process
+   */
+  async check(name: string, usage: ResourceUsage): Promise<void> {
+    const watcher = this.getWatcher(name);
+    if (!watcher) {
+      return;
+    }
+
+    for (const breach of watcher.update(usage, usage.timestamp)) {
+      await this.enforce(name, watcher.limits.action, breach);
+    }
+  }
+
+  /**
+   * Get the watcher of a process, creating it from the process config
+   */
+  private getWatcher(name: string): LimitWatcher | null {
+    const existing = this.watchers.get(name);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const config = this.getProcessManager()?.getProcess(name)?.config;
+    if (!config) {
+      return null;
+    }
+
+    let watcher: LimitWatcher | null = null;
+    try {
+      const limits = resolveResourceLimits(config);
+      watcher = limits ? new LimitWatcher(limits) : null;
+    } catch (err) {
+      this.logger.error(`Invalid resource limits for ${name}`, undefined, err as Error);
+    }
+    this.watchers.set(name, watcher);
+    return watcher;
+  }
+
+  /**
+   * Report a breached limit and apply the action
+   */
+  private async enforce(name: string, action: ResourceLimitAction, breach: LimitBreach): Promise<void> {
+    const error = new ProcessError(breach.code, name, this.describe(breach), {
+      value: breach.value,
+      limit: breach.limit,
+      duration: breach.duration,
+    });
+    this.logger.warn(error.message, { code: error.code, action });
+
+    const event: ProcessLimitEvent = { name, ...breach, action };
+    this.context.events.emit('process:limit-exceeded', event);
+
+    if (action === 'warn') {
+      return;
+    }
+
+    const processManager = this.getProcessManager();
+    if (!processManager) {
+      return;
+    }
+
+    try {
+      if (action === 'restart') {
+        await processManager.restart(name);
+      } else {
+        await processManager.stop(name);
+      }
+    } catch (err) {
+      this.logger.error(`Failed to ${action} process ${name} over its limit`, undefined, err as Error);
+    }
+  }
+
+  /**
+   * Describe a breach for logs
+   */
+  private describe(breach: LimitBreach): string {
+    if (breach.resource === 'memory') {
+      const mb = (bytes: number): string => `${(bytes / 1024 ** 2).toFixed(1)}MB`;
+      return `Memory ${mb(breach.value)} exceeds maxMemory ${mb(breach.limit)}`;
+    }
+    return `CPU ${breach.value.toFixed(1)}% exceeds maxCpu ${breach.limit}% for ${Math.round(breach.duration / 1000)}s`;
+  }
+
+  private getProcessManager(): ProcessManagerPlugin | undefined {
+    return this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+  }
+}
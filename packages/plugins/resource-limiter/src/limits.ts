@@ -0,0 +1,148 @@
+import type { ProcessConfig, ResourceLimitAction } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError, parseSize } from '../../../core/src/index.js';
+
+/**
+ * Defaults from the ResourceLimitsConfig specification
+ */
+export const DEFAULT_LIMIT_ACTION: ResourceLimitAction = 'restart';
+export const DEFAULT_MEMORY_GRACE_PERIOD = 0;
+export const DEFAULT_CPU_DURATION = 60000;
+
+const LIMIT_ACTIONS: readonly ResourceLimitAction[] = ['warn', 'restart', 'stop'];
+
+/**
+ * Limits of a process with sizes parsed and defaults applied
+ */
+export interface ResolvedLimits {
+  /** Bytes of RSS */
+  maxMemory?: number | undefined;
+  /** Percent of one core */
+  maxCpu?: number | undefined;
+  action: ResourceLimitAction;
+  memoryGracePeriod: number;
+  cpuDuration: number;
+}
+
+/**
+ * A limit the process has stayed above for its grace period or sustained duration
+ */
+export interface LimitBreach {
+  resource: 'memory' | 'cpu';
+  code: ErrorCode.MEMORY_LIMIT_EXCEEDED | ErrorCode.CPU_LIMIT_EXCEEDED;
+  value: number;
+  limit: number;
+  duration: number;
+}
+
+/**
+ * Resolve the maxMemory, maxCpu and limits settings of a process
+ *
+ * @returns The limits, or undefined if the process has neither maxMemory nor maxCpu
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid sizes, percentages or actions
+ */
+export function resolveResourceLimits(config: ProcessConfig): ResolvedLimits | undefined {
+  if (config.maxMemory === undefined && config.maxCpu === undefined) {
+    return undefined;
+  }
+
+  const invalid = (message: string): ProcessError =>
+    new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, config.name, message);
+
+  let maxMemory: number | undefined;
+  if (config.maxMemory !== undefined) {
+    try {
+      maxMemory = parseSize(config.maxMemory);
+    } catch {
+      throw invalid(`Invalid maxMemory: ${config.maxMemory}`);
+    }
+    if (maxMemory <= 0) {
+      throw invalid(`Invalid maxMemory: ${config.maxMemory}`);
+    }
+  }
+
+  if (config.maxCpu !== undefined && !(config.maxCpu > 0)) {
+    throw invalid(`Invalid maxCpu: ${config.maxCpu} (expected a percentage above 0)`);
+  }
+
+  const action = config.limits?.action ?? DEFAULT_LIMIT_ACTION;
+  if (!LIMIT_ACTIONS.includes(action)) {
+    throw invalid(`Invalid resource limit action: ${action}`);
+  }
+
+  return {
+    maxMemory,
+    maxCpu: config.maxCpu,
+    action,
+    memoryGracePeriod: config.limits?.memoryGracePeriod ?? DEFAULT_MEMORY_GRACE_PERIOD,
+    cpuDuration: config.limits?.cpuDuration ?? DEFAULT_CPU_DURATION,
+  };
+}
+
+/**
+ * Tracks how long a process has been above its limits across samples.
+ * Each excursion above a limit is reported once; the usage has to drop
+ * below the limit before it can be reported again.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new LimitWatcher(resolveResourceLimits(config)!);
+ * const breaches = watcher.update({ memory: usage.memory, cpu: usage.cpu });
+ * ```
+ */
+export class LimitWatcher {
+  private memorySince?: number | undefined;
+  private cpuSince?: number | undefined;
+  private memoryReported = false;
+  private cpuReported = false;
+
+  constructor(readonly limits: ResolvedLimits) {}
+
+  /**
+   * Record a sample
+   *
+   * @param usage - Bytes of RSS and percent of one core
+   * @returns The limits held for long enough with this sample
+   */
+  update(usage: { memory: number; cpu: number }, now = Date.now()): LimitBreach[] {
+    const breaches: LimitBreach[] = [];
+    const { maxMemory, maxCpu } = this.limits;
+
+    if (maxMemory !== undefined && usage.memory > maxMemory) {
+      this.memorySince ??= now;
+      const duration = now - this.memorySince;
+      if (!this.memoryReported && duration >= this.limits.memoryGracePeriod) {
+        this.memoryReported = true;
+        breaches.push({
+          resource: 'memory',
+          code: ErrorCode.MEMORY_LIMIT_EXCEEDED,
+          value: usage.memory,
+          limit: maxMemory,
+          duration,
+        });
+      }
+    } else {
+      this.memorySince = undefined;
+      this.memoryReported = false;
+    }
+
+    if (maxCpu !== undefined && usage.cpu > maxCpu) {
+      this.cpuSince ??= now;
+      const duration = now - this.cpuSince;
+      if (!this.cpuReported && duration >= this.limits.cpuDuration) {
+        this.cpuReported = true;
+        breaches.push({
+          resource: 'cpu',
+          code: ErrorCode.CPU_LIMIT_EXCEEDED,
+          value: usage.cpu,
+          limit: maxCpu,
+          duration,
+        });
+      }
+    } else {
+      this.cpuSince = undefined;
+      this.cpuReported = false;
+    }
+
+    return breaches;
+  }
+}
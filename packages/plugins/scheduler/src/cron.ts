@@ -0,0 +1,312 @@
+import type { CronConfig, CronOverlap, ProcessConfig } from '../../../core/src/index.js';
+import { DaemonError, ErrorCode, ProcessError } from '../../../core/src/index.js';
+
+const OVERLAPS: readonly CronOverlap[] = ['skip', 'replace'];
+
+const DEFAULT_RETRY_DELAY = 10000;
+const DEFAULT_HISTORY = 20;
+
+/**
+ * Years searched for the next run before a schedule is considered to never
+ * run again. Covers February 29 across the non-leap years 2100, 2200...
+ */
+const SEARCH_YEARS = 9;
+
+const HALF_DAY = 12 * 60 * 60 * 1000;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  /** Names of the values from min, e.g. JAN for 1 */
+  names?: string[];
+}
+
+const FIELDS: readonly CronField[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/**
+ * Parse one field of a cron expression: `*`, values, ranges `a-b`, any of
+ * them with a step `/n` (`a/n` runs from a to the maximum), and lists of them
+ *
+ * @returns Whether each value matches, indexed by value
+ */
+function parseField(text: string, field: CronField): boolean[] {
+  const matches = new Array<boolean>(field.max + 1).fill(false);
+
+  const parseValue = (value: string): number => {
+    const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+    if (index !== -1) {
+      return field.min + index;
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`invalid ${field.name} "${value}"`);
+    }
+    return Number(value);
+  };
+
+  for (const part of text.split(',')) {
+    const [range = '', stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw new Error(`invalid ${field.name} "${part}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      step = /^\d+$/.test(stepText) ? Number(stepText) : 0;
+      if (step < 1) {
+        throw new Error(`invalid step in ${field.name} "${part}"`);
+      }
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [start = '', end = ''] = range.split('-', 2);
+      from = parseValue(start);
+      to = parseValue(end);
+    } else {
+      from = parseValue(range);
+      to = stepText !== undefined ? field.max : from;
+    }
+
+    if (from < field.min || to > field.max || from > to) {
+      throw new Error(`${field.name} "${part}" is out of range ${field.min}-${field.max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      matches[value] = true;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * A parsed cron expression and the timezone it runs in
+ *
+ * @example
+ * ```typescript
+ * const schedule = new CronSchedule('30 2 * * 1-5', 'Europe/Paris');
+ * schedule.next(new Date()); // Next weekday at 02:30 in Paris
+ * ```
+ */
+export class CronSchedule {
+  readonly expression: string;
+  readonly timezone: string;
+
+  private seconds: boolean[];
+  private minutes: boolean[];
+  private hours: boolean[];
+  private daysOfMonth: boolean[];
+  private months: boolean[];
+  private daysOfWeek: boolean[];
+  /** Both day fields restricted: a day matches either of them, as in crontab */
+  private eitherDay: boolean;
+  private formatter: Intl.DateTimeFormat;
+
+  /**
+   * @param expression - 5 fields, 6 fields with seconds first, or a macro such as @daily
+   * @param timezone - IANA timezone, by default the timezone of this process
+   * @throws DaemonError (INVALID_ARGUMENT) for invalid expressions and timezones
+   */
+  constructor(expression: string, timezone?: string) {
+    this.expression = expression;
+
+    try {
+      this.formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new DaemonError(ErrorCode.INVALID_ARGUMENT, `Invalid timezone: ${timezone}`);
+    }
+    this.timezone = this.formatter.resolvedOptions().timeZone;
+
+    const trimmed = expression.trim();
+    const texts = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+    if (texts.length === 5) {
+      texts.unshift('0');
+    }
+
+    try {
+      if (texts.length !== 6) {
+        throw new Error('expected 5 or 6 fields or a macro');
+      }
+      const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = texts.map((text, i) =>
+        parseField(text, FIELDS[i]!)
+      ) as [boolean[], boolean[], boolean[], boolean[], boolean[], boolean[]];
+
+      daysOfWeek[0] ||= daysOfWeek[7]!;
+      this.seconds = seconds;
+      this.minutes = minutes;
+      this.hours = hours;
+      this.daysOfMonth = daysOfMonth;
+      this.months = months;
+      this.daysOfWeek = daysOfWeek;
+      this.eitherDay = !texts[3]!.startsWith('*') && !texts[5]!.startsWith('*');
+    } catch (err) {
+      throw new DaemonError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid cron expression "${expression}": ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Get the first time after a date that matches the schedule. Times skipped
+   * by a daylight saving change do not run; times repeated by one run once.
+   *
+   * @returns The time, or undefined if the schedule never matches again
+   */
+  next(after: Date): Date | undefined {
+    // Wall clock time in the timezone, as a UTC date
+    const wall = new Date(this.wallTime(after.getTime()) + 1000);
+    const lastYear = wall.getUTCFullYear() + SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= lastYear) {
+      if (!this.months[wall.getUTCMonth() + 1]) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!this.hours[wall.getUTCHours()]) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      } else if (!this.minutes[wall.getUTCMinutes()]) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      } else if (!this.seconds[wall.getUTCSeconds()]) {
+        wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+      } else {
+        const instant = this.toInstant(wall.getTime());
+        if (instant !== undefined && instant > after.getTime()) {
+          return new Date(instant);
+        }
+        wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+      }
+    }
+
+    return undefined;
+  }
+
+  private matchesDay(wall: Date): boolean {
+    const dayOfMonth = this.daysOfMonth[wall.getUTCDate()]!;
+    const dayOfWeek = this.daysOfWeek[wall.getUTCDay()]!;
+    return this.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Get the wall clock time of an instant in the timezone, to the second,
+   * as epoch milliseconds of the same fields in UTC
+   */
+  private wallTime(instant: number): number {
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter.formatToParts(instant)) {
+      parts[part.type] = Number(part.value);
+    }
+    return Date.UTC(parts['year']!, parts['month']! - 1, parts['day'], parts['hour'], parts['minute'], parts['second']);
+  }
+
+  /**
+   * Get the instant of a wall clock time in the timezone, the earlier one if
+   * it occurs twice
+   *
+   * @returns The instant, or undefined if the time does not exist
+   */
+  private toInstant(wall: number): number | undefined {
+    // The offsets half a day around are those before and after any change
+    const instants = [wall - HALF_DAY, wall + HALF_DAY]
+      .map((around) => wall - (this.wallTime(around) - around))
+      .filter((instant) => this.wallTime(instant) === wall);
+    return instants.length > 0 ? Math.min(...instants) : undefined;
+  }
+}
+
+/**
+ * Cron settings of a process, validated
+ */
+export interface ResolvedCron {
+  schedule: CronSchedule;
+  overlap: CronOverlap;
+  retries: number;
+  retryDelay: number;
+  history: number;
+}
+
+/**
+ * Resolve the cron setting of a process
+ *
+ * @returns The settings, or undefined if cron is not configured
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid settings
+ */
+export function resolveCron(config: ProcessConfig): ResolvedCron | undefined {
+  if (config.cron === undefined) {
+    return undefined;
+  }
+
+  const cron: CronConfig = typeof config.cron === 'string' ? { schedule: config.cron } : config.cron;
+  const invalid = (message: string): ProcessError =>
+    new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, config.name, message);
+
+  if (typeof cron.schedule !== 'string') {
+    throw invalid('cron.schedule is required');
+  }
+  let schedule: CronSchedule;
+  try {
+    schedule = new CronSchedule(cron.schedule, cron.timezone);
+  } catch (err) {
+    throw invalid((err as Error).message);
+  }
+  if (!schedule.next(new Date())) {
+    throw invalid(`Cron expression "${cron.schedule}" never matches`);
+  }
+
+  const overlap = cron.overlap ?? 'skip';
+  if (!OVERLAPS.includes(overlap)) {
+    throw invalid(`Invalid cron.overlap: ${overlap} (expected one of ${OVERLAPS.join(', ')})`);
+  }
+  const retries = cron.retries ?? 0;
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw invalid(`Invalid cron.retries: ${retries}`);
+  }
+  const retryDelay = cron.retryDelay ?? DEFAULT_RETRY_DELAY;
+  if (!Number.isFinite(retryDelay) || retryDelay < 0) {
+    throw invalid(`Invalid cron.retryDelay: ${retryDelay}`);
+  }
+  const history = cron.history ?? DEFAULT_HISTORY;
+  if (!Number.isInteger(history) || history < 1) {
+    throw invalid(`Invalid cron.history: ${history}`);
+  }
+
+  return { schedule, overlap, retries, retryDelay, history };
+}
@@ -0,0 +1,265 @@
+import type { CronRun, CronTrigger, Plugin, PluginContext, ProcessSchedule } from '../../../core/src/index.js';
+import { Logger } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin } from '../../process-manager/src/index.js';
+import { resolveCron, type ResolvedCron } from './cron.js';
+
+export { CronSchedule, resolveCron, type ResolvedCron } from './cron.js';
+
+/**
+ * Longest delay of a timer; later runs are waited for in steps
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Scheduling state of a cron process
+ */
+interface CronJob {
+  cron: ResolvedCron;
+  nextRun?: Date | undefined;
+  timer?: NodeJS.Timeout | undefined;
+  retryTimer?: NodeJS.Timeout | undefined;
+  /** Runs oldest first, up to cron.history */
+  history: CronRun[];
+  /** The run in progress */
+  current?: CronRun | undefined;
+  /** Run being started by the scheduler, recorded once the process starts */
+  pending?: { trigger: CronTrigger; attempt: number } | undefined;
+}
+
+/**
+ * Scheduler Plugin
+ * Runs processes with cron on their schedule. The process manager registers
+ * them without starting them; each run starts the process and ends when it
+ * exits. Runs started otherwise, e.g. with a restart, are recorded as manual.
+ */
+export class SchedulerPlugin implements Plugin {
+  name = 'scheduler';
+  version = '1.0.0';
+  description = 'Runs processes on cron schedules';
+  priority = 17;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  private jobs = new Map<string, CronJob>();
+
+  constructor() {
+    this.logger = new Logger('scheduler');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+
+    context.events.on('process:registered', (data) => {
+      this.schedule((data as { name: string }).name);
+    });
+
+    context.events.on('process:deleted', (data) => {
+      this.unschedule((data as { name: string }).name);
+    });
+
+    context.events.on('process:started', (data) => {
+      this.recordStart((data as { name: string }).name);
+    });
+
+    context.events.on('process:exit', (data) => {
+      const { name, code, signal } = data as { name: string; code: number | null; signal: string | null };
+      this.recordExit(name, code, signal);
+    });
+
+    this.logger.info('Scheduler plugin installed');
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    for (const name of Array.from(this.jobs.keys())) {
+      this.unschedule(name);
+    }
+  }
+
+  /**
+   * Get the scheduling state of a cron process
+   *
+   * @returns The state, or undefined if the process is not scheduled
+   */
+  getSchedule(name: string): ProcessSchedule | undefined {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return undefined;
+    }
+    return {
+      schedule: job.cron.schedule.expression,
+      timezone: job.cron.schedule.timezone,
+      nextRun: job.nextRun?.toISOString(),
+      history: job.history.map((run) => ({ ...run })),
+    };
+  }
+
+  /**
+   * Schedule a registered process from its config, keeping its history
+   */
+  private schedule(name: string): void {
+    const history = this.jobs.get(name)?.history ?? [];
+    this.unschedule(name);
+
+    const proc = this.getProcessManager()?.getProcess(name);
+    if (!proc) {
+      return;
+    }
+
+    let cron: ResolvedCron | undefined;
+    try {
+      cron = resolveCron(proc.config);
+    } catch (err) {
+      this.logger.error(`Invalid cron config for ${name}`, undefined, err as Error);
+      return;
+    }
+    if (!cron) {
+      return;
+    }
+
+    this.jobs.set(name, { cron, history: history.slice(-cron.history) });
+    this.plan(name);
+    this.logger.info(`Scheduled ${name}`, {
+      schedule: cron.schedule.expression,
+      timezone: cron.schedule.timezone,
+      nextRun: this.jobs.get(name)!.nextRun?.toISOString(),
+    });
+  }
+
+  private unschedule(name: string): void {
+    const job = this.jobs.get(name);
+    if (job) {
+      clearTimeout(job.timer);
+      clearTimeout(job.retryTimer);
+      this.jobs.delete(name);
+    }
+  }
+
+  /**
+   * Set the timer of the next scheduled run
+   */
+  private plan(name: string): void {
+    const job = this.jobs.get(name)!;
+    clearTimeout(job.timer);
+    job.timer = undefined;
+
+    const nextRun = job.cron.schedule.next(new Date());
+    job.nextRun = nextRun;
+    if (!nextRun) {
+      return;
+    }
+
+    job.timer = setTimeout(() => {
+      if (Date.now() >= nextRun.getTime()) {
+        clearTimeout(job.retryTimer);
+        void this.run(name, 'schedule', 1);
+      }
+      this.plan(name);
+    }, Math.min(nextRun.getTime() - Date.now(), MAX_TIMER_DELAY));
+    job.timer.unref();
+  }
+
+  /**
+   * Start a run, unless the previous run is still running and overlaps are skipped
+   */
+  private async run(name: string, trigger: CronTrigger, attempt: number): Promise<void> {
+    const job = this.jobs.get(name);
+    const processManager = this.getProcessManager();
+    const proc = processManager?.getProcess(name);
+    if (!job || !processManager || !proc) {
+      return;
+    }
+
+    if (proc.status !== 'stopped' && proc.status !== 'errored') {
+      if (job.cron.overlap === 'skip') {
+        this.logger.warn(`Skipping run of ${name}: the previous run is still running`);
+        this.record(job, { trigger, attempt, status: 'skipped', startedAt: new Date().toISOString() });
+        return;
+      }
+      this.logger.info(`Replacing the running run of ${name}`);
+    }
+
+    this.logger.info(`Running ${name}`, { trigger, attempt });
+    job.pending = { trigger, attempt };
+    try {
+      await processManager.restart(name);
+    } catch (err) {
+      if (job.pending) {
+        job.pending = undefined;
+        const now = new Date().toISOString();
+        const message = (err as Error).message;
+        this.record(job, { trigger, attempt, status: 'failed', startedAt: now, finishedAt: now, message });
+        this.logger.error(`Failed to start run of ${name}`, undefined, err as Error);
+        this.retry(name, job, attempt);
+      }
+    }
+  }
+
+  private recordStart(name: string): void {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return;
+    }
+
+    const { trigger, attempt } = job.pending ?? { trigger: 'manual' as const, attempt: 1 };
+    job.pending = undefined;
+    job.current = { trigger, attempt, status: 'running', startedAt: new Date().toISOString() };
+    this.record(job, job.current);
+  }
+
+  private recordExit(name: string, code: number | null, signal: string | null): void {
+    const job = this.jobs.get(name);
+    const run = job?.current;
+    if (!job || !run) {
+      return;
+    }
+    job.current = undefined;
+
+    const finishedAt = new Date();
+    run.finishedAt = finishedAt.toISOString();
+    run.duration = finishedAt.getTime() - new Date(run.startedAt).getTime();
+    run.code = code;
+    run.signal = signal;
+
+    // Runs that were stopped exit without the process erroring
+    const errored = this.getProcessManager()?.getProcess(name)?.status === 'errored';
+    run.status = code === 0 ? 'succeeded' : errored ? 'failed' : 'stopped';
+
+    if (run.status === 'failed') {
+      this.logger.warn(`Run of ${name} failed`, { code, signal, attempt: run.attempt });
+      this.retry(name, job, run.attempt);
+    }
+  }
+
+  /**
+   * Retry a failed run after the retry delay, if retries are left
+   */
+  private retry(name: string, job: CronJob, attempt: number): void {
+    if (attempt > job.cron.retries) {
+      return;
+    }
+    clearTimeout(job.retryTimer);
+    job.retryTimer = setTimeout(() => {
+      job.retryTimer = undefined;
+      void this.run(name, 'retry', attempt + 1);
+    }, job.cron.retryDelay);
+    job.retryTimer.unref();
+  }
+
+  private record(job: CronJob, run: CronRun): void {
+    job.history.push(run);
+    if (job.history.length > job.cron.history) {
+      job.history.shift();
+    }
+  }
+
+  private getProcessManager(): ProcessManagerPlugin | undefined {
+    return this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Characters that make a path segment a pattern
+ */
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths with
+ * `/` separators
+ *
+ * - `*` matches any characters but `/`, `?` one of them
+ * - `**` as a whole segment matches any number of segments, including none
+ * - `[abc]`, `[a-z]` and `[!abc]` match one character of (or not of) a set
+ * - `{a,b}` matches either alternative; alternatives may nest
+ * - `\` escapes the next character
+ *
+ * @example
+ * ```typescript
+ * globToRegExp('src/*.{js,ts}').test('src/index.ts'); // true
+ * ```
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    switch (char) {
+      case '\\':
+        i++;
+        source += escapeRegExp(pattern[i] ?? '\\');
+        break;
+
+      case '*': {
+        const atStart = i === 0 || pattern[i - 1] === '/';
+        if (pattern[i + 1] === '*' && atStart && (i + 2 === pattern.length || pattern[i + 2] === '/')) {
+          // `**/` matches any leading segments, a trailing `**` anything
+          if (i + 2 === pattern.length) {
+            source += '.*';
+          } else {
+            source += '(?:.*/)?';
+          }
+          i += 2;
+        } else {
+          source += '[^/]*';
+          while (pattern[i + 1] === '*') {
+            i++;
+          }
+        }
+        break;
+      }
+
+      case '?':
+        source += '[^/]';
+        break;
+
+      case '[': {
+        const end = pattern.indexOf(']', i + 2);
+        if (end === -1) {
+          source += '\\[';
+          break;
+        }
+        let set = pattern.slice(i + 1, end);
+        const negated = set.startsWith('!') || set.startsWith('^');
+        if (negated) {
+          set = set.slice(1);
+        }
+        source += `[${negated ? '^/' : ''}${set.replace(/[\\\]^]/g, '\\$&')}]`;
+        i = end;
+        break;
+      }
+
+      case '{':
+        braces++;
+        source += '(?:';
+        break;
+
+      case '}':
+        if (braces > 0) {
+          braces--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+
+      case ',':
+        source += braces > 0 ? '|' : ',';
+        break;
+
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  source += ')'.repeat(braces);
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Create a function telling whether a relative path with `/` separators
+ * matches any of the patterns. A pattern matches a path or any of its
+ * parent directories, so `src` matches everything under it. A pattern
+ * without `/` matches by name at any depth, e.g. `node_modules` or `*.log`,
+ * and `.` matches everything.
+ */
+export function createMatcher(patterns: string[]): (path: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    const normalized = normalizePath(pattern);
+    if (normalized === '.') {
+      return { regexp: /^/, byName: false };
+    }
+    return { regexp: globToRegExp(normalized), byName: !normalized.includes('/') };
+  });
+
+  return (path: string): boolean => {
+    const segments = normalizePath(path).split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const name = segments[i - 1]!;
+      const prefix = segments.slice(0, i).join('/');
+      if (matchers.some(({ regexp, byName }) => regexp.test(byName ? name : prefix))) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Get the directory a pattern can match under: its leading segments that
+ * are not patterns, or `.`
+ */
+export function globBase(pattern: string): string {
+  const segments = normalizePath(pattern).split('/');
+  const index = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = (index === -1 ? segments : segments.slice(0, index)).join('/');
+  return base === '' && pattern.startsWith('/') ? '/' : base || '.';
+}
+
+/**
+ * Drop `./` prefixes and trailing separators
+ */
+function normalizePath(path: string): string {
+  return path.replace(/^(\.\/)+/, '').replace(/(.)\/+$/, '$1');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,210 @@
+import type { Plugin, PluginContext } from '../../../core/src/index.js';
+import { Logger, DaemonError, ErrorCode, ProcessError } from '../../../core/src/index.js';
+import type { ProcessConfig } from '../../../core/src/index.js';
+import type { ProcessManagerPlugin } from '../../process-manager/src/index.js';
+import { FileWatcher, resolveWatch, type ResolvedWatch } from './watcher.js';
+
+export { globToRegExp, createMatcher, globBase } from './glob.js';
+export { FileWatcher, resolveWatch, DEFAULT_WATCH_IGNORE, type ResolvedWatch } from './watcher.js';
+
+/**
+ * Watch state of a process
+ */
+interface ProcessWatch {
+  /** Config the watcher was created from */
+  config: ProcessConfig;
+  settings: ResolvedWatch;
+  watcher: FileWatcher;
+  /** Pending restart, debounced by settings.delay */
+  timer?: NodeJS.Timeout | undefined;
+  /** Paths changed since the last restart */
+  changes: Set<string>;
+}
+
+/**
+ * Result of the watch method
+ */
+export interface WatchResult {
+  name: string;
+  watching: boolean;
+}
+
+/**
+ * Watch Mode Plugin
+ * Restarts processes with watch mode when files they watch change. Changes
+ * are debounced, and processes stopped on purpose are not restarted.
+ */
+export class WatchModePlugin implements Plugin {
+  name = 'watch-mode';
+  version = '1.0.0';
+  description = 'Restarts processes when their files change';
+  priority = 21;
+  dependencies = ['process-manager'];
+
+  private context!: PluginContext;
+  private logger: Logger;
+  private watches = new Map<string, ProcessWatch>();
+  /** Watch mode turned on or off at runtime, overriding the config */
+  private overrides = new Map<string, boolean>();
+
+  constructor() {
+    this.logger = new Logger('watch-mode');
+  }
+
+  /**
+   * Install the plugin
+   */
+  install(context: PluginContext): void {
+    this.context = context;
+
+    context.registerMethod('watch', this.setWatch.bind(this));
+
+    context.events.on('process:started', (data) => {
+      this.update((data as { name: string }).name);
+    });
+
+    context.events.on('process:deleted', (data) => {
+      const { name } = data as { name: string };
+      this.unwatch(name);
+      this.overrides.delete(name);
+    });
+
+    this.logger.info('Watch mode installed');
+  }
+
+  /**
+   * Stop the plugin
+   */
+  async onStop(): Promise<void> {
+    for (const name of Array.from(this.watches.keys())) {
+      this.unwatch(name);
+    }
+  }
+
+  /**
+   * Check if a process is watched
+   */
+  isWatching(name: string): boolean {
+    return this.watches.has(name);
+  }
+
+  /**
+   * Turn watch mode of a process on or off until it is deleted
+   *
+   * @throws ProcessError (PROCESS_NOT_FOUND) if the process does not exist
+   */
+  private async setWatch(params: { name: string; enabled: boolean }): Promise<WatchResult> {
+    if (typeof params.enabled !== 'boolean') {
+      throw new DaemonError(ErrorCode.INVALID_ARGUMENT, 'enabled must be true or false');
+    }
+    if (!this.getProcessManager()?.getProcess(params.name)) {
+      throw new ProcessError(ErrorCode.PROCESS_NOT_FOUND, params.name, `Process "${params.name}" not found`);
+    }
+
+    this.overrides.set(params.name, params.enabled);
+    this.update(params.name);
+    return { name: params.name, watching: this.isWatching(params.name) };
+  }
+
+  /**
+   * Watch a process as its config and the override say, keeping the
+   * current watcher if they did not change
+   */
+  private update(name: string): void {
+    const proc = this.getProcessManager()?.getProcess(name);
+    if (!proc) {
+      return;
+    }
+
+    let settings: ResolvedWatch | undefined;
+    try {
+      settings = resolveWatch(proc.config, this.overrides.get(name));
+    } catch (err) {
+      this.logger.error(`Invalid watch config for ${name}`, undefined, err as Error);
+    }
+
+    const current = this.watches.get(name);
+    if (current && settings && current.config === proc.config) {
+      return;
+    }
+    this.unwatch(name);
+    if (!settings) {
+      return;
+    }
+
+    const watch: ProcessWatch = {
+      config: proc.config,
+      settings,
+      watcher: new FileWatcher(settings, (path) => this.handleChange(name, watch, path)),
+      changes: new Set(),
+    };
+    watch.watcher.start();
+    this.watches.set(name, watch);
+    this.logger.info(`Watching ${name}`, { cwd: settings.cwd, paths: settings.paths, watchers: watch.watcher.size });
+  }
+
+  private unwatch(name: string): void {
+    const watch = this.watches.get(name);
+    if (watch) {
+      clearTimeout(watch.timer);
+      watch.watcher.close();
+      this.watches.delete(name);
+      this.logger.info(`Stopped watching ${name}`);
+    }
+  }
+
+  private handleChange(name: string, watch: ProcessWatch, path: string): void {
+    watch.changes.add(path);
+    this.schedule(name, watch);
+  }
+
+  /**
+   * Restart the process once no change happened for the delay
+   */
+  private schedule(name: string, watch: ProcessWatch): void {
+    clearTimeout(watch.timer);
+    watch.timer = setTimeout(() => {
+      watch.timer = undefined;
+      void this.restart(name, watch);
+    }, watch.settings.delay);
+    watch.timer.unref();
+  }
+
+  /**
+   * Restart a watched process, unless it was stopped. Processes in the middle
+   * of a start, stop, reload or scale are restarted once it is done.
+   */
+  private async restart(name: string, watch: ProcessWatch): Promise<void> {
+    const processManager = this.getProcessManager();
+    const proc = processManager?.getProcess(name);
+    if (!processManager || !proc || this.watches.get(name) !== watch) {
+      return;
+    }
+
+    if (proc.status === 'stopped') {
+      watch.changes.clear();
+      return;
+    }
+    if (proc.status !== 'online' && proc.status !== 'errored' && proc.status !== 'crashloop') {
+      this.schedule(name, watch);
+      return;
+    }
+
+    const changes = Array.from(watch.changes);
+    watch.changes.clear();
+    this.logger.info(`Restarting ${name}: ${changes.length} file(s) changed`, { files: changes.slice(0, 10) });
+    if (watch.settings.clearConsole) {
+      processManager.clearRecentLogs(name);
+    }
+
+    try {
+      await processManager.restart(name);
+    } catch (err) {
+      this.logger.error(`Failed to restart ${name} after changes`, undefined, err as Error);
+    }
+  }
+
+  private getProcessManager(): ProcessManagerPlugin | undefined {
+    return this.context.getPlugin<ProcessManagerPlugin>('process-manager');
+  }
+}
@@ -0,0 +1,197 @@
+import { watch, readdirSync, statSync, type FSWatcher } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { ProcessConfig, WatchConfig } from '../../../core/src/index.js';
+import { ErrorCode, ProcessError } from '../../../core/src/index.js';
+import { createMatcher, globBase } from './glob.js';
+
+/**
+ * Ignored in addition to the ignore setting
+ */
+export const DEFAULT_WATCH_IGNORE = ['node_modules', '.git', '.hg', '.svn', '.DS_Store', '*.log', '*.swp', '*~'];
+
+const DEFAULT_WATCH_DELAY = 500;
+
+/**
+ * Watch settings of a process, validated
+ */
+export interface ResolvedWatch {
+  /** Directory relative patterns are resolved against: the cwd of the process */
+  cwd: string;
+  paths: string[];
+  /** Configured patterns and the defaults */
+  ignore: string[];
+  delay: number;
+  clearConsole: boolean;
+}
+
+/**
+ * Resolve the watch setting of a process. Without paths, the cwd of the
+ * process is watched.
+ *
+ * @param enabled - Turned on or off at runtime, overriding the setting
+ * @returns The settings, or undefined if watching is off
+ * @throws ProcessError (PROCESS_INVALID_CONFIG) for invalid settings
+ */
+export function resolveWatch(config: ProcessConfig, enabled?: boolean): ResolvedWatch | undefined {
+  const setting = config.watch;
+  if (enabled === false || (!setting && enabled !== true)) {
+    return undefined;
+  }
+
+  const watchConfig: Partial<WatchConfig> = typeof setting === 'object' ? setting : {};
+  const invalid = (message: string): ProcessError =>
+    new ProcessError(ErrorCode.PROCESS_INVALID_CONFIG, config.name, message);
+  const isPatterns = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((pattern) => typeof pattern === 'string' && pattern !== '');
+
+  const paths = watchConfig.paths ?? [];
+  if (!isPatterns(paths)) {
+    throw invalid('Invalid watch.paths (expected paths or glob patterns)');
+  }
+  const ignore = watchConfig.ignore ?? [];
+  if (!isPatterns(ignore)) {
+    throw invalid('Invalid watch.ignore (expected paths or glob patterns)');
+  }
+  const delay = watchConfig.delay ?? DEFAULT_WATCH_DELAY;
+  if (!Number.isFinite(delay) || delay < 0) {
+    throw invalid(`Invalid watch.delay: ${delay}`);
+  }
+
+  return {
+    cwd: config.cwd ? resolve(config.cwd) : dirname(resolve(config.script)),
+    paths: paths.length > 0 ? paths : ['.'],
+    ignore: [...DEFAULT_WATCH_IGNORE, ...ignore],
+    delay,
+    clearConsole: watchConfig.clearConsole ?? false,
+  };
+}
+
+/**
+ * Watches the files matching the watch paths of a process. Each directory
+ * that may hold a match is watched with fs.watch, except ignored ones, and
+ * directories are added and removed as they appear and disappear.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new FileWatcher(resolveWatch(config)!, (path) => console.log(`${path} changed`));
+ * watcher.start();
+ * ```
+ */
+export class FileWatcher {
+  private settings: ResolvedWatch;
+  private onChange: (path: string) => void;
+  private includes: (path: string) => boolean;
+  private excludes: (path: string) => boolean;
+  /** Watchers by absolute path */
+  private watchers = new Map<string, FSWatcher>();
+
+  /**
+   * @param onChange - Called with the path, relative to the cwd, of each change
+   */
+  constructor(settings: ResolvedWatch, onChange: (path: string) => void) {
+    this.settings = settings;
+    this.onChange = onChange;
+    this.includes = createMatcher(settings.paths.map((pattern) => this.toRelative(pattern)));
+    this.excludes = createMatcher(settings.ignore.map((pattern) => this.toRelative(pattern)));
+  }
+
+  /**
+   * Number of watched directories and files
+   */
+  get size(): number {
+    return this.watchers.size;
+  }
+
+  /**
+   * Start watching
+   */
+  start(): void {
+    for (const pattern of this.settings.paths) {
+      this.watchTree(resolve(this.settings.cwd, globBase(this.toRelative(pattern))));
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Watch a file, or a directory and the directories under it
+   */
+  private watchTree(path: string): void {
+    if (this.watchers.has(path) || (path !== this.settings.cwd && this.excludes(this.toRelative(path)))) {
+      return;
+    }
+
+    let watcher: FSWatcher;
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(path).isDirectory();
+      watcher = watch(path, (_event, filename) => {
+        this.handleChange(isDirectory && filename ? join(path, filename.toString()) : path);
+      });
+    } catch {
+      // Gone already, or no watches left
+      return;
+    }
+    watcher.on('error', () => this.unwatchTree(path));
+    this.watchers.set(path, watcher);
+
+    if (!isDirectory) {
+      return;
+    }
+    try {
+      for (const entry of readdirSync(path, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          this.watchTree(join(path, entry.name));
+        }
+      }
+    } catch {
+      // Removed meanwhile; its watcher reports the change
+    }
+  }
+
+  private unwatchTree(path: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === path || watched.startsWith(path + sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private handleChange(path: string): void {
+    const relativePath = this.toRelative(path);
+    if (this.excludes(relativePath)) {
+      return;
+    }
+
+    let isDirectory = false;
+    try {
+      isDirectory = statSync(path).isDirectory();
+    } catch {
+      this.unwatchTree(path);
+    }
+    if (isDirectory && !this.watchers.has(path)) {
+      this.watchTree(path);
+    }
+
+    if (this.includes(relativePath)) {
+      this.onChange(relativePath);
+    }
+  }
+
+  /**
+   * Make a path relative to the cwd, with `/` separators
+   */
+  private toRelative(path: string): string {
+    const relativePath = isAbsolute(path) ? relative(this.settings.cwd, path) : path;
+    return relativePath.split(sep).join('/') || '.';
+  }
+}
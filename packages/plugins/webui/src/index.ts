@@ -395,6 +395,32 @@ export class WebuiPlugin implements Plugin {
         return;
       }
 
+      const logsMatch = /^\/api\/v1\/processes\/([^/?]+)\/logs(?:\?(.*))?$/.exec(url);
+      if (logsMatch && method === 'GET') {
+        const name = decodeURIComponent(logsMatch[1]!);
+        const lines = Number(new URLSearchParams(logsMatch[2] ?? '').get('lines') ?? NaN);
+
+        const processManager = this.context!.getPlugin<{
+          getRecentLogs: (name: string, lines?: number) => unknown[] | undefined;
+        }>('process-manager');
+        if (!processManager) {
+          res.writeHead(503);
+          res.end(JSON.stringify({ error: 'Process manager not available' }));
+          return;
+        }
+
+        const logs = processManager.getRecentLogs(name, Number.isInteger(lines) && lines >= 0 ? lines : undefined);
+        if (!logs) {
+          res.writeHead(404);
+          res.end(JSON.stringify({ error: `Process "${name}" not found` }));
+          return;
+        }
+
+        res.writeHead(200);
+        res.end(JSON.stringify(logs));
+        return;
+      }
+
       if (url === '/api/daemon' && method === 'GET') {
         res.writeHead(200);
         res.end(JSON.stringify({
@@ -510,6 +536,7 @@ export class WebuiPlugin implements Plugin {
     }
     .status-online { color: #10b981; }
     .status-offline { color: #ef4444; }
+    .status-crashloop { color: #d946ef; font-weight: 600; }
     button {
       background: #3b82f6;
       color: white;
@@ -1,5 +1,8 @@
 // Runtime metrics and monitoring
 
+import { monitorEventLoopDelay } from 'perf_hooks';
+import type { Server, Socket } from 'net';
+
 /**
  * Metric types
  */
@@ -208,6 +211,20 @@ class MetricsRegistry {
     return histogram;
   }
 
+  /**
+   * Current values of counters and gauges without labels, by name
+   */
+  snapshot(): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const [name, counter] of this.counters) {
+      values[name] = counter.get();
+    }
+    for (const [name, gauge] of this.gauges) {
+      values[name] = gauge.get();
+    }
+    return values;
+  }
+
   /**
    * Reset all metrics
    */
@@ -222,3 +239,88 @@ class MetricsRegistry {
  * Global metrics registry
  */
 export const metrics = new MetricsRegistry();
+
+/**
+ * Message an instance sends to the daemon with its metrics
+ */
+export interface MetricsMessage {
+  type: 'od:metrics';
+  metrics: Record<string, number>;
+}
+
+/**
+ * Report the global registry (counters and gauges without labels) and the
+ * mean event loop delay in milliseconds as `eventLoopLatency` to the daemon,
+ * e.g. for auto-scaling rules. Does nothing outside a process started by the
+ * daemon with an IPC channel.
+ *
+ * @param interval - Milliseconds between reports
+ * @returns Function that stops reporting
+ */
+export function reportMetrics(interval = 5000): () => void {
+  if (!process.send) {
+    return () => {};
+  }
+
+  const delay = monitorEventLoopDelay({ resolution: 10 });
+  delay.enable();
+
+  const timer = setInterval(() => {
+    const message: MetricsMessage = {
+      type: 'od:metrics',
+      metrics: { ...metrics.snapshot(), eventLoopLatency: delay.count > 0 ? delay.mean / 1e6 : 0 },
+    };
+    delay.reset();
+    if (process.connected) {
+      process.send?.(message);
+    }
+  }, interval);
+  timer.unref();
+
+  return () => {
+    clearInterval(timer);
+    delay.disable();
+  };
+}
+
+/**
+ * Let a cluster worker serve the connections its primary distributes with the
+ * loadBalancing setting, instead of listening on a port. Each connection is
+ * emitted as `connection` on the server, and its close reported back for
+ * least-connections and draining. Does nothing outside a process started by
+ * the daemon with an IPC channel.
+ *
+ * @example
+ * ```typescript
+ * const server = http.createServer(app);
+ * acceptConnections(server);
+ * ```
+ *
+ * @returns Function that stops accepting connections
+ */
+export function acceptConnections(server: Server): () => void {
+  if (!process.send) {
+    return () => {};
+  }
+
+  const onMessage = (message: unknown, socket?: unknown): void => {
+    if ((message as { type?: string } | null)?.type !== 'od:connection' || !socket) {
+      return;
+    }
+    const connection = socket as Socket;
+    connection.once('close', () => {
+      if (process.connected) {
+        process.send?.({ type: 'od:connection-closed' });
+      }
+    });
+    server.emit('connection', connection);
+    connection.resume();
+  };
+
+  process.on('message', onMessage);
+  process.send({ type: 'od:accepting' });
+
+  return () => {
+    process.off('message', onMessage);
+  };
+}
@@ -0,0 +1,10 @@
+import { build } from 'tsup';
+import { clusterPrimaryConfig } from '../tsup.config.js';
+
+/**
+ * Build the cluster primary shim the process manager forks, since tests run
+ * the plugins from source
+ */
+export async function setup(): Promise<void> {
+  await build({ ...clusterPrimaryConfig, config: false, silent: true });
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { AutoScalerPlugin } from '../../packages/plugins/auto-scaler/src/index.js';
+import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessInfo, ProcessScaledEvent } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('AutoScalerPlugin', () => {
+  let dir: string;
+  let events: EventBus;
+  let processManager: ProcessManagerPlugin;
+  let scaler: AutoScalerPlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+  let scaled: ProcessScaledEvent[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-autoscale-'));
+    // Reports a queue depth like reportMetrics() of the SDK
+    writeFileSync(
+      join(dir, 'worker.js'),
+      `setInterval(() => process.send({ type: 'od:metrics', metrics: { queue_depth: Number(process.env.DEPTH) } }), 50);`
+    );
+
+    events = new EventBus();
+    processManager = new ProcessManagerPlugin();
+    scaler = new AutoScalerPlugin();
+    methods = new Map();
+    scaled = [];
+    events.on('process:scaled', (data) => {
+      scaled.push(data as ProcessScaledEvent);
+    });
+
+    const context: PluginContext = {
+      config: {},
+      // Sampled manually by the tests
+      pluginConfig: { sampleInterval: 0 },
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    scaler.install(context);
+  });
+
+  afterEach(async () => {
+    await scaler.onStop();
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const start = (depth: number): Promise<unknown> =>
+    methods.get('start')!({
+      name: 'queue',
+      script: join(dir, 'worker.js'),
+      mode: 'cluster',
+      instances: 2,
+      env: { DEPTH: String(depth) },
+      autoScale: {
+        min: 2,
+        max: 3,
+        scaleUp: { metric: 'custom', customMetric: 'queue_depth', threshold: 100, duration: 0, step: 2, cooldown: 0 },
+        scaleDown: { metric: 'custom', customMetric: 'queue_depth', threshold: 10, duration: 0, step: 1, cooldown: 0 },
+      },
+    });
+
+  it('should scale up on a custom metric reported by the instances', async () => {
+    await start(500);
+    await new Promise((r) => setTimeout(r, 500));
+
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 500));
+
+    expect(scaled).toEqual([{ name: 'queue', from: 2, to: 3, reason: 'queue_depth 500 above 100 for 0s' }]);
+    const info = (await methods.get('info')!({ name: 'queue' })) as ProcessInfo;
+    expect(info.instances).toBe(3);
+    expect(info.pids).toHaveLength(3);
+
+    // Already at max
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 100));
+    expect(scaled).toHaveLength(1);
+  });
+
+  it('should not scale down under min', async () => {
+    await start(0);
+    await new Promise((r) => setTimeout(r, 500));
+
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(scaled).toEqual([]);
+    expect(processManager.getProcess('queue')!.instanceCount).toBe(2);
+  });
+});
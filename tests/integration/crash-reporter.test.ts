@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { CrashReporterPlugin } from '../../packages/plugins/crash-reporter/src/index.js';
+import { EventBus, StateStore, Logger, DaemonError } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessCrashEvent } from '../../packages/core/src/index.js';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('CrashReporterPlugin', () => {
+  let dir: string;
+  let processManager: ProcessManagerPlugin;
+  let crashReporter: CrashReporterPlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+
+  const crash = (overrides: Partial<ProcessCrashEvent> = {}): ProcessCrashEvent => ({
+    name: 'api',
+    instanceId: 0,
+    pid: 1234,
+    exitCode: 1,
+    signal: null,
+    uptime: 1500,
+    restartCount: 0,
+    willRestart: false,
+    logs: [],
+    envKeys: ['PATH'],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-crash-'));
+    writeFileSync(
+      join(dir, 'crashy.js'),
+      `console.log('starting up');\nconsole.error('fatal: cannot connect');\nsetTimeout(() => process.exit(3), 100);`
+    );
+
+    processManager = new ProcessManagerPlugin();
+    crashReporter = new CrashReporterPlugin();
+    methods = new Map();
+
+    const context: PluginContext = {
+      config: { daemon: { logDir: join(dir, 'logs') } },
+      pluginConfig: { maxReports: 2 },
+      events: new EventBus(),
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    crashReporter.install(context);
+  });
+
+  afterEach(async () => {
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a report when a process exits abnormally', async () => {
+    await methods.get('start')!({
+      name: 'crashy',
+      script: join(dir, 'crashy.js'),
+      autoRestart: false,
+      env: { API_TOKEN: 'secret' },
+    });
+    await new Promise((r) => setTimeout(r, 600));
+
+    const reports = crashReporter.list('crashy');
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ processName: 'crashy', exitCode: 3, signal: null, willRestart: false });
+
+    const report = crashReporter.get(reports[0]!.id);
+    expect(report.logs.map((l) => l.message)).toEqual(['starting up', 'fatal: cannot connect']);
+    expect(report.envKeys).toContain('API_TOKEN');
+    expect(JSON.stringify(report)).not.toContain('secret');
+
+    await methods.get('delete')!({ name: 'crashy' });
+  });
+
+  it('should not report processes stopped on request', async () => {
+    writeFileSync(join(dir, 'idle.js'), 'setInterval(() => {}, 1000);');
+    await methods.get('start')!({ name: 'idle', script: join(dir, 'idle.js') });
+    await methods.get('stop')!({ name: 'idle' });
+    await new Promise((r) => setTimeout(r, 300));
+
+    expect(crashReporter.list()).toEqual([]);
+  });
+
+  it('should keep only maxReports per process', () => {
+    crashReporter.record(crash(), new Date(1000));
+    crashReporter.record(crash(), new Date(2000));
+    crashReporter.record(crash(), new Date(3000));
+    crashReporter.record(crash({ name: 'worker' }), new Date(4000));
+
+    expect(crashReporter.list('api').map((r) => r.timestamp)).toEqual([
+      new Date(3000).toISOString(),
+      new Date(2000).toISOString(),
+    ]);
+    expect(readdirSync(crashReporter.getCrashDir())).toHaveLength(3);
+  });
+
+  it('should serve reports through crash.list and crash.get', async () => {
+    const report = crashReporter.record(crash({ signal: 'SIGSEGV', exitCode: null }))!;
+
+    const listed = (await methods.get('crash.list')!({ name: 'api' })) as Array<Record<string, unknown>>;
+    expect(listed[0]?.['id']).toBe(report.id);
+    expect(listed[0]).not.toHaveProperty('logs');
+
+    expect(await methods.get('crash.get')!({ id: report.id })).toMatchObject({ signal: 'SIGSEGV' });
+    expect(() => methods.get('crash.get')!({ id: '../etc/passwd' })).toThrow(DaemonError);
+  });
+});
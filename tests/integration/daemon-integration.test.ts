@@ -61,6 +61,34 @@ vi.mock('../../plugins/config-manager/src/index.js', () => ({
   ConfigManagerPlugin: vi.fn(),
 }));
 
+vi.mock('../../plugins/log-manager/src/index.js', () => ({
+  LogManagerPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/crash-reporter/src/index.js', () => ({
+  CrashReporterPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/health-check/src/index.js', () => ({
+  HealthCheckPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/resource-limiter/src/index.js', () => ({
+  ResourceLimiterPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/auto-scaler/src/index.js', () => ({
+  AutoScalerPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/scheduler/src/index.js', () => ({
+  SchedulerPlugin: vi.fn(),
+}));
+
+vi.mock('../../plugins/watch-mode/src/index.js', () => ({
+  WatchModePlugin: vi.fn(),
+}));
+
 vi.mock('../../plugins/webui/src/index.js', () => ({
   WebuiPlugin: vi.fn(),
 }));
@@ -166,8 +194,8 @@ describe('Daemon Entry Point Integration', () => {
     it('should register plugins', async () => {
       await main();
       
-      // Both ConfigManagerPlugin and ProcessManagerPlugin should be registered
-      expect(mockKernelRegisterPlugin).toHaveBeenCalledTimes(3);
+      // ConfigManager, ProcessManager, LogManager, CrashReporter, HealthCheck, ResourceLimiter, AutoScaler, Scheduler, WatchMode and Webui plugins should be registered
+      expect(mockKernelRegisterPlugin).toHaveBeenCalledTimes(10);
     });
 
     it('should start kernel', async () => {
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { HealthCheckPlugin } from '../../packages/plugins/health-check/src/index.js';
+import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessInfo } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('HealthCheckPlugin', () => {
+  let dir: string;
+  let events: EventBus;
+  let processManager: ProcessManagerPlugin;
+  let healthCheck: HealthCheckPlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-health-'));
+    writeFileSync(join(dir, 'app.js'), `setInterval(() => {}, 1000);`);
+
+    events = new EventBus();
+    processManager = new ProcessManagerPlugin();
+    healthCheck = new HealthCheckPlugin();
+    methods = new Map();
+
+    const context: PluginContext = {
+      config: { daemon: { logDir: join(dir, 'logs') } },
+      pluginConfig: undefined,
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : name === 'health-check' ? healthCheck : undefined) as
+          | T
+          | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    healthCheck.install(context);
+  });
+
+  afterEach(async () => {
+    await healthCheck.onStop();
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report healthy processes in info and list', async () => {
+    await methods.get('start')!({
+      name: 'ok',
+      script: join(dir, 'app.js'),
+      healthCheck: { type: 'process', interval: 50 },
+    });
+    await new Promise((r) => setTimeout(r, 300));
+
+    const info = (await methods.get('info')!({ name: 'ok' })) as ProcessInfo;
+    expect(info.health).toMatchObject({ status: 'healthy', consecutiveFailures: 0 });
+
+    const list = (await methods.get('list')!({})) as ProcessInfo[];
+    expect(list[0]!.health?.status).toBe('healthy');
+  });
+
+  it('should leave processes without a health check unmonitored', async () => {
+    await methods.get('start')!({ name: 'plain', script: join(dir, 'app.js') });
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(healthCheck.getHealth('plain')).toBeUndefined();
+  });
+
+  it('should emit process:unhealthy after failureThreshold failures and apply the action', async () => {
+    const unhealthy: unknown[] = [];
+    events.on('process:unhealthy', (data) => {
+      unhealthy.push(data);
+    });
+
+    await methods.get('start')!({
+      name: 'sick',
+      script: join(dir, 'app.js'),
+      healthCheck: { type: 'command', command: 'exit 1', interval: 50, failureThreshold: 2, action: 'stop' },
+    });
+    await new Promise((r) => setTimeout(r, 600));
+
+    expect(unhealthy).toEqual([{ name: 'sick', failures: 2, message: 'Exited with code 1', action: 'stop' }]);
+    expect(processManager.getProcess('sick')?.status).toBe('stopped');
+    expect(healthCheck.getHealth('sick')).toBeUndefined();
+  });
+
+  it('should only notify when action is notify', async () => {
+    const unhealthy: unknown[] = [];
+    events.on('process:unhealthy', (data) => {
+      unhealthy.push(data);
+    });
+
+    await methods.get('start')!({
+      name: 'flaky',
+      script: join(dir, 'app.js'),
+      healthCheck: { type: 'command', command: 'exit 1', interval: 50, failureThreshold: 1, action: 'notify' },
+    });
+    await new Promise((r) => setTimeout(r, 400));
+
+    expect(unhealthy).toHaveLength(1);
+    expect(processManager.getProcess('flaky')?.status).toBe('online');
+    expect(healthCheck.getHealth('flaky')?.status).toBe('unhealthy');
+  });
+});
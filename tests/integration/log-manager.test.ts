@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { LogManagerPlugin } from '../../packages/plugins/log-manager/src/index.js';
+import { EventBus, StateStore, Logger, ErrorCode } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessLogEntry } from '../../packages/core/src/index.js';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('LogManagerPlugin', () => {
+  let dir: string;
+  let events: EventBus;
+  let processManager: ProcessManagerPlugin;
+  let logManager: LogManagerPlugin;
+  let startProcess: (config: unknown) => Promise<unknown>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-log-manager-'));
+    writeFileSync(
+      join(dir, 'chatty.js'),
+      `console.log('hello from stdout');\nconsole.error('hello from stderr');\nsetInterval(() => {}, 1000);`
+    );
+
+    events = new EventBus();
+    processManager = new ProcessManagerPlugin();
+    logManager = new LogManagerPlugin();
+
+    const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+    const context: PluginContext = {
+      config: { daemon: { logDir: join(dir, 'logs') } },
+      pluginConfig: undefined,
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    logManager.install(context);
+    startProcess = methods.get('start')!;
+  });
+
+  afterEach(async () => {
+    await processManager.onStop();
+    await logManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should emit process:log events for each output line', async () => {
+    const lines: ProcessLogEntry[] = [];
+    events.on('process:log', (data) => {
+      lines.push(data as ProcessLogEntry);
+    });
+
+    await startProcess({ name: 'chatty', script: join(dir, 'chatty.js') });
+    await new Promise((r) => setTimeout(r, 500));
+
+    expect(lines.find((l) => l.source === 'stdout')?.message).toBe('hello from stdout');
+    expect(lines.find((l) => l.source === 'stderr')?.message).toBe('hello from stderr');
+    expect(lines[0]?.processName).toBe('chatty');
+  });
+
+  it('should write output to default log files under logDir', async () => {
+    await startProcess({ name: 'chatty', script: join(dir, 'chatty.js') });
+    await new Promise((r) => setTimeout(r, 500));
+    await logManager.onStop();
+
+    const outFile = join(dir, 'logs', 'chatty-out.log');
+    const errFile = join(dir, 'logs', 'chatty-error.log');
+    expect(existsSync(outFile)).toBe(true);
+    expect(readFileSync(outFile, 'utf-8')).toContain('hello from stdout');
+    expect(readFileSync(errFile, 'utf-8')).toContain('hello from stderr');
+  });
+
+  it('should search a process log through log.search', async () => {
+    await startProcess({ name: 'chatty', script: join(dir, 'chatty.js') });
+    await new Promise((r) => setTimeout(r, 500));
+
+    const result = await logManager.search({ names: ['chatty'], pattern: 'hello', sources: ['stderr'] });
+    expect(result.matches.map((m) => m.message)).toEqual(['hello from stderr']);
+    expect(result.matches[0]?.file).toBe(join(dir, 'logs', 'chatty-error.log'));
+  });
+
+  it('should reject invalid logRotation settings when the process starts', async () => {
+    await expect(
+      startProcess({ name: 'chatty', script: join(dir, 'chatty.js'), logRotation: { maxSize: 'huge' } })
+    ).rejects.toMatchObject({ code: ErrorCode.PROCESS_INVALID_CONFIG, message: expect.stringContaining('Invalid size: huge') });
+    await expect(
+      startProcess({ name: 'chatty', script: join(dir, 'chatty.js'), logRotation: { maxSize: '1M', maxAge: 'soon' } })
+    ).rejects.toMatchObject({ code: ErrorCode.PROCESS_INVALID_CONFIG });
+    expect(processManager.getProcess('chatty')).toBeUndefined();
+  });
+});
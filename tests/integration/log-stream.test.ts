@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { LogManagerPlugin } from '../../packages/plugins/log-manager/src/index.js';
+import { EventBus, StateStore, Logger, IpcServer, IpcClient } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessLogEntry } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('log.stream', () => {
+  let dir: string;
+  let events: EventBus;
+  let server: IpcServer;
+  let client: IpcClient;
+  let processManager: ProcessManagerPlugin;
+  let logManager: LogManagerPlugin;
+
+  const entry = (processName: string, message: string, source: 'stdout' | 'stderr' = 'stdout'): ProcessLogEntry => ({
+    timestamp: new Date().toISOString(),
+    processName,
+    instanceId: 0,
+    source,
+    message,
+  });
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'od-log-stream-'));
+    writeFileSync(join(dir, 'idle.js'), 'setInterval(() => {}, 1000);');
+
+    const socketPath = join(dir, 'test.sock');
+    server = new IpcServer({ socketPath });
+    client = new IpcClient({ socketPath, timeout: 5000 });
+    events = new EventBus();
+    processManager = new ProcessManagerPlugin();
+    logManager = new LogManagerPlugin();
+
+    const context: PluginContext = {
+      config: { daemon: { logDir: join(dir, 'logs') } },
+      pluginConfig: undefined,
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => server.registerMethod(name, handler),
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    logManager.install(context);
+
+    await server.start();
+    await client.connect();
+    await client.call('start', { name: 'api', script: join(dir, 'idle.js') });
+    await client.call('start', { name: 'worker', script: join(dir, 'idle.js') });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await server.stop();
+    await processManager.onStop();
+    await logManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return recent lines from the log files', async () => {
+    events.emit('process:log', entry('api', 'first'));
+    events.emit('process:log', entry('api', 'oops', 'stderr'));
+    events.emit('process:log', entry('worker', 'other'));
+    await new Promise((r) => setTimeout(r, 100));
+
+    const lines = (await client.call('log.tail', { names: ['api'], lines: 10 })) as ProcessLogEntry[];
+    expect(lines.map((l) => l.message)).toEqual(['first', 'oops']);
+
+    const errors = (await client.call('log.tail', { sources: ['stderr'] })) as ProcessLogEntry[];
+    expect(errors.map((l) => l.message)).toEqual(['oops']);
+  });
+
+  it('should push matching lines as binary frames', async () => {
+    const received: ProcessLogEntry[] = [];
+    client.onBinary((payload) => {
+      received.push(JSON.parse(payload.toString('utf-8')) as ProcessLogEntry);
+    });
+
+    await client.call('log.stream', { names: ['api'], lines: 0 });
+    events.emit('process:log', entry('api', 'live'));
+    events.emit('process:log', entry('worker', 'ignored'));
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(received.map((l) => l.message)).toEqual(['live']);
+    expect(received[0]?.processName).toBe('api');
+  });
+
+  it('should push lines that cannot be written to the log file', async () => {
+    const received: ProcessLogEntry[] = [];
+    client.onBinary((payload) => {
+      received.push(JSON.parse(payload.toString('utf-8')) as ProcessLogEntry);
+    });
+
+    // A rotation config that bypassed validation when the process started
+    const proc = processManager.getProcess('api')!;
+    proc.config = { ...proc.config, logRotation: { maxSize: 'huge' } };
+
+    await client.call('log.stream', { names: ['api'], lines: 0 });
+    events.emit('process:log', entry('api', 'live'));
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(received.map((l) => l.message)).toEqual(['live']);
+  });
+
+  it('should reject unknown processes', async () => {
+    await expect(client.call('log.stream', { names: ['missing'] })).rejects.toThrow('not found');
+  });
+});
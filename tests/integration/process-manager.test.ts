@@ -1,9 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import {
+  ProcessManagerPlugin,
+  getDescendants,
+  isProcessRunning,
+  readProcMemory,
+} from '../../packages/plugins/process-manager/src/index.js';
 import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
-import type { PluginContext } from '../../packages/core/src/index.js';
+import type {
+  PluginContext,
+  ProcessInfo,
+  ProcessCrashEvent,
+  ProcessCrashLoopEvent,
+  ReloadProgressEvent,
+  ProcessScaledEvent,
+  ProcessStopReport,
+} from '../../packages/core/src/index.js';
 import { resolve } from 'path';
-import { writeFileSync, unlinkSync, existsSync } from 'fs';
+import { writeFileSync, unlinkSync, existsSync, readFileSync } from 'fs';
+import { availableParallelism, getPriority, tmpdir } from 'os';
+import { createServer, request } from 'http';
+import type { AddressInfo } from 'net';
 
 describe('ProcessManagerPlugin', () => {
   let plugin: ProcessManagerPlugin;
@@ -84,5 +100,1105 @@ describe('ProcessManagerPlugin', () => {
       
       expect(startedProcesses).toContain('test-app');
     });
+
+    it('should run one cluster instance per CPU with instances: max', async () => {
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+
+      try {
+        await methods.get('start')!({ name: 'everywhere', script: testScriptPath, mode: 'cluster', instances: 'max' });
+        await new Promise((r) => setTimeout(r, 300));
+
+        const [info] = (await methods.get('list')!({})) as ProcessInfo[];
+        expect(info!.instances).toBe(availableParallelism());
+        expect(info!.runningInstances).toBe(availableParallelism());
+        expect(manager.getProcess('everywhere')!.instanceCount).toBe(availableParallelism());
+
+        await expect(methods.get('start')!({ name: 'bad', script: testScriptPath, instances: 'lots' })).rejects.toThrow(
+          'Invalid instances: lots'
+        );
+      } finally {
+        await manager.onStop();
+      }
+    });
+  });
+
+  describe('recent output', () => {
+    it('should buffer output and keep it across restarts', async () => {
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const methodContext: PluginContext = {
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      };
+      const manager = new ProcessManagerPlugin();
+      manager.install(methodContext);
+
+      try {
+        await methods.get('start')!({ name: 'chatty', script: testScriptPath });
+        await new Promise((r) => setTimeout(r, 300));
+        await methods.get('restart')!({ name: 'chatty' });
+        await new Promise((r) => setTimeout(r, 300));
+
+        const info = (await methods.get('info')!({ name: 'chatty' })) as ProcessInfo;
+        expect(info.recentLogs?.map((l) => l.message)).toEqual([
+          'Test process started',
+          'Test process started',
+        ]);
+        expect(manager.getRecentLogs('chatty', 1)).toHaveLength(1);
+        expect(manager.getRecentLogs('missing')).toBeUndefined();
+      } finally {
+        await manager.onStop();
+      }
+    });
+  });
+
+  describe('restart backoff', () => {
+    const crashScriptPath = resolve('./test-crash-process.js');
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+
+    beforeEach(() => {
+      writeFileSync(crashScriptPath, `setTimeout(() => process.exit(1), Number(process.env.CRASH_AFTER));`);
+      methods = new Map();
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+      if (existsSync(crashScriptPath)) {
+        unlinkSync(crashScriptPath);
+      }
+    });
+
+    it('should give up after maxRestarts consecutive crashes', async () => {
+      const crashes: ProcessCrashEvent[] = [];
+      events.on('process:crash', (data) => {
+        crashes.push(data as ProcessCrashEvent);
+      });
+
+      await methods.get('start')!({
+        name: 'crashy',
+        script: crashScriptPath,
+        env: { CRASH_AFTER: '20' },
+        restartDelay: 20,
+        maxRestarts: 2,
+      });
+      await new Promise((r) => setTimeout(r, 800));
+
+      expect(crashes.map((crash) => crash.willRestart)).toEqual([true, true, false]);
+      expect(manager.getProcess('crashy')).toMatchObject({ status: 'errored', restartCount: 2 });
+      await methods.get('delete')!({ name: 'crashy' });
+    });
+
+    it('should reset the backoff after an instance stays up for minUptime', async () => {
+      await methods.get('start')!({
+        name: 'flapping',
+        script: crashScriptPath,
+        env: { CRASH_AFTER: '150' },
+        restartDelay: 20,
+        maxRestarts: 1,
+        minUptime: 50,
+      });
+      await new Promise((r) => setTimeout(r, 1000));
+
+      const proc = manager.getProcess('flapping')!;
+      expect(proc.restartCount).toBeGreaterThan(1);
+      expect(proc.status).not.toBe('errored');
+      await methods.get('stop')!({ name: 'flapping', timeout: 200 });
+      await methods.get('delete')!({ name: 'flapping' });
+    });
+
+    it('should keep restarting without crashLoop configured', async () => {
+      const crashLoops: ProcessCrashLoopEvent[] = [];
+      events.on('process:crashloop', (data) => {
+        crashLoops.push(data as ProcessCrashLoopEvent);
+      });
+
+      await methods.get('start')!({
+        name: 'crashy',
+        script: crashScriptPath,
+        env: { CRASH_AFTER: '20' },
+        restartDelay: 20,
+        maxRestarts: 7,
+      });
+      for (let i = 0; i < 50 && manager.getProcess('crashy')!.status !== 'errored'; i++) {
+        await new Promise((r) => setTimeout(r, 100));
+      }
+
+      expect(crashLoops).toEqual([]);
+      expect(manager.getProcess('crashy')).toMatchObject({ status: 'errored', restartCount: 7 });
+      await methods.get('delete')!({ name: 'crashy' });
+    });
+
+    it('should quarantine a crash-looping process until the cooldown ends', async () => {
+      const crashLoops: ProcessCrashLoopEvent[] = [];
+      events.on('process:crashloop', (data) => {
+        crashLoops.push(data as ProcessCrashLoopEvent);
+      });
+
+      await methods.get('start')!({
+        name: 'looping',
+        script: crashScriptPath,
+        env: { CRASH_AFTER: '20' },
+        restartDelay: 20,
+        crashLoop: { restarts: 2, window: 5000, cooldown: 500 },
+      });
+      await new Promise((r) => setTimeout(r, 300));
+
+      expect(crashLoops).toEqual([{ name: 'looping', instanceId: 0, restarts: 2, window: 5000, cooldown: 500 }]);
+      const info = (await methods.get('info')!({ name: 'looping' })) as ProcessInfo;
+      expect(info.status).toBe('crashloop');
+      expect(info.errorMessage).toContain('Crash loop detected');
+
+      // Restarted after the cooldown, then loops again
+      await new Promise((r) => setTimeout(r, 700));
+      expect(manager.getProcess('looping')!.restartCount).toBeGreaterThan(2);
+
+      // An explicit restart clears the quarantine
+      const restarted = (await methods.get('restart')!({ name: 'looping' })) as ProcessInfo;
+      expect(restarted.status).toBe('online');
+      await methods.get('stop')!({ name: 'looping', timeout: 200 });
+      await methods.get('delete')!({ name: 'looping' });
+    });
+  });
+
+  describe.skipIf(process.platform !== 'linux')('resource sampling', () => {
+    it('should fill cpu and memory from /proc samples', async () => {
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        pluginConfig: { sampleInterval: 0 },
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+
+      try {
+        await methods.get('start')!({ name: 'sampled', script: testScriptPath });
+        await new Promise((r) => setTimeout(r, 200));
+
+        let info = (await methods.get('info')!({ name: 'sampled' })) as ProcessInfo;
+        expect(info.memory).toBe(0);
+
+        manager.sampleResources();
+        info = (await methods.get('info')!({ name: 'sampled' })) as ProcessInfo;
+        expect(info.memory).toBeGreaterThan(0);
+        expect(info.metrics?.memory.rss).toBe(info.memory);
+        expect(manager.getMetrics('sampled')?.memory.rss).toBe(info.memory);
+        expect(manager.getMetrics('missing')).toBeUndefined();
+      } finally {
+        await manager.onStop();
+      }
+    });
+  });
+
+  describe.skipIf(process.platform !== 'linux')('process tree', () => {
+    const parentScriptPath = resolve('./test-parent-process.js');
+
+    afterEach(() => {
+      if (existsSync(parentScriptPath)) {
+        unlinkSync(parentScriptPath);
+      }
+    });
+
+    it('should terminate descendants on stop and include them in metrics', async () => {
+      writeFileSync(
+        parentScriptPath,
+        `import { spawn } from 'child_process';\n` +
+          `const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });\n` +
+          `console.log(child.pid);\n` +
+          `setInterval(() => {}, 1000);`
+      );
+
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        pluginConfig: { sampleInterval: 0 },
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+
+      try {
+        await methods.get('start')!({ name: 'parent', script: parentScriptPath });
+        await new Promise((r) => setTimeout(r, 500));
+
+        const grandchild = Number(manager.getRecentLogs('parent')![0]!.message);
+        const proc = manager.getProcess('parent')!;
+        expect(getDescendants(proc.pid!)).toContain(grandchild);
+
+        manager.sampleResources();
+        const threads = proc.usage!.threads;
+        expect(threads).toBeGreaterThan(readProcMemory(proc.pid!)!.threads);
+
+        await methods.get('stop')!({ name: 'parent' });
+        await new Promise((r) => setTimeout(r, 100));
+        expect(isProcessRunning(grandchild)).toBe(false);
+      } finally {
+        await manager.onStop();
+      }
+    });
+
+    it('should terminate process groups when the daemon exits without stopping them', async () => {
+      writeFileSync(
+        parentScriptPath,
+        `import { spawn } from 'child_process';\n` +
+          `const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });\n` +
+          `console.log(child.pid);\n` +
+          `setInterval(() => {}, 1000);`
+      );
+
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const manager = new ProcessManagerPlugin();
+      const listeners = process.listeners('exit');
+      manager.install({
+        ...context,
+        pluginConfig: { sampleInterval: 0 },
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+      const onExit = process.listeners('exit').find((listener) => !listeners.includes(listener));
+      expect(onExit).toBeDefined();
+
+      try {
+        const info = (await methods.get('start')!({ name: 'parent', script: parentScriptPath })) as ProcessInfo;
+        await new Promise((r) => setTimeout(r, 500));
+        const grandchild = Number(manager.getRecentLogs('parent')![0]!.message);
+
+        onExit!(0);
+        await new Promise((r) => setTimeout(r, 300));
+        expect(isProcessRunning(info.pid!)).toBe(false);
+        expect(isProcessRunning(grandchild)).toBe(false);
+      } finally {
+        await manager.onStop();
+      }
+      expect(process.listeners('exit')).not.toContain(onExit);
+    });
+  });
+
+  describe('interpreters', () => {
+    const shellScriptPath = resolve('./test-shell-process.sh');
+
+    afterEach(() => {
+      if (existsSync(shellScriptPath)) {
+        unlinkSync(shellScriptPath);
+      }
+    });
+
+    it('should run non-Node scripts without an IPC channel', async () => {
+      writeFileSync(shellScriptPath, 'echo "shell says $1"\nsleep 5\n');
+
+      const methods = new Map<string, (params: unknown) => Promise<unknown>>();
+      const manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+
+      try {
+        await methods.get('start')!({ name: 'shell', script: shellScriptPath, args: ['hello'] });
+        await new Promise((r) => setTimeout(r, 300));
+
+        expect(manager.getRecentLogs('shell')?.map((l) => l.message)).toEqual(['shell says hello']);
+        expect(manager.getProcess('shell')?.status).toBe('online');
+      } finally {
+        await manager.onStop();
+      }
+    });
+  });
+
+  describe('cluster', () => {
+    const serverScriptPath = resolve('./test-cluster-server.js');
+    // Serves the connections of the primary like acceptConnections of the SDK
+    const acceptingServer = `import http from 'http';
+const server = http.createServer((req, res) => res.end(String(process.pid)));
+process.on('message', (message, socket) => {
+  if (message && message.type === 'od:connection' && socket) {
+    socket.once('close', () => process.connected && process.send({ type: 'od:connection-closed' }));
+    server.emit('connection', socket);
+    socket.resume();
+  }
+});
+process.send({ type: 'od:accepting' });`;
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+
+    const freePort = (): Promise<number> =>
+      new Promise((resolvePort) => {
+        const server = createServer();
+        server.listen(0, () => {
+          const port = (server.address() as AddressInfo).port;
+          server.close(() => resolvePort(port));
+        });
+      });
+
+    const fetchPid = (port: number): Promise<number> =>
+      new Promise((resolvePid, reject) => {
+        const req = request({ port, path: '/', agent: false }, (res) => {
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolvePid(Number(body)));
+        });
+        req.on('error', reject);
+        req.end();
+      });
+
+    beforeEach(() => {
+      writeFileSync(
+        serverScriptPath,
+        `import http from 'http';
+http.createServer((req, res) => res.end(String(process.pid))).listen(Number(process.env.PORT), () => {
+  console.log('worker ' + process.env.OD_WORKER_ID + ' listening');
+});`
+      );
+      methods = new Map();
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+      if (existsSync(serverScriptPath)) {
+        unlinkSync(serverScriptPath);
+      }
+    });
+
+    it('should share a listening port between workers and restart crashed workers', async () => {
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        restartDelay: 50,
+        env: { PORT: String(port) },
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 1000));
+
+      expect(info.instances).toBe(2);
+      expect(info.pids).toHaveLength(2);
+      const primaryPid = manager.getProcess('web')!.primary!.pid!;
+      expect(getDescendants(primaryPid)).toEqual(expect.arrayContaining(info.pids));
+
+      const served = new Set<number>();
+      for (let i = 0; i < 8; i++) {
+        served.add(await fetchPid(port));
+      }
+      expect([...served].sort()).toEqual([...info.pids].sort());
+
+      const logs = manager.getRecentLogs('web')!.map((l) => `${l.instanceId}:${l.message}`).sort();
+      expect(logs).toEqual(['0:worker 0 listening', '1:worker 1 listening']);
+
+      // A crashed worker is forked again by the primary
+      process.kill(info.pids[1]!, 'SIGKILL');
+      await new Promise((r) => setTimeout(r, 1000));
+
+      const restarted = manager.getProcess('web')!;
+      expect(restarted.primary!.pid).toBe(primaryPid);
+      expect(restarted.pids).toHaveLength(2);
+      expect(restarted.pids).not.toContain(info.pids[1]);
+      expect(restarted.restartCount).toBe(1);
+      expect(await fetchPid(port)).toBeGreaterThan(0);
+
+      await methods.get('stop')!({ name: 'web' });
+      expect(isProcessRunning(primaryPid)).toBe(false);
+      for (const pid of restarted.pids) {
+        expect(isProcessRunning(pid)).toBe(false);
+      }
+    });
+
+    it('should keep characters split across output chunks of workers whole', async () => {
+      // The first write ends in the middle of "é"
+      writeFileSync(
+        serverScriptPath,
+        `const bytes = Buffer.from('café au lait\\n');
+process.stdout.write(bytes.subarray(0, 4));
+setTimeout(() => process.stdout.write(bytes.subarray(4)), 100);
+setInterval(() => {}, 1000);`
+      );
+      await methods.get('start')!({ name: 'web', script: serverScriptPath, mode: 'cluster', instances: 2 });
+      await new Promise((r) => setTimeout(r, 1000));
+
+      expect(manager.getRecentLogs('web')!.map((l) => l.message)).toEqual(['café au lait', 'café au lait']);
+    });
+
+    it('should restart the whole cluster when the primary dies', async () => {
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        restartDelay: 50,
+        env: { PORT: String(port) },
+      })) as ProcessInfo;
+      const primaryPid = manager.getProcess('web')!.primary!.pid!;
+
+      process.kill(primaryPid, 'SIGKILL');
+      await new Promise((r) => setTimeout(r, 1500));
+
+      const restarted = manager.getProcess('web')!;
+      expect(restarted.status).toBe('online');
+      expect(restarted.primary!.pid).not.toBe(primaryPid);
+      expect(restarted.pids).toHaveLength(2);
+      for (const pid of info.pids) {
+        expect(isProcessRunning(pid)).toBe(false);
+      }
+      expect(await fetchPid(port)).toBeGreaterThan(0);
+    });
+
+    it('should reload workers one at a time while serving requests', async () => {
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        env: { PORT: String(port) },
+      })) as ProcessInfo;
+      const primaryPid = manager.getProcess('web')!.primary!.pid!;
+      // Workers are forked, give them time to listen
+      await new Promise((r) => setTimeout(r, 500));
+
+      const progress: ReloadProgressEvent[] = [];
+      events.on('process:reload', (data) => {
+        progress.push(data as ReloadProgressEvent);
+      });
+      const frames: Buffer[] = [];
+      const socket = {
+        id: 'client',
+        write: (frame: Buffer) => {
+          frames.push(frame);
+        },
+      };
+
+      let failures = 0;
+      let reloading = true;
+      const traffic = (async () => {
+        while (reloading) {
+          await fetchPid(port).catch(() => failures++);
+        }
+      })();
+
+      const reload = methods.get('reload')! as (params: unknown, socket: unknown) => Promise<unknown>;
+      const reloaded = (await reload({ name: 'web' }, socket)) as ProcessInfo;
+      reloading = false;
+      await traffic;
+
+      expect(failures).toBe(0);
+      expect(reloaded.status).toBe('online');
+      expect(reloaded.pids).toHaveLength(2);
+      for (const pid of info.pids) {
+        expect(reloaded.pids).not.toContain(pid);
+        expect(isProcessRunning(pid)).toBe(false);
+      }
+      expect(manager.getProcess('web')!.primary!.pid).toBe(primaryPid);
+      expect(reloaded.restartCount).toBe(0);
+
+      expect(progress.map((e) => `${e.instanceId}:${e.step}`)).toEqual([
+        '0:starting',
+        '0:replaced',
+        '1:starting',
+        '1:replaced',
+      ]);
+      expect(progress[1]).toMatchObject({ oldPid: info.pids[0], newPid: reloaded.pids[0], total: 2 });
+      expect(frames).toHaveLength(4);
+
+      const served = new Set<number>();
+      for (let i = 0; i < 8; i++) {
+        served.add(await fetchPid(port));
+      }
+      expect([...served].sort()).toEqual([...reloaded.pids].sort());
+    });
+
+    it('should scale a running cluster up and down', async () => {
+      writeFileSync(
+        serverScriptPath,
+        `import http from 'http';
+http.createServer((req, res) => res.end(String(process.pid))).listen(Number(process.env.PORT), () => {
+  console.log('worker ' + process.env.OD_WORKER_ID + '/' + process.env.OD_WORKER_COUNT + ' listening');
+});
+process.on('message', (message) => {
+  if (message.type === 'od:worker-count') {
+    console.log('worker ' + process.env.OD_WORKER_ID + ' count ' + message.count);
+  }
+});`
+      );
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        env: { PORT: String(port) },
+      })) as ProcessInfo;
+      const primaryPid = manager.getProcess('web')!.primary!.pid!;
+      await new Promise((r) => setTimeout(r, 500));
+
+      const scaled: ProcessScaledEvent[] = [];
+      events.on('process:scaled', (data) => {
+        scaled.push(data as ProcessScaledEvent);
+      });
+
+      const up = (await methods.get('scale')!({ name: 'web', instances: '+1' })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 500));
+
+      expect(up.instances).toBe(3);
+      expect(up.pids).toHaveLength(3);
+      expect(up.pids).toEqual(expect.arrayContaining(info.pids));
+      expect(manager.getProcess('web')!.primary!.pid).toBe(primaryPid);
+      expect(manager.getProcess('web')!.config.instances).toBe(3);
+      const logs = manager.getRecentLogs('web')!.map((l) => `${l.instanceId}:${l.message}`);
+      expect(logs).toEqual(
+        expect.arrayContaining(['2:worker 2/3 listening', '0:worker 0 count 3', '1:worker 1 count 3'])
+      );
+
+      const down = (await methods.get('scale')!({ name: 'web', instances: 2 })) as ProcessInfo;
+      expect(down.instances).toBe(2);
+      expect(down.pids).toEqual(info.pids);
+      expect(isProcessRunning(up.pids.find((pid) => !info.pids.includes(pid))!)).toBe(false);
+      expect(manager.getProcess('web')!.status).toBe('online');
+      expect(manager.getProcess('web')!.restartCount).toBe(0);
+
+      expect(scaled).toEqual([
+        { name: 'web', from: 2, to: 3, reason: undefined },
+        { name: 'web', from: 3, to: 2, reason: undefined },
+      ]);
+      for (let i = 0; i < 4; i++) {
+        expect(info.pids).toContain(await fetchPid(port));
+      }
+    });
+
+    it('should keep the instance count of a cluster that cannot be scaled in its status', async () => {
+      writeFileSync(serverScriptPath, `process.on('SIGTERM', () => {}); setInterval(() => {}, 1000);`);
+      await methods.get('start')!({ name: 'web', script: serverScriptPath, mode: 'cluster', instances: 2 });
+      await new Promise((r) => setTimeout(r, 300));
+
+      const stopping = methods.get('stop')!({ name: 'web', timeout: 300 });
+      await new Promise((r) => setTimeout(r, 0));
+      expect(manager.getProcess('web')!.status).toBe('stopping');
+      await expect(methods.get('scale')!({ name: 'web', instances: 4 })).rejects.toThrow('cannot be scaled while stopping');
+      expect(manager.getProcess('web')!.config.instances).toBe(2);
+
+      await stopping;
+      expect(manager.getProcess('web')!.config.instances).toBe(2);
+    });
+
+    it('should distribute connections from the primary to accepting workers', async () => {
+      writeFileSync(serverScriptPath, acceptingServer);
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        loadBalancing: { port, host: '127.0.0.1' },
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 500));
+
+      const served: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        served.push(await fetchPid(port));
+      }
+      expect(new Set(served)).toEqual(new Set(info.pids));
+      expect(served[0]).toBe(served[2]);
+      expect(served[1]).toBe(served[3]);
+    });
+
+    it('should keep clients on their worker with sticky sessions, also across a reload', async () => {
+      writeFileSync(serverScriptPath, acceptingServer);
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        loadBalancing: { port, host: '127.0.0.1', strategy: 'least-connections', sticky: true },
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 500));
+
+      const first = await fetchPid(port);
+      expect(info.pids).toContain(first);
+      for (let i = 0; i < 4; i++) {
+        expect(await fetchPid(port)).toBe(first);
+      }
+
+      let failures = 0;
+      let reloading = true;
+      const traffic = (async () => {
+        while (reloading) {
+          await fetchPid(port).catch(() => failures++);
+        }
+      })();
+      const reloaded = (await methods.get('reload')!({ name: 'web' })) as ProcessInfo;
+      reloading = false;
+      await traffic;
+
+      expect(failures).toBe(0);
+      const after = await fetchPid(port);
+      expect(reloaded.pids).toContain(after);
+      for (let i = 0; i < 4; i++) {
+        expect(await fetchPid(port)).toBe(after);
+      }
+    });
+
+    it('should roll back when a new worker does not become ready', async () => {
+      const port = await freePort();
+      const info = (await methods.get('start')!({
+        name: 'web',
+        script: serverScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        waitReady: true,
+        readyTimeout: 300,
+        env: { PORT: String(port) },
+      })) as ProcessInfo;
+
+      const progress: ReloadProgressEvent[] = [];
+      events.on('process:reload', (data) => {
+        progress.push(data as ReloadProgressEvent);
+      });
+
+      await expect(methods.get('reload')!({ name: 'web' })).rejects.toThrow(/rolled back.*did not send 'ready'/);
+
+      const proc = manager.getProcess('web')!;
+      expect(proc.status).toBe('online');
+      expect(proc.pids).toEqual(info.pids);
+      expect(progress.map((e) => `${e.instanceId}:${e.step}`)).toEqual(['0:starting', '0:failed']);
+      expect(isProcessRunning(progress[1]!.newPid!)).toBe(false);
+      expect(info.pids).toContain(await fetchPid(port));
+    });
+  });
+
+  describe('reload', () => {
+    const readyScriptPath = resolve('./test-ready.js');
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+
+    beforeEach(() => {
+      writeFileSync(readyScriptPath, `setTimeout(() => process.send('ready'), 100);\nsetInterval(() => {}, 1000);`);
+      methods = new Map();
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+      if (existsSync(readyScriptPath)) {
+        unlinkSync(readyScriptPath);
+      }
+    });
+
+    it('should start the new instance before stopping the old one in fork mode', async () => {
+      const info = (await methods.get('start')!({
+        name: 'ready',
+        script: readyScriptPath,
+        waitReady: true,
+      })) as ProcessInfo;
+
+      // The new instance sends 'ready' after 100ms
+      const reloading = methods.get('reload')!({ name: 'ready' });
+      await new Promise((r) => setTimeout(r, 50));
+      expect(manager.getProcess('ready')!.status).toBe('reloading');
+      expect(isProcessRunning(info.pid!)).toBe(true);
+
+      const reloaded = (await reloading) as ProcessInfo;
+      expect(reloaded.status).toBe('online');
+      expect(reloaded.pid).not.toBe(info.pid);
+      expect(isProcessRunning(info.pid!)).toBe(false);
+      expect(isProcessRunning(reloaded.pid!)).toBe(true);
+    });
+
+    it('should restart a process that is not online', async () => {
+      await methods.get('start')!({ name: 'ready', script: readyScriptPath });
+      await methods.get('stop')!({ name: 'ready' });
+
+      const reloaded = (await methods.get('reload')!({ name: 'ready' })) as ProcessInfo;
+      expect(reloaded.status).toBe('online');
+    });
+  });
+
+  describe('stop', () => {
+    const drainScriptPath = resolve('./test-drain.js');
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+
+    beforeEach(() => {
+      // Drains for 300ms on SIGTERM or a shutdown message, ignores SIGTERM with IGNORE_TERM
+      writeFileSync(
+        drainScriptPath,
+        `const drain = (code) => setTimeout(() => process.exit(code), 300);
+process.on('SIGTERM', () => process.env.IGNORE_TERM || drain(0));
+process.on('message', (message) => message.type === 'shutdown' && drain(3));
+setInterval(() => {}, 1000);`
+      );
+      methods = new Map();
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+      if (existsSync(drainScriptPath)) {
+        unlinkSync(drainScriptPath);
+      }
+    });
+
+    it('should wait for the exit of a draining instance and report it', async () => {
+      const info = (await methods.get('start')!({ name: 'drain', script: drainScriptPath })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 300));
+
+      const report = (await methods.get('stop')!({ name: 'drain' })) as ProcessStopReport;
+
+      expect(isProcessRunning(info.pid!)).toBe(false);
+      expect(report.name).toBe('drain');
+      expect(report.instances).toEqual([
+        { instanceId: 0, pid: info.pid, code: 0, signal: null, duration: expect.any(Number), killed: false },
+      ]);
+      expect(report.instances[0]!.duration).toBeGreaterThanOrEqual(290);
+      expect(report.duration).toBeGreaterThanOrEqual(report.instances[0]!.duration);
+
+      // Nothing left to stop
+      expect(await methods.get('stop')!({ name: 'drain' })).toEqual({ name: 'drain', instances: [], duration: 0 });
+    });
+
+    it('should give overlapping stops the report of the stop under way', async () => {
+      const info = (await methods.get('start')!({ name: 'drain', script: drainScriptPath })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 300));
+
+      let exitedAt: number | undefined;
+      events.on('process:exit', () => {
+        exitedAt = Date.now();
+      });
+      const settled: number[] = [];
+      const stops = [methods.get('stop')!({ name: 'drain' }), methods.get('stop')!({ name: 'drain' })].map((stop) =>
+        (stop as Promise<ProcessStopReport>).then((report) => {
+          settled.push(Date.now());
+          return report;
+        })
+      );
+      const [first, second] = await Promise.all(stops);
+
+      expect(exitedAt).toBeDefined();
+      expect(settled.every((time) => time >= exitedAt!)).toBe(true);
+      expect(first!.instances).toEqual([
+        { instanceId: 0, pid: info.pid, code: 0, signal: null, duration: expect.any(Number), killed: false },
+      ]);
+      expect(second).toEqual(first);
+    });
+
+    it('should kill an instance that does not exit within killTimeout', async () => {
+      const info = (await methods.get('start')!({
+        name: 'drain',
+        script: drainScriptPath,
+        killTimeout: 200,
+        env: { IGNORE_TERM: '1' },
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 300));
+
+      const report = (await methods.get('stop')!({ name: 'drain' })) as ProcessStopReport;
+
+      expect(isProcessRunning(info.pid!)).toBe(false);
+      expect(report.instances[0]).toMatchObject({ code: null, signal: 'SIGKILL', killed: true });
+      expect(report.instances[0]!.duration).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should ask instances to exit with a shutdown message', async () => {
+      const info = (await methods.get('start')!({
+        name: 'drain',
+        script: drainScriptPath,
+        shutdownWithMessage: true,
+        env: { IGNORE_TERM: '1' },
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 300));
+
+      const report = (await methods.get('stop')!({ name: 'drain' })) as ProcessStopReport;
+
+      expect(report.instances).toEqual([
+        { instanceId: 0, pid: info.pid, code: 3, signal: null, duration: expect.any(Number), killed: false },
+      ]);
+    });
+
+    it('should forward the shutdown message to the workers of a cluster', async () => {
+      const info = (await methods.get('start')!({
+        name: 'drain',
+        script: drainScriptPath,
+        mode: 'cluster',
+        instances: 2,
+        shutdownWithMessage: true,
+        env: { IGNORE_TERM: '1' },
+      })) as ProcessInfo;
+      const primaryPid = manager.getProcess('drain')!.primary!.pid!;
+      await new Promise((r) => setTimeout(r, 500));
+
+      const report = (await methods.get('stop')!({ name: 'drain' })) as ProcessStopReport;
+
+      expect(isProcessRunning(primaryPid)).toBe(false);
+      expect(report.instances.map((i) => [i.instanceId, i.pid, i.code, i.killed])).toEqual([
+        [0, info.pids[0], 3, false],
+        [1, info.pids[1], 3, false],
+      ]);
+    });
+  });
+
+  describe('dependencies', () => {
+    const migrateScriptPath = resolve('./test-migrate.js');
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+    let started: string[];
+
+    beforeEach(() => {
+      // Exits with EXIT_CODE after 300ms
+      writeFileSync(migrateScriptPath, `setTimeout(() => process.exit(Number(process.env.EXIT_CODE)), 300);`);
+      methods = new Map();
+      started = [];
+      events.on('process:started', (data) => {
+        started.push((data as { name: string }).name);
+      });
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+      if (existsSync(migrateScriptPath)) {
+        unlinkSync(migrateScriptPath);
+      }
+    });
+
+    const migrate = (code: number) => ({
+      name: 'migrate',
+      script: migrateScriptPath,
+      autoRestart: false,
+      env: { EXIT_CODE: String(code) },
+    });
+
+    it('should start dependents once their dependencies meet their conditions', async () => {
+      await manager.onStart({
+        ...context,
+        config: {
+          apps: [
+            { name: 'web', script: testScriptPath, dependencies: ['api'] },
+            { name: 'api', script: testScriptPath, dependencies: ['cache', { name: 'migrate', condition: 'completed' }] },
+            { name: 'cache', script: testScriptPath },
+            migrate(0),
+          ],
+        },
+      });
+
+      expect(started.slice(0, 2).sort()).toEqual(['cache', 'migrate']);
+      expect(started.slice(2)).toEqual(['api', 'web']);
+      expect(manager.getProcess('migrate')!.status).toBe('stopped');
+      expect(manager.getProcess('web')!.status).toBe('online');
+    });
+
+    it('should not start dependents of a failed dependency', async () => {
+      await manager.onStart({
+        ...context,
+        config: {
+          apps: [
+            { name: 'api', script: testScriptPath, dependencies: [{ name: 'migrate', condition: 'completed' }] },
+            { name: 'web', script: testScriptPath, dependencies: ['api'] },
+            migrate(1),
+          ],
+        },
+      });
+
+      expect(started).toEqual(['migrate']);
+      expect(manager.getProcess('api')).toBeUndefined();
+      expect(manager.getProcess('web')).toBeUndefined();
+    });
+
+    it('should reject completed dependencies that restart with the default autoRestart', async () => {
+      const { autoRestart: _autoRestart, ...restarting } = migrate(0);
+      await methods.get('start')!(restarting);
+
+      await expect(
+        methods.get('start')!({
+          name: 'api',
+          script: testScriptPath,
+          dependencies: [{ name: 'migrate', condition: 'completed' }],
+        })
+      ).rejects.toThrow('Dependency "migrate" restarts when it exits with code 0');
+      expect(manager.getProcess('api')).toBeUndefined();
+    });
+
+    it('should reject completed dependencies on cron processes', async () => {
+      await methods.get('start')!({ ...migrate(0), cron: '0 3 * * *' });
+      expect(manager.getProcess('migrate')!.status).toBe('stopped');
+
+      await expect(
+        methods.get('start')!({
+          name: 'api',
+          script: testScriptPath,
+          dependencies: [{ name: 'migrate', condition: 'completed' }],
+        })
+      ).rejects.toThrow('Dependency "migrate" is a cron process');
+      expect(manager.getProcess('api')).toBeUndefined();
+    });
+
+    it('should not start anything with circular dependencies', async () => {
+      await manager.onStart({
+        ...context,
+        config: {
+          apps: [
+            { name: 'api', script: testScriptPath, dependencies: ['worker'] },
+            { name: 'worker', script: testScriptPath, dependencies: ['api'] },
+            { name: 'cache', script: testScriptPath },
+          ],
+        },
+      });
+
+      expect(started).toEqual([]);
+      await expect(
+        methods.get('start')!({ name: 'web', script: testScriptPath, dependencies: ['api'] })
+      ).rejects.toThrow('depends on "api" which is not configured');
+    });
+
+    it('should stop running dependents first unless cascadeStop is false', async () => {
+      await methods.get('start')!({ name: 'db', script: testScriptPath });
+      await methods.get('start')!({ name: 'api', script: testScriptPath, dependencies: ['db'] });
+      await methods.get('start')!({ name: 'web', script: testScriptPath, dependencies: ['api'] });
+      await new Promise((r) => setTimeout(r, 300));
+
+      const stopped: string[] = [];
+      events.on('process:stopped', (data) => {
+        stopped.push((data as { name: string }).name);
+      });
+
+      await methods.get('stop')!({ name: 'db' });
+      expect(stopped).toEqual(['web', 'api', 'db']);
+
+      await methods.get('start')!({ name: 'db', script: testScriptPath, cascadeStop: false });
+      await methods.get('start')!({ name: 'api', script: testScriptPath, dependencies: ['db'] });
+      await new Promise((r) => setTimeout(r, 300));
+
+      await methods.get('stop')!({ name: 'db' });
+      expect(stopped.slice(3)).toEqual(['db']);
+      expect(manager.getProcess('api')!.status).toBe('online');
+    });
+
+    it('should restart running dependents with cascadeRestart', async () => {
+      await methods.get('start')!({ name: 'db', script: testScriptPath, cascadeRestart: true });
+      const api = (await methods.get('start')!({
+        name: 'api',
+        script: testScriptPath,
+        dependencies: ['db'],
+      })) as ProcessInfo;
+      await new Promise((r) => setTimeout(r, 300));
+
+      await methods.get('restart')!({ name: 'db' });
+      await new Promise((r) => setTimeout(r, 300));
+
+      const restarted = manager.getProcess('api')!;
+      expect(restarted.status).toBe('online');
+      expect(restarted.pid).not.toBe(api.pid);
+      expect(isProcessRunning(api.pid!)).toBe(false);
+    });
+  });
+
+  describe('credentials', () => {
+
+    const isRoot = process.getuid?.() === 0;
+    let methods: Map<string, (params: unknown) => Promise<unknown>>;
+    let manager: ProcessManagerPlugin;
+
+    beforeEach(() => {
+      methods = new Map();
+      manager = new ProcessManagerPlugin();
+      manager.install({
+        ...context,
+        registerMethod: (name, handler) => {
+          methods.set(name, handler as (params: unknown) => Promise<unknown>);
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await manager.onStop();
+    });
+
+    it.skipIf(!isRoot)('should spawn with the configured user, nice and umask', async () => {
+      await methods.get('start')!({
+        name: 'unprivileged',
+        script: '/bin/sh',
+        args: ['-c', 'umask; sleep 5'],
+        interpreter: 'none',
+        cwd: tmpdir(),
+        uid: 'nobody',
+        nice: 5,
+        umask: '027',
+      });
+      await new Promise((r) => setTimeout(r, 300));
+
+      const pid = manager.getProcess('unprivileged')!.pid!;
+      const status = readFileSync(`/proc/${pid}/status`, 'utf-8');
+      expect(status).toMatch(/^Uid:\s+65534\s/m);
+      expect(getPriority(pid)).toBe(5);
+      expect(manager.getRecentLogs('unprivileged')?.map((l) => l.message)).toEqual(['0027']);
+      expect(process.umask()).not.toBe(0o027);
+    });
+
+    it.skipIf(process.platform === 'win32')('should apply the umask in the instance only', async () => {
+      const umask = process.umask();
+      const info = (await methods.get('start')!({
+        name: 'masked',
+        script: '/bin/sh',
+        args: ['-c', 'umask; echo $$; sleep 5'],
+        interpreter: 'none',
+        cwd: tmpdir(),
+        umask: '027',
+      })) as ProcessInfo;
+      expect(process.umask()).toBe(umask);
+      await new Promise((r) => setTimeout(r, 300));
+
+      expect(manager.getRecentLogs('masked')?.map((l) => l.message)).toEqual(['0027', String(info.pid)]);
+    });
+
+    it('should reject unknown users before spawning', async () => {
+      await expect(
+        methods.get('start')!({ name: 'ghost', script: testScriptPath, uid: 'no-such-user' })
+      ).rejects.toThrow('Unknown user: no-such-user');
+      expect(manager.getProcess('ghost')).toBeUndefined();
+    });
   });
 });
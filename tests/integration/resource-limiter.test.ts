@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { ResourceLimiterPlugin } from '../../packages/plugins/resource-limiter/src/index.js';
+import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessLimitEvent } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('ResourceLimiterPlugin', () => {
+  let dir: string;
+  let events: EventBus;
+  let processManager: ProcessManagerPlugin;
+  let limiter: ResourceLimiterPlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+  let exceeded: ProcessLimitEvent[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-limits-'));
+    // Holds ~64MB of touched memory
+    writeFileSync(join(dir, 'hog.js'), `const hog = Buffer.alloc(64 * 1024 * 1024, 1);\nsetInterval(() => hog[0]++, 1000);`);
+    writeFileSync(join(dir, 'spin.js'), `for (;;) {}`);
+
+    events = new EventBus();
+    processManager = new ProcessManagerPlugin();
+    limiter = new ResourceLimiterPlugin();
+    methods = new Map();
+    exceeded = [];
+    events.on('process:limit-exceeded', (data) => {
+      exceeded.push(data as ProcessLimitEvent);
+    });
+
+    const context: PluginContext = {
+      config: {},
+      // Sampled manually by the tests
+      pluginConfig: { sampleInterval: 0 },
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    limiter.install(context);
+  });
+
+  afterEach(async () => {
+    await limiter.onStop();
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restart a process over maxMemory', async () => {
+    await methods.get('start')!({ name: 'hog', script: join(dir, 'hog.js'), maxMemory: '32M' });
+    await new Promise((r) => setTimeout(r, 500));
+    const firstPid = processManager.getProcess('hog')!.pid;
+
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 500));
+
+    expect(exceeded).toEqual([
+      expect.objectContaining({ name: 'hog', resource: 'memory', code: 'MEMORY_LIMIT_EXCEEDED', limit: 32 * 1024 ** 2, action: 'restart' }),
+    ]);
+    expect(exceeded[0]!.value).toBeGreaterThan(32 * 1024 ** 2);
+    expect(processManager.getProcess('hog')!.pid).not.toBe(firstPid);
+    expect(processManager.getProcess('hog')!.status).toBe('online');
+  });
+
+  it('should only warn about sustained CPU with the warn action', async () => {
+    await methods.get('start')!({
+      name: 'spin',
+      script: join(dir, 'spin.js'),
+      maxCpu: 20,
+      limits: { action: 'warn', cpuDuration: 0 },
+    });
+    await new Promise((r) => setTimeout(r, 200));
+    const pid = processManager.getProcess('spin')!.pid;
+
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 500));
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(exceeded).toEqual([expect.objectContaining({ name: 'spin', resource: 'cpu', code: 'CPU_LIMIT_EXCEEDED', action: 'warn' })]);
+    expect(processManager.getProcess('spin')!.pid).toBe(pid);
+  });
+
+  it('should stop a process with the stop action', async () => {
+    await methods.get('start')!({
+      name: 'hog',
+      script: join(dir, 'hog.js'),
+      maxMemory: '32M',
+      limits: { action: 'stop' },
+    });
+    await new Promise((r) => setTimeout(r, 500));
+
+    processManager.sampleResources();
+    await new Promise((r) => setTimeout(r, 500));
+
+    expect(exceeded).toHaveLength(1);
+    expect(processManager.getProcess('hog')!.status).toBe('stopped');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { SchedulerPlugin } from '../../packages/plugins/scheduler/src/index.js';
+import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessConfig, ProcessInfo } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('SchedulerPlugin', () => {
+  let dir: string;
+  let processManager: ProcessManagerPlugin;
+  let scheduler: SchedulerPlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-cron-'));
+    // Exits with EXIT_CODE after DURATION milliseconds
+    writeFileSync(
+      join(dir, 'job.js'),
+      `setTimeout(() => process.exit(Number(process.env.EXIT_CODE)), Number(process.env.DURATION));`
+    );
+
+    processManager = new ProcessManagerPlugin();
+    scheduler = new SchedulerPlugin();
+    methods = new Map();
+
+    const context: PluginContext = {
+      config: {},
+      pluginConfig: { sampleInterval: 0 },
+      events: new EventBus(),
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : name === 'scheduler' ? scheduler : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    scheduler.install(context);
+  });
+
+  afterEach(async () => {
+    await scheduler.onStop();
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const start = (cron: ProcessConfig['cron'], exitCode = 0, duration = 100): Promise<ProcessInfo> =>
+    methods.get('start')!({
+      name: 'job',
+      script: join(dir, 'job.js'),
+      cron,
+      env: { EXIT_CODE: String(exitCode), DURATION: String(duration) },
+    }) as Promise<ProcessInfo>;
+
+  const info = (): Promise<ProcessInfo> => methods.get('info')!({ name: 'job' }) as Promise<ProcessInfo>;
+
+  it('should register a cron process stopped and run it on its schedule', async () => {
+    const registered = await start({ schedule: '* * * * * *', timezone: 'UTC' });
+    expect(registered.status).toBe('stopped');
+    expect(registered.pids).toEqual([]);
+    expect(registered.schedule).toMatchObject({ schedule: '* * * * * *', timezone: 'UTC', history: [] });
+    expect(Date.parse(registered.schedule!.nextRun!) - Date.now()).toBeLessThanOrEqual(1000);
+
+    await new Promise((r) => setTimeout(r, 2500));
+
+    const { schedule } = await info();
+    const finished = schedule!.history.filter((run) => run.status !== 'running');
+    expect(finished.length).toBeGreaterThanOrEqual(1);
+    expect(finished[0]).toMatchObject({ trigger: 'schedule', attempt: 1, status: 'succeeded', code: 0, signal: null });
+    expect(finished[0]!.duration).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should skip runs while the previous run is still running', async () => {
+    await start('* * * * * *', 0, 4000);
+    await new Promise((r) => setTimeout(r, 2600));
+
+    const statuses = (await info()).schedule!.history.map((run) => run.status);
+    expect(statuses[0]).toBe('running');
+    expect(statuses).toContain('skipped');
+    expect(processManager.getProcess('job')!.restartCount).toBe(0);
+  });
+
+  it('should retry failed runs and keep them in the history', async () => {
+    await start({ schedule: '@yearly', retries: 1, retryDelay: 100 }, 2);
+
+    await processManager.restart('job');
+    await new Promise((r) => setTimeout(r, 1200));
+
+    const history = (await info()).schedule!.history;
+    expect(history.map((run) => [run.trigger, run.attempt, run.status, run.code])).toEqual([
+      ['manual', 1, 'failed', 2],
+      ['retry', 2, 'failed', 2],
+    ]);
+    // Not restarted by the process manager
+    expect(processManager.getProcess('job')!.status).toBe('errored');
+  });
+
+  it('should record stopped runs and unschedule deleted processes', async () => {
+    await start('@daily', 0, 5000);
+    await processManager.restart('job');
+    await processManager.stop('job');
+
+    expect((await info()).schedule!.history).toMatchObject([
+      { trigger: 'manual', status: 'stopped', code: null, signal: 'SIGTERM' },
+    ]);
+
+    await methods.get('delete')!({ name: 'job' });
+    expect(scheduler.getSchedule('job')).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProcessManagerPlugin } from '../../packages/plugins/process-manager/src/index.js';
+import { WatchModePlugin } from '../../packages/plugins/watch-mode/src/index.js';
+import { EventBus, StateStore, Logger } from '../../packages/core/src/index.js';
+import type { Plugin, PluginContext, ProcessConfig, ProcessInfo } from '../../packages/core/src/index.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('WatchModePlugin', () => {
+  let dir: string;
+  let processManager: ProcessManagerPlugin;
+  let watchMode: WatchModePlugin;
+  let methods: Map<string, (params: unknown) => Promise<unknown>>;
+  let starts: number;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-watch-'));
+    mkdirSync(join(dir, 'src'));
+    mkdirSync(join(dir, 'node_modules'));
+    writeFileSync(join(dir, 'src', 'server.js'), `console.log('started'); setInterval(() => {}, 1000);`);
+
+    processManager = new ProcessManagerPlugin();
+    watchMode = new WatchModePlugin();
+    methods = new Map();
+    starts = 0;
+
+    const events = new EventBus();
+    events.on('process:started', () => {
+      starts++;
+    });
+    const context: PluginContext = {
+      config: {},
+      pluginConfig: { sampleInterval: 0 },
+      events,
+      logger: new Logger('test'),
+      store: new StateStore(),
+      registerMethod: (name, handler) => {
+        methods.set(name, handler as (params: unknown) => Promise<unknown>);
+      },
+      registerHook: () => {},
+      getPlugin: <T extends Plugin>(name: string) =>
+        (name === 'process-manager' ? processManager : name === 'watch-mode' ? watchMode : undefined) as T | undefined,
+      registerMetric: () => {},
+    };
+
+    processManager.install(context);
+    watchMode.install(context);
+  });
+
+  afterEach(async () => {
+    await watchMode.onStop();
+    await processManager.onStop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const start = (watch: ProcessConfig['watch']): Promise<ProcessInfo> =>
+    methods.get('start')!({
+      name: 'api',
+      script: join(dir, 'src', 'server.js'),
+      cwd: dir,
+      watch,
+    }) as Promise<ProcessInfo>;
+
+  const info = (): Promise<ProcessInfo> => methods.get('info')!({ name: 'api' }) as Promise<ProcessInfo>;
+
+  const wait = (ms: number): Promise<void> => new Promise((r) => setTimeout(r, ms));
+
+  it('should restart once after a burst of changes', async () => {
+    const started = await start({ paths: ['src'], delay: 200 });
+    expect(started.watching).toBe(true);
+
+    writeFileSync(join(dir, 'src', 'server.js'), `setInterval(() => {}, 1000); // 1`);
+    await wait(50);
+    writeFileSync(join(dir, 'src', 'util.js'), `module.exports = {};`);
+    await wait(1000);
+
+    const restarted = await info();
+    expect(restarted.status).toBe('online');
+    expect(restarted.pid).not.toBe(started.pid);
+    expect(starts).toBe(2);
+    expect(restarted.watching).toBe(true);
+  });
+
+  it('should not restart for ignored or unwatched files', async () => {
+    const started = await start({ paths: ['src'], ignore: ['*.md'], delay: 100 });
+
+    writeFileSync(join(dir, 'src', 'README.md'), '# api');
+    writeFileSync(join(dir, 'node_modules', 'dep.js'), '');
+    writeFileSync(join(dir, 'config.json'), '{}');
+    await wait(600);
+
+    expect((await info()).pid).toBe(started.pid);
+  });
+
+  it('should clear recent output before restarting with clearConsole', async () => {
+    await start({ paths: ['src'], delay: 100, clearConsole: true });
+    await wait(300);
+    expect(processManager.getRecentLogs('api')!.length).toBe(1);
+
+    writeFileSync(join(dir, 'src', 'server.js'), `setInterval(() => {}, 1000);`);
+    await wait(800);
+
+    expect(processManager.getRecentLogs('api')).toEqual([]);
+  });
+
+  it('should turn watch mode on and off at runtime', async () => {
+    const started = await start(false);
+    expect(started.watching).toBe(false);
+
+    await expect(methods.get('watch')!({ name: 'api', enabled: true })).resolves.toEqual({
+      name: 'api',
+      watching: true,
+    });
+    await expect(methods.get('watch')!({ name: 'api', enabled: false })).resolves.toEqual({
+      name: 'api',
+      watching: false,
+    });
+
+    writeFileSync(join(dir, 'src', 'server.js'), `setInterval(() => {}, 1000); // 2`);
+    await wait(1000);
+    expect((await info()).pid).toBe(started.pid);
+
+    await expect(methods.get('watch')!({ name: 'missing', enabled: true })).rejects.toThrow('not found');
+    await expect(methods.get('watch')!({ name: 'api', enabled: 'yes' })).rejects.toThrow('true or false');
+  });
+
+  it('should not restart stopped processes and stop watching deleted ones', async () => {
+    await start({ paths: ['src'], delay: 100 });
+    await processManager.stop('api');
+
+    writeFileSync(join(dir, 'src', 'server.js'), `setInterval(() => {}, 1000); // 3`);
+    await wait(500);
+    expect((await info()).status).toBe('stopped');
+
+    await methods.get('delete')!({ name: 'api' });
+    expect(watchMode.isWatching('api')).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAutoScale, ScaleController, type ScaleSample } from '../../packages/plugins/auto-scaler/src/index.js';
+import type { AutoScaleConfig, AutoScaleRule, ProcessConfig } from '../../packages/core/src/index.js';
+
+const rule = (overrides: Partial<AutoScaleRule> = {}): AutoScaleRule => ({
+  metric: 'cpu',
+  threshold: 80,
+  duration: 10000,
+  step: 1,
+  cooldown: 30000,
+  ...overrides,
+});
+
+const config = (autoScale: Partial<AutoScaleConfig> | undefined, mode: ProcessConfig['mode'] = 'cluster'): ProcessConfig => ({
+  name: 'app',
+  script: 'app.js',
+  mode,
+  ...(autoScale ? { autoScale: { min: 1, max: 4, ...autoScale } } : {}),
+});
+
+const sample = (overrides: Partial<ScaleSample> = {}): ScaleSample => ({ cpu: 50, memory: 0, custom: {}, ...overrides });
+
+describe('resolveAutoScale', () => {
+  it('should return undefined without autoScale or when disabled', () => {
+    expect(resolveAutoScale(config(undefined))).toBeUndefined();
+    expect(resolveAutoScale(config({ enabled: false }))).toBeUndefined();
+  });
+
+  it('should parse memory thresholds as sizes', () => {
+    const resolved = resolveAutoScale(config({ min: 2, max: 8, scaleUp: rule({ metric: 'memory', threshold: '512M' }) }));
+    expect(resolved).toEqual({
+      min: 2,
+      max: 8,
+      scaleUp: { metric: 'memory', customMetric: undefined, threshold: 512 * 1024 ** 2, duration: 10000, step: 1, cooldown: 30000 },
+      scaleDown: undefined,
+    });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => resolveAutoScale(config({}, 'fork'))).toThrow('requires cluster mode');
+    expect(() => resolveAutoScale(config({ min: 0 }))).toThrow('Invalid autoScale.min');
+    expect(() => resolveAutoScale(config({ min: 4, max: 2 }))).toThrow('Invalid autoScale.max');
+    expect(() => resolveAutoScale(config({ scaleUp: rule({ metric: 'rps' as never }) }))).toThrow('Invalid autoScale.scaleUp.metric');
+    expect(() => resolveAutoScale(config({ scaleUp: rule({ metric: 'custom' }) }))).toThrow('customMetric is required');
+    expect(() => resolveAutoScale(config({ scaleUp: rule({ threshold: '80%' }) }))).toThrow('Invalid autoScale.scaleUp.threshold');
+    expect(() => resolveAutoScale(config({ scaleDown: rule({ step: 0 }) }))).toThrow('Invalid autoScale.scaleDown.step');
+    expect(() => resolveAutoScale(config({ scaleDown: rule({ cooldown: -1 }) }))).toThrow('duration or cooldown');
+  });
+});
+
+describe('ScaleController', () => {
+  const controller = (autoScale: Partial<AutoScaleConfig>): ScaleController =>
+    new ScaleController(resolveAutoScale(config(autoScale))!);
+
+  it('should scale up once the metric stays above the threshold for the duration', () => {
+    const scaler = controller({ scaleUp: rule() });
+
+    expect(scaler.update(sample({ cpu: 90 }), 2, 0)).toBeUndefined();
+    expect(scaler.update(sample({ cpu: 90 }), 2, 5000)).toBeUndefined();
+    expect(scaler.update(sample({ cpu: 90 }), 2, 10000)).toEqual({
+      instances: 3,
+      reason: 'cpu 90.0% above 80.0% for 10s',
+    });
+  });
+
+  it('should start the duration over when the metric drops back', () => {
+    const scaler = controller({ scaleUp: rule() });
+
+    scaler.update(sample({ cpu: 90 }), 2, 0);
+    scaler.update(sample({ cpu: 70 }), 2, 5000);
+    expect(scaler.update(sample({ cpu: 90 }), 2, 10000)).toBeUndefined();
+    expect(scaler.update(sample({ cpu: 90 }), 2, 20000)?.instances).toBe(3);
+  });
+
+  it('should wait for the cooldown after scaling', () => {
+    const scaler = controller({ scaleUp: rule({ duration: 0, step: 2 }) });
+
+    expect(scaler.update(sample({ cpu: 90 }), 1, 0)?.instances).toBe(3);
+    expect(scaler.update(sample({ cpu: 90 }), 3, 10000)).toBeUndefined();
+    // Capped at max
+    expect(scaler.update(sample({ cpu: 90 }), 3, 30000)?.instances).toBe(4);
+    expect(scaler.update(sample({ cpu: 90 }), 4, 90000)).toBeUndefined();
+  });
+
+  it('should scale down below the threshold but not under min', () => {
+    const scaler = controller({ min: 2, scaleDown: rule({ threshold: 20, duration: 0, step: 3, cooldown: 0 }) });
+
+    expect(scaler.update(sample({ cpu: 5 }), 4, 0)).toEqual({ instances: 2, reason: 'cpu 5.0% below 20.0% for 0s' });
+    expect(scaler.update(sample({ cpu: 5 }), 2, 1000)).toBeUndefined();
+  });
+
+  it('should use reported event loop latency and custom metrics', () => {
+    const scaler = controller({
+      scaleUp: rule({ metric: 'custom', customMetric: 'queue_depth', threshold: 100, duration: 0 }),
+      scaleDown: rule({ metric: 'eventLoopLatency', threshold: 5, duration: 0, cooldown: 0 }),
+    });
+
+    // Nothing reported yet
+    expect(scaler.update(sample(), 2, 0)).toBeUndefined();
+    expect(scaler.update(sample({ custom: { queue_depth: 250 } }), 2, 0)).toEqual({
+      instances: 3,
+      reason: 'queue_depth 250 above 100 for 0s',
+    });
+    expect(scaler.update(sample({ eventLoopLatency: 1.5 }), 3, 1000)).toEqual({
+      instances: 2,
+      reason: 'eventLoopLatency 1.5ms below 5.0ms for 0s',
+    });
+  });
+
+  it('should bring the instance count back within min and max', () => {
+    const scaler = controller({ min: 2, max: 3 });
+
+    expect(scaler.update(sample(), 1, 0)).toEqual({ instances: 2, reason: '1 instances are below min 2' });
+    expect(scaler.update(sample(), 5, 0)).toEqual({ instances: 3, reason: '5 instances are above max 3' });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBalancer,
+  resolveLoadBalancing,
+  type ClusterBalancerOptions,
+  type ConnectionBalancer,
+} from '../../packages/plugins/process-manager/src/index.js';
+import type { LoadBalancingConfig, ProcessConfig } from '../../packages/core/src/index.js';
+
+const config = (loadBalancing: Partial<LoadBalancingConfig> | undefined, mode: ProcessConfig['mode'] = 'cluster'): ProcessConfig => ({
+  name: 'web',
+  script: 'web.js',
+  mode,
+  ...(loadBalancing ? { loadBalancing: { port: 3000, ...loadBalancing } } : {}),
+});
+
+/**
+ * Create a balancer with workers keyed 100 + id
+ */
+const balancer = (
+  options: Partial<ClusterBalancerOptions>,
+  workers: number,
+  connections = new Map<number, number>()
+): ConnectionBalancer => {
+  const created = createBalancer(
+    { port: 3000, strategy: 'round-robin', sticky: false, weights: [], ...options },
+    (key) => connections.get(key) ?? 0
+  );
+  for (let id = 0; id < workers; id++) {
+    created.add(100 + id, id);
+  }
+  return created;
+};
+
+const picks = (created: ConnectionBalancer, count: number, address = '10.0.0.1'): number[] =>
+  Array.from({ length: count }, () => created.pick(address)!);
+
+describe('resolveLoadBalancing', () => {
+  it('should return undefined without loadBalancing', () => {
+    expect(resolveLoadBalancing(config(undefined))).toBeUndefined();
+  });
+
+  it('should apply defaults', () => {
+    expect(resolveLoadBalancing(config({ host: '127.0.0.1' }))).toEqual({
+      port: 3000,
+      host: '127.0.0.1',
+      strategy: 'round-robin',
+      sticky: false,
+      weights: [],
+    });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => resolveLoadBalancing(config({}, 'fork'))).toThrow('requires cluster mode');
+    expect(() => resolveLoadBalancing(config({ port: 0 }))).toThrow('Invalid loadBalancing.port');
+    expect(() => resolveLoadBalancing(config({ port: 3000.5 }))).toThrow('Invalid loadBalancing.port');
+    expect(() => resolveLoadBalancing(config({ strategy: 'fastest' as never }))).toThrow(
+      'Invalid loadBalancing.strategy'
+    );
+    expect(() => resolveLoadBalancing(config({ weights: [1, 0] }))).toThrow('Invalid loadBalancing.weights');
+  });
+});
+
+describe('createBalancer', () => {
+  it('should pick nothing without workers', () => {
+    expect(balancer({}, 0).pick('10.0.0.1')).toBeUndefined();
+  });
+
+  it('should take the workers in turn with round-robin', () => {
+    const created = balancer({}, 3);
+    expect(picks(created, 4)).toEqual([100, 101, 102, 100]);
+
+    created.remove(101);
+    expect(picks(created, 3)).toEqual([102, 100, 102]);
+  });
+
+  it('should take the worker with the fewest connections with least-connections', () => {
+    const connections = new Map([
+      [100, 3],
+      [101, 1],
+      [102, 1],
+    ]);
+    const created = balancer({ strategy: 'least-connections' }, 3, connections);
+
+    // In turn among equals
+    expect(picks(created, 2)).toEqual([101, 102]);
+    connections.set(102, 0);
+    expect(created.pick('10.0.0.1')).toBe(102);
+  });
+
+  it('should map client addresses to the same worker with ip-hash', () => {
+    const created = balancer({ strategy: 'ip-hash' }, 4);
+    const first = created.pick('10.0.0.1');
+    expect(picks(created, 3)).toEqual([first, first, first]);
+
+    const used = new Set(Array.from({ length: 50 }, (_, i) => created.pick(`10.0.1.${i}`)));
+    expect(used.size).toBeGreaterThan(1);
+  });
+
+  it('should pick a running worker with random', () => {
+    const created = balancer({ strategy: 'random' }, 3);
+    for (const key of picks(created, 20)) {
+      expect([100, 101, 102]).toContain(key);
+    }
+  });
+
+  it('should spread connections by instance weight with weighted', () => {
+    const created = balancer({ strategy: 'weighted', weights: [3, 1] }, 2);
+    expect(picks(created, 8)).toEqual([100, 100, 101, 100, 100, 100, 101, 100]);
+  });
+
+  it('should keep a client on its worker with sticky until the worker is removed', () => {
+    const created = balancer({ sticky: true }, 3);
+
+    expect(created.pick('10.0.0.1')).toBe(100);
+    expect(created.pick('10.0.0.2')).toBe(101);
+    expect(picks(created, 3, '10.0.0.1')).toEqual([100, 100, 100]);
+    expect(created.pick('10.0.0.2')).toBe(101);
+
+    created.remove(100);
+    const moved = created.pick('10.0.0.1');
+    expect([101, 102]).toContain(moved);
+    expect(created.pick('10.0.0.1')).toBe(moved);
+  });
+});
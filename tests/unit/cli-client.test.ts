@@ -312,6 +312,29 @@ describe('CliClient', () => {
     });
   });
 
+  describe('getProcessInfo', () => {
+    it('should get a process by name', async () => {
+      Object.defineProperty(process, 'platform', {
+        value: 'linux',
+      });
+
+      const { CliClient } = await import('../../packages/cli/src/client.js');
+      mockExistsSync.mockReturnValue(true);
+      const info = {
+        name: 'nightly',
+        status: 'stopped',
+        schedule: { schedule: '0 3 * * *', timezone: 'UTC', nextRun: '2026-10-20T03:00:00.000Z', history: [] },
+      };
+      mockCall.mockResolvedValue(info);
+
+      const client = new CliClient();
+      await client.connect();
+
+      await expect(client.getProcessInfo('nightly')).resolves.toEqual(info);
+      expect(mockCall).toHaveBeenCalledWith('info', { name: 'nightly' });
+    });
+  });
+
   describe('startProcess', () => {
     it('should start a process', async () => {
       Object.defineProperty(process, 'platform', {
@@ -368,6 +391,26 @@ describe('CliClient', () => {
       expect(mockCall).toHaveBeenCalledWith('stop', { name: 'my-app', signal: undefined, timeout: undefined });
     });
 
+    it('should return the stop report', async () => {
+      Object.defineProperty(process, 'platform', {
+        value: 'linux',
+      });
+
+      const { CliClient } = await import('../../packages/cli/src/client.js');
+      mockExistsSync.mockReturnValue(true);
+      const report = {
+        name: 'my-app',
+        duration: 120,
+        instances: [{ instanceId: 0, pid: 1234, code: 0, signal: null, duration: 118, killed: false }],
+      };
+      mockCall.mockResolvedValue(report);
+
+      const client = new CliClient();
+      await client.connect();
+
+      await expect(client.stopProcess('my-app')).resolves.toEqual(report);
+    });
+
     it('should stop with custom signal', async () => {
       Object.defineProperty(process, 'platform', {
         value: 'linux',
@@ -436,6 +479,24 @@ describe('CliClient', () => {
     });
   });
 
+  describe('setWatch', () => {
+    it('should turn watch mode on', async () => {
+      Object.defineProperty(process, 'platform', {
+        value: 'linux',
+      });
+
+      const { CliClient } = await import('../../packages/cli/src/client.js');
+      mockExistsSync.mockReturnValue(true);
+      mockCall.mockResolvedValue({ name: 'api', watching: true });
+
+      const client = new CliClient();
+      await client.connect();
+
+      await expect(client.setWatch('api', true)).resolves.toEqual({ name: 'api', watching: true });
+      expect(mockCall).toHaveBeenCalledWith('watch', { name: 'api', enabled: true });
+    });
+  });
+
   describe('deleteProcess', () => {
     it('should delete a process', async () => {
       Object.defineProperty(process, 'platform', {
@@ -65,9 +65,12 @@ import {
   ListCommand,
   StartCommand,
   StopCommand,
+  ReloadCommand,
+  ScaleCommand,
   DeleteCommand,
   StatusCommand,
   DaemonCommand,
+  formatBytes,
 } from '../../packages/cli/src/commands/index.js';
 
 describe('CLI Commands', () => {
@@ -228,6 +231,7 @@ describe('CLI Commands', () => {
       expect(formatStatus('stopped')).toContain('stopped');
       expect(formatStatus('errored')).toContain('errored');
       expect(formatStatus('starting')).toContain('starting');
+      expect(formatStatus('crashloop')).toContain('crashloop');
       expect(formatStatus('unknown')).toBe('unknown');
     });
 
@@ -249,8 +253,6 @@ describe('CLI Commands', () => {
     });
 
     it('should test formatBytes with various sizes', () => {
-      const formatBytes = (cmd as any).formatBytes.bind(cmd);
-      
       expect(formatBytes(512)).toBe('512.0B');
       expect(formatBytes(1024)).toBe('1.0K');
       expect(formatBytes(1024 * 1024)).toBe('1.0M');
@@ -324,6 +326,42 @@ describe('CLI Commands', () => {
     });
   });
 
+  describe('ReloadCommand', () => {
+    const cmd = new ReloadCommand();
+
+    it('should have correct metadata', () => {
+      expect(cmd.name).toBe('reload');
+      expect(cmd.description).toBe('Reload a process without downtime');
+    });
+
+    it('should error when no process name specified', async () => {
+      await cmd.execute([], { json: false });
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should reload process by name', async () => {
+      await expect(cmd.execute(['my-process'], { json: false })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('ScaleCommand', () => {
+    const cmd = new ScaleCommand();
+
+    it('should have correct metadata', () => {
+      expect(cmd.name).toBe('scale');
+      expect(cmd.description).toBe('Scale instances');
+    });
+
+    it('should error without a process name and count', async () => {
+      await cmd.execute(['my-process'], { json: false });
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should scale process by name', async () => {
+      await expect(cmd.execute(['my-process', '+2'], { json: false })).resolves.toBeUndefined();
+    });
+  });
+
   describe('DeleteCommand', () => {
     const cmd = new DeleteCommand();
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  resolveSpawnIdentity,
+  parsePasswd,
+  parseUmask,
+  withUmask,
+} from '../../packages/plugins/process-manager/src/index.js';
+import { ErrorCode, type ProcessConfig } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('credentials', () => {
+  let dir: string;
+  let passwdFile: string;
+  let groupFile: string;
+
+  const config = (overrides: Partial<ProcessConfig>): ProcessConfig => ({
+    name: 'app',
+    script: 'app.js',
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-credentials-'));
+    passwdFile = join(dir, 'passwd');
+    groupFile = join(dir, 'group');
+    writeFileSync(
+      passwdFile,
+      '# users\nroot:x:0:0:root:/root:/bin/bash\nweb:x:1000:1000:Web:/home/web:/bin/sh\n'
+    );
+    writeFileSync(groupFile, 'root:x:0:\nweb:x:1000:\nstaff:x:50:web\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse passwd entries', () => {
+    expect(parsePasswd('web:x:1000:1001:Web:/home/web:/bin/sh\n#comment\n')).toEqual([
+      { name: 'web', uid: 1000, gid: 1001, home: '/home/web', shell: '/bin/sh' },
+    ]);
+  });
+
+  it('should parse umasks', () => {
+    expect(parseUmask('022')).toBe(0o022);
+    expect(parseUmask('0o077')).toBe(0o077);
+    expect(parseUmask(0o027)).toBe(0o027);
+    expect(parseUmask('089')).toBeUndefined();
+    expect(parseUmask(0o1000)).toBeUndefined();
+  });
+
+  it('should set the umask in a shell that execs the command', () => {
+    expect(withUmask('node', ['app.js', '--port', '80'], 0o027)).toEqual({
+      command: '/bin/sh',
+      args: ['-c', 'umask 0027 && exec "$0" "$@"', 'node', 'app.js', '--port', '80'],
+    });
+  });
+
+  it('should resolve user and group names as root', () => {
+    const lookup = { passwdFile, groupFile, currentUid: 0, currentGid: 0 };
+
+    const identity = resolveSpawnIdentity(config({ uid: 'web' }), lookup);
+    expect(identity.uid).toBe(1000);
+    expect(identity.gid).toBe(1000);
+    expect(identity.user?.home).toBe('/home/web');
+
+    expect(resolveSpawnIdentity(config({ uid: 'web', gid: 'staff' }), lookup).gid).toBe(50);
+    expect(resolveSpawnIdentity(config({ uid: 2000, gid: 2000 }), lookup)).toEqual({ uid: 2000, gid: 2000, user: undefined });
+  });
+
+  it('should reject unknown users and groups', () => {
+    const lookup = { passwdFile, groupFile, currentUid: 0, currentGid: 0 };
+
+    expect(() => resolveSpawnIdentity(config({ uid: 'nobody-here' }), lookup)).toThrow('Unknown user: nobody-here');
+    expect(() => resolveSpawnIdentity(config({ gid: 'nogroup-here' }), lookup)).toThrow('Unknown group: nogroup-here');
+  });
+
+  it('should deny switching users without root', () => {
+    const lookup = { passwdFile, groupFile, currentUid: 1000, currentGid: 1000 };
+
+    expect(resolveSpawnIdentity(config({ uid: 'web' }), lookup).uid).toBe(1000);
+    try {
+      resolveSpawnIdentity(config({ uid: 'root' }), lookup);
+      expect.unreachable();
+    } catch (err) {
+      expect((err as { code: ErrorCode }).code).toBe(ErrorCode.PERMISSION_DENIED);
+    }
+    expect(() => resolveSpawnIdentity(config({ gid: 'staff' }), lookup)).toThrow('requires the daemon to run as root');
+  });
+
+  it('should validate nice and umask', () => {
+    const lookup = { currentUid: 1000 };
+
+    expect(resolveSpawnIdentity(config({ nice: 10, umask: '027' }), lookup)).toEqual({ nice: 10, umask: 0o027 });
+    expect(() => resolveSpawnIdentity(config({ nice: 20 }), lookup)).toThrow('Invalid nice value');
+    expect(() => resolveSpawnIdentity(config({ nice: -5 }), lookup)).toThrow('requires the daemon to run as root');
+    expect(resolveSpawnIdentity(config({ nice: -5 }), { currentUid: 0 }).nice).toBe(-5);
+    expect(() => resolveSpawnIdentity(config({ umask: 'rwx' }), lookup)).toThrow('Invalid umask: rwx');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { CronSchedule, resolveCron } from '../../packages/plugins/scheduler/src/index.js';
+import type { CronConfig, ProcessConfig } from '../../packages/core/src/index.js';
+
+const next = (expression: string, after: string, timezone = 'UTC'): string | undefined =>
+  new CronSchedule(expression, timezone).next(new Date(after))?.toISOString();
+
+/**
+ * Successive runs after a date
+ */
+const runs = (expression: string, after: string, count: number, timezone = 'UTC'): string[] => {
+  const schedule = new CronSchedule(expression, timezone);
+  const times: string[] = [];
+  let date = new Date(after);
+  for (let i = 0; i < count; i++) {
+    date = schedule.next(date)!;
+    times.push(date.toISOString());
+  }
+  return times;
+};
+
+const config = (cron: string | CronConfig): ProcessConfig => ({ name: 'nightly', script: 'nightly.js', cron });
+
+describe('CronSchedule', () => {
+  it('should find the next run of a 5-field expression', () => {
+    expect(next('30 2 * * *', '2026-10-19T12:00:00Z')).toBe('2026-10-20T02:30:00.000Z');
+    expect(next('30 2 * * *', '2026-10-19T02:29:59.500Z')).toBe('2026-10-19T02:30:00.000Z');
+    // Strictly after
+    expect(next('30 2 * * *', '2026-10-19T02:30:00Z')).toBe('2026-10-20T02:30:00.000Z');
+  });
+
+  it('should support seconds as a sixth field', () => {
+    expect(runs('*/15 * * * * *', '2026-10-19T12:00:07Z', 3)).toEqual([
+      '2026-10-19T12:00:15.000Z',
+      '2026-10-19T12:00:30.000Z',
+      '2026-10-19T12:00:45.000Z',
+    ]);
+  });
+
+  it('should support macros', () => {
+    expect(next('@hourly', '2026-10-19T12:30:00Z')).toBe('2026-10-19T13:00:00.000Z');
+    expect(next('@daily', '2026-10-19T12:30:00Z')).toBe('2026-10-20T00:00:00.000Z');
+    expect(next('@weekly', '2026-10-19T12:30:00Z')).toBe('2026-10-25T00:00:00.000Z');
+    expect(next('@monthly', '2026-10-19T12:30:00Z')).toBe('2026-11-01T00:00:00.000Z');
+    expect(next('@yearly', '2026-10-19T12:30:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should support ranges, steps, lists and names', () => {
+    expect(runs('0 9-17/4 * * mon-fri', '2026-10-23T12:00:00Z', 3)).toEqual([
+      '2026-10-23T13:00:00.000Z',
+      '2026-10-23T17:00:00.000Z',
+      '2026-10-26T09:00:00.000Z',
+    ]);
+    expect(runs('0 0 1,15 jan,jul *', '2026-10-19T00:00:00Z', 3)).toEqual([
+      '2027-01-01T00:00:00.000Z',
+      '2027-01-15T00:00:00.000Z',
+      '2027-07-01T00:00:00.000Z',
+    ]);
+    expect(next('45/5 * * * *', '2026-10-19T12:56:00Z')).toBe('2026-10-19T13:45:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // Fridays and the 13th
+    expect(runs('0 0 13 * 5', '2026-10-19T00:00:00Z', 3)).toEqual([
+      '2026-10-23T00:00:00.000Z',
+      '2026-10-30T00:00:00.000Z',
+      '2026-11-06T00:00:00.000Z',
+    ]);
+    // Only Fridays with any day of month
+    expect(next('0 0 * * 5', '2026-10-19T00:00:00Z')).toBe('2026-10-23T00:00:00.000Z');
+    expect(next('0 0 * * 7', '2026-10-19T00:00:00Z')).toBe('2026-10-25T00:00:00.000Z');
+  });
+
+  it('should find rare dates', () => {
+    expect(next('0 0 29 2 *', '2026-10-19T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 0 31 2 *', '2026-10-19T00:00:00Z')).toBeUndefined();
+  });
+
+  it('should run in a timezone across daylight saving changes', () => {
+    // Paris leaves summer time on 2026-10-25: 02:30 occurs twice and runs once
+    expect(runs('30 2 * * *', '2026-10-23T12:00:00Z', 3, 'Europe/Paris')).toEqual([
+      '2026-10-24T00:30:00.000Z',
+      '2026-10-25T00:30:00.000Z',
+      '2026-10-26T01:30:00.000Z',
+    ]);
+    // New York skips 02:00-03:00 on 2027-03-14
+    expect(runs('30 2 * * *', '2027-03-13T00:00:00Z', 2, 'America/New_York')).toEqual([
+      '2027-03-13T07:30:00.000Z',
+      '2027-03-15T06:30:00.000Z',
+    ]);
+  });
+
+  it('should reject invalid expressions and timezones', () => {
+    expect(() => new CronSchedule('* * *')).toThrow('expected 5 or 6 fields');
+    expect(() => new CronSchedule('60 * * * *')).toThrow('minute "60" is out of range 0-59');
+    expect(() => new CronSchedule('0 0 0 * *')).toThrow('day of month "0" is out of range');
+    expect(() => new CronSchedule('0 5-1 * * *')).toThrow('hour "5-1" is out of range');
+    expect(() => new CronSchedule('*/0 * * * *')).toThrow('invalid step');
+    expect(() => new CronSchedule('0 0 * * funday')).toThrow('invalid day of week "funday"');
+    expect(() => new CronSchedule('@reboot')).toThrow('Invalid cron expression "@reboot"');
+    expect(() => new CronSchedule('0 0 * * *', 'Mars/Olympus')).toThrow('Invalid timezone: Mars/Olympus');
+  });
+});
+
+describe('resolveCron', () => {
+  it('should return undefined without cron', () => {
+    expect(resolveCron({ name: 'api', script: 'api.js' })).toBeUndefined();
+  });
+
+  it('should apply defaults', () => {
+    const resolved = resolveCron(config('@daily'))!;
+    expect(resolved).toMatchObject({ overlap: 'skip', retries: 0, retryDelay: 10000, history: 20 });
+    expect(resolved.schedule.expression).toBe('@daily');
+
+    const zoned = resolveCron(config({ schedule: '0 3 * * *', timezone: 'Asia/Tokyo', retries: 2, overlap: 'replace' }))!;
+    expect(zoned).toMatchObject({ overlap: 'replace', retries: 2 });
+    expect(zoned.schedule.timezone).toBe('Asia/Tokyo');
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => resolveCron(config('0 0 * *'))).toThrow('Invalid cron expression');
+    expect(() => resolveCron(config('0 0 31 2 *'))).toThrow('never matches');
+    expect(() => resolveCron(config({ schedule: '@daily', overlap: 'queue' as never }))).toThrow('Invalid cron.overlap');
+    expect(() => resolveCron(config({ schedule: '@daily', retries: -1 }))).toThrow('Invalid cron.retries');
+    expect(() => resolveCron(config({ schedule: '@daily', retryDelay: -5 }))).toThrow('Invalid cron.retryDelay');
+    expect(() => resolveCron(config({ schedule: '@daily', history: 0 }))).toThrow('Invalid cron.history');
+  });
+});
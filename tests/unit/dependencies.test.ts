@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dependencyNames,
+  resolveDependencies,
+  resolveStartOrder,
+  type ResolvedDependency,
+} from '../../packages/plugins/process-manager/src/index.js';
+import type { ProcessConfig } from '../../packages/core/src/index.js';
+
+const config = (name: string, dependencies: ProcessConfig['dependencies'] = [], overrides: Partial<ProcessConfig> = {}): ProcessConfig => ({
+  name,
+  script: `${name}.js`,
+  dependencies,
+  ...overrides,
+});
+
+const healthCheck = { type: 'http' as const, url: 'http://localhost:3000/health' };
+
+describe('dependencyNames', () => {
+  it('should return the names of string and object dependencies', () => {
+    expect(dependencyNames(config('api', ['db', { name: 'cache', condition: 'online' }]))).toEqual(['db', 'cache']);
+    expect(dependencyNames({ name: 'api', script: 'api.js' })).toEqual([]);
+  });
+});
+
+describe('resolveDependencies', () => {
+  const configs = new Map([
+    ['db', config('db', [], { healthCheck })],
+    ['cache', config('cache')],
+    ['migrate', config('migrate', [], { autoRestart: 'on-failure' })],
+    ['seed', config('seed')],
+  ]);
+  const lookup = (name: string): ProcessConfig | undefined => configs.get(name);
+
+  it('should default to healthy with a healthCheck and online without', () => {
+    expect(resolveDependencies(config('api', ['db', 'cache']), lookup)).toEqual([
+      { name: 'db', condition: 'healthy' },
+      { name: 'cache', condition: 'online' },
+    ]);
+  });
+
+  it('should keep explicit conditions', () => {
+    expect(
+      resolveDependencies(
+        config('api', [
+          { name: 'db', condition: 'online' },
+          { name: 'migrate', condition: 'completed' },
+        ]),
+        lookup
+      )
+    ).toEqual([
+      { name: 'db', condition: 'online' },
+      { name: 'migrate', condition: 'completed' },
+    ]);
+  });
+
+  it('should reject unknown dependencies and invalid conditions', () => {
+    expect(() => resolveDependencies(config('api', ['queue']), lookup)).toThrow('depends on "queue" which is not configured');
+    expect(() => resolveDependencies(config('api', [{ name: 'db', condition: 'ready' as never }]), lookup)).toThrow(
+      'Invalid condition for dependency "db"'
+    );
+    expect(() => resolveDependencies(config('api', [{ name: 'cache', condition: 'healthy' }]), lookup)).toThrow(
+      'has no healthCheck'
+    );
+  });
+
+  it('should reject completed dependencies that restart after exiting with code 0', () => {
+    expect(() => resolveDependencies(config('api', [{ name: 'seed', condition: 'completed' }]), lookup)).toThrow(
+      'Dependency "seed" restarts when it exits with code 0'
+    );
+
+    const restarting = new Map([
+      ['always', config('seed', [], { autoRestart: 'always' })],
+      ['true', config('seed', [], { autoRestart: true })],
+      ['cron', config('seed', [], { cron: '@daily' })],
+      ['never', config('seed', [], { autoRestart: 'never' })],
+    ]);
+    const resolve = (key: string): ResolvedDependency[] =>
+      resolveDependencies(config('api', [{ name: 'seed', condition: 'completed' }]), () => restarting.get(key));
+    expect(() => resolve('always')).toThrow('never completes');
+    expect(() => resolve('true')).toThrow('never completes');
+    expect(() => resolve('cron')).toThrow('Dependency "seed" is a cron process');
+    expect(resolve('never')).toEqual([{ name: 'seed', condition: 'completed' }]);
+  });
+});
+
+describe('resolveStartOrder', () => {
+  it('should put dependencies first', () => {
+    const order = resolveStartOrder([
+      config('web', ['api']),
+      config('api', ['db', 'cache']),
+      config('cache'),
+      config('db'),
+    ]);
+
+    expect(order).toHaveLength(4);
+    expect(order.indexOf('db')).toBeLessThan(order.indexOf('api'));
+    expect(order.indexOf('cache')).toBeLessThan(order.indexOf('api'));
+    expect(order.indexOf('api')).toBeLessThan(order.indexOf('web'));
+  });
+
+  it('should ignore dependencies outside the configs', () => {
+    expect(resolveStartOrder([config('api', ['db'])])).toEqual(['api']);
+  });
+
+  it('should name the cycle of circular dependencies', () => {
+    expect(() => resolveStartOrder([config('api', ['worker']), config('worker', ['api'])])).toThrow(
+      'Circular dependency: api -> worker -> api'
+    );
+    expect(() => resolveStartOrder([config('api', ['api'])])).toThrow('Circular dependency: api -> api');
+  });
+});
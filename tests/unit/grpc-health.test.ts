@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createHealthCheck,
+  encodeHealthCheckRequest,
+  decodeHealthCheckResponse,
+  encodeGrpcFrame,
+  decodeGrpcFrame,
+  decodeGrpcMessage,
+  GrpcServingStatus,
+  GRPC_HEALTH_CHECK_PATH,
+} from '../../packages/plugins/health-check/src/index.js';
+import { createServer, type Http2Server } from 'http2';
+import type { AddressInfo } from 'net';
+
+/**
+ * Decode the service name from a HealthCheckRequest (field 1, short strings only)
+ */
+function decodeService(message: Buffer): string {
+  return message.length === 0 ? '' : message.subarray(2, 2 + message[1]!).toString('utf-8');
+}
+
+describe('gRPC health check', () => {
+  describe('encoding', () => {
+    it('should encode requests', () => {
+      expect(encodeHealthCheckRequest()).toEqual(Buffer.alloc(0));
+      expect(encodeHealthCheckRequest('api')).toEqual(Buffer.from([0x0a, 3, 0x61, 0x70, 0x69]));
+    });
+
+    it('should decode responses and skip unknown fields', () => {
+      expect(decodeHealthCheckResponse(Buffer.from([0x08, 0x01]))).toBe(GrpcServingStatus.SERVING);
+      expect(decodeHealthCheckResponse(Buffer.alloc(0))).toBe(GrpcServingStatus.UNKNOWN);
+      expect(decodeHealthCheckResponse(Buffer.from([0x12, 0x02, 0x68, 0x69, 0x08, 0x02]))).toBe(
+        GrpcServingStatus.NOT_SERVING
+      );
+      expect(() => decodeHealthCheckResponse(Buffer.from([0x12, 0x05, 0x68]))).toThrow('Truncated');
+    });
+
+    it('should frame messages', () => {
+      const frame = encodeGrpcFrame(Buffer.from([0x08, 0x01]));
+      expect(frame).toEqual(Buffer.from([0, 0, 0, 0, 2, 0x08, 0x01]));
+      expect(decodeGrpcFrame(frame)).toEqual(Buffer.from([0x08, 0x01]));
+      expect(decodeGrpcFrame(frame.subarray(0, 6))).toBeUndefined();
+    });
+
+    it('should decode percent-encoded messages and keep malformed ones', () => {
+      expect(decodeGrpcMessage('not%20ready')).toBe('not ready');
+      expect(decodeGrpcMessage('50% done')).toBe('50% done');
+    });
+  });
+
+  describe('probe', () => {
+    let server: Http2Server;
+    let port: number;
+    const statuses: Record<string, number> = {
+      '': GrpcServingStatus.SERVING,
+      api: GrpcServingStatus.SERVING,
+      worker: GrpcServingStatus.NOT_SERVING,
+    };
+
+    beforeAll(async () => {
+      server = createServer();
+      server.on('stream', (stream, headers) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          if (headers[':path'] !== GRPC_HEALTH_CHECK_PATH) {
+            stream.respond({ ':status': 200, 'content-type': 'application/grpc', 'grpc-status': '12' }, {
+              endStream: true,
+            });
+            return;
+          }
+
+          const service = decodeService(decodeGrpcFrame(Buffer.concat(chunks))!);
+          if (service === 'busy') {
+            // Unencoded, as some servers send it
+            stream.respond(
+              { ':status': 200, 'content-type': 'application/grpc', 'grpc-status': '14', 'grpc-message': '50% done' },
+              { endStream: true }
+            );
+            return;
+          }
+          const status = statuses[service];
+          if (status === undefined) {
+            stream.respond({ ':status': 200, 'content-type': 'application/grpc', 'grpc-status': '5' }, {
+              endStream: true,
+            });
+            return;
+          }
+
+          stream.respond({ ':status': 200, 'content-type': 'application/grpc' }, { waitForTrailers: true });
+          stream.on('wantTrailers', () => {
+            stream.sendTrailers({ 'grpc-status': '0' });
+          });
+          stream.end(encodeGrpcFrame(Buffer.from([0x08, status])));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should require a port', () => {
+      expect(() => createHealthCheck({ type: 'grpc' })).toThrow('requires a port');
+    });
+
+    it('should report SERVING as healthy', async () => {
+      const target = { name: 'api', pids: [] };
+      expect(await createHealthCheck({ type: 'grpc', port }).check(target)).toEqual({
+        healthy: true,
+        message: 'SERVING',
+      });
+      expect((await createHealthCheck({ type: 'grpc', port, service: 'api' }).check(target)).healthy).toBe(true);
+    });
+
+    it('should report other serving statuses and unknown services as unhealthy', async () => {
+      const target = { name: 'api', pids: [] };
+      expect(await createHealthCheck({ type: 'grpc', port, service: 'worker' }).check(target)).toEqual({
+        healthy: false,
+        message: 'NOT_SERVING',
+      });
+      expect(await createHealthCheck({ type: 'grpc', port, service: 'missing' }).check(target)).toEqual({
+        healthy: false,
+        message: 'Unknown service: missing',
+      });
+    });
+
+    it('should report malformed grpc-message values as sent', async () => {
+      expect(await createHealthCheck({ type: 'grpc', port, service: 'busy' }).check({ name: 'api', pids: [] })).toEqual({
+        healthy: false,
+        message: 'gRPC status 14: 50% done',
+      });
+    });
+
+    it('should report connection failures', async () => {
+      const closed = createServer();
+      await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+      const closedPort = (closed.address() as AddressInfo).port;
+      await new Promise((resolve) => closed.close(resolve));
+
+      const result = await createHealthCheck({ type: 'grpc', port: closedPort, timeout: 1000 }).check({
+        name: 'api',
+        pids: [],
+      });
+      expect(result.healthy).toBe(false);
+      expect(result.message).toContain('ECONNREFUSED');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHealthCheck } from '../../packages/plugins/health-check/src/index.js';
+import { DaemonError } from '../../packages/core/src/index.js';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { isProcessRunning } from '../../packages/plugins/process-manager/src/index.js';
+
+const target = { name: 'api', pids: [process.pid] };
+
+describe('health probes', () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/health') {
+        res.writeHead(200);
+        res.end('{"status":"ok"}');
+      } else {
+        res.writeHead(503);
+        res.end('down');
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should reject incomplete configs', () => {
+    expect(() => createHealthCheck({ type: 'http' })).toThrow(DaemonError);
+    expect(() => createHealthCheck({ type: 'tcp' })).toThrow(DaemonError);
+    expect(() => createHealthCheck({ type: 'composite', checks: [] })).toThrow(DaemonError);
+  });
+
+  it('should check http status and body', async () => {
+    const url = `http://127.0.0.1:${port}`;
+    expect((await createHealthCheck({ type: 'http', url: `${url}/health` }).check(target)).healthy).toBe(true);
+    expect(
+      (await createHealthCheck({ type: 'http', url: `${url}/health`, expectedBody: '"ok"' }).check(target)).healthy
+    ).toBe(true);
+
+    const down = await createHealthCheck({ type: 'http', url: `${url}/other` }).check(target);
+    expect(down).toEqual({ healthy: false, message: 'Unexpected status 503' });
+    expect(
+      (await createHealthCheck({ type: 'http', url: `${url}/other`, expectedStatus: [503] }).check(target)).healthy
+    ).toBe(true);
+  });
+
+  it('should check tcp connectivity', async () => {
+    expect((await createHealthCheck({ type: 'tcp', port }).check(target)).healthy).toBe(true);
+
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    expect((await createHealthCheck({ type: 'tcp', port: closedPort }).check(target)).healthy).toBe(false);
+  });
+
+  it('should check command exit codes and timeouts', async () => {
+    expect((await createHealthCheck({ type: 'command', command: 'exit 0' }).check(target)).healthy).toBe(true);
+    expect(await createHealthCheck({ type: 'command', command: 'exit 2' }).check(target)).toEqual({
+      healthy: false,
+      message: 'Exited with code 2',
+    });
+    expect(
+      (await createHealthCheck({ type: 'script', command: process.execPath, args: ['-e', ''] }).check(target)).healthy
+    ).toBe(true);
+
+    const slow = await createHealthCheck({ type: 'command', command: 'sleep 5', timeout: 100 }).check(target);
+    expect(slow).toEqual({ healthy: false, message: 'Timed out after 100ms' });
+  });
+
+  it('should kill the commands a timed out shell runs', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'od-probe-'));
+    const pidFile = join(dir, 'pid');
+    try {
+      const result = await createHealthCheck({
+        type: 'command',
+        command: `sleep 30 & echo $! > ${pidFile}; wait`,
+        timeout: 300,
+      }).check(target);
+      expect(result).toEqual({ healthy: false, message: 'Timed out after 300ms' });
+
+      await new Promise((r) => setTimeout(r, 100));
+      expect(isProcessRunning(Number(readFileSync(pidFile, 'utf-8')))).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should combine composite checks', async () => {
+    const failing = { type: 'command' as const, command: 'exit 1' };
+    const passing = { type: 'process' as const };
+
+    expect((await createHealthCheck({ type: 'composite', checks: [failing, passing] }).check(target)).healthy).toBe(false);
+    expect(
+      (await createHealthCheck({ type: 'composite', operator: 'or', checks: [failing, passing] }).check(target)).healthy
+    ).toBe(true);
+  });
+
+  it('should check that processes are alive', async () => {
+    const check = createHealthCheck({ type: 'process' });
+    expect((await check.check(target)).healthy).toBe(true);
+    expect((await check.check({ name: 'api', pids: [] })).healthy).toBe(false);
+  });
+
+  it.skipIf(process.platform !== 'linux')('should check memory against the threshold', async () => {
+    expect((await createHealthCheck({ type: 'memory', threshold: 1024 ** 4 }).check(target)).healthy).toBe(true);
+    expect((await createHealthCheck({ type: 'memory', threshold: 1024 }).check(target)).healthy).toBe(false);
+  });
+});
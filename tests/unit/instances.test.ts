@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { resolveInstanceCount, resolveScaleTarget } from '../../packages/plugins/process-manager/src/index.js';
+import { ErrorCode, type InstanceCount } from '../../packages/core/src/index.js';
+
+describe('resolveInstanceCount', () => {
+  const resolve = (instances: InstanceCount | undefined, cpus = 8): number => resolveInstanceCount('app', instances, cpus);
+
+  it('should default to one instance', () => {
+    expect(resolve(undefined)).toBe(1);
+    expect(resolve(3)).toBe(3);
+    expect(resolve('3')).toBe(3);
+  });
+
+  it('should run one instance per CPU for max and 0', () => {
+    expect(resolve('max')).toBe(8);
+    expect(resolve(0)).toBe(8);
+    expect(resolve('max', 1)).toBe(1);
+  });
+
+  it('should subtract negative counts from the CPUs', () => {
+    expect(resolve(-1)).toBe(7);
+    expect(resolve('-2')).toBe(6);
+    expect(resolve(-1, 1)).toBe(1);
+    expect(resolve(-16)).toBe(1);
+  });
+
+  it('should take percentages of the CPUs', () => {
+    expect(resolve('50%')).toBe(4);
+    expect(resolve('30%')).toBe(2);
+    expect(resolve('100%', 12)).toBe(12);
+    expect(resolve('10%', 2)).toBe(1);
+  });
+
+  it('should reject other values', () => {
+    for (const value of ['lots', '%', '0%', '150%', '1.5', ''] as InstanceCount[]) {
+      expect(() => resolve(value), String(value)).toThrow('Invalid instances');
+    }
+    try {
+      resolve(2.5);
+      expect.unreachable();
+    } catch (err) {
+      expect((err as { code: ErrorCode }).code).toBe(ErrorCode.PROCESS_INVALID_CONFIG);
+    }
+  });
+});
+
+describe('resolveScaleTarget', () => {
+  const resolve = (instances: InstanceCount | string, current = 4): number =>
+    resolveScaleTarget('app', current, instances, 8);
+
+  it('should add and remove instances relative to the current count', () => {
+    expect(resolve('+2')).toBe(6);
+    expect(resolve('-1')).toBe(3);
+    expect(resolve('-10')).toBe(1);
+  });
+
+  it('should take other values as absolute counts', () => {
+    expect(resolve(2)).toBe(2);
+    expect(resolve('6')).toBe(6);
+    expect(resolve('max')).toBe(8);
+    expect(resolve('50%')).toBe(4);
+    expect(resolve(-1)).toBe(7);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => resolve('+')).toThrow('Invalid instances');
+    expect(() => resolve('+1.5')).toThrow('Invalid instances');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  resolveSpawnCommand,
+  detectInterpreter,
+  readShebang,
+} from '../../packages/plugins/process-manager/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('interpreter', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-interpreter-'));
+    writeFileSync(join(dir, 'app.js'), '');
+    writeFileSync(join(dir, 'worker.py'), '');
+    writeFileSync(join(dir, 'env-tool'), '#!/usr/bin/env -S node --no-warnings\n');
+    writeFileSync(join(dir, 'sh-tool'), '#!/bin/sh -e\necho hi\n');
+    writeFileSync(join(dir, 'binary'), Buffer.from([0x7f, 0x45, 0x4c, 0x46]));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read shebangs', () => {
+    expect(readShebang(join(dir, 'env-tool'))).toEqual(['node', '--no-warnings']);
+    expect(readShebang(join(dir, 'sh-tool'))).toEqual(['/bin/sh', '-e']);
+    expect(readShebang(join(dir, 'binary'))).toBeUndefined();
+    expect(readShebang(join(dir, 'missing'))).toBeUndefined();
+  });
+
+  it('should detect interpreters by extension before shebang', () => {
+    expect(detectInterpreter(join(dir, 'app.js'))).toEqual(['node']);
+    expect(detectInterpreter(join(dir, 'worker.py'))).toEqual(['python3']);
+    expect(detectInterpreter(join(dir, 'sh-tool'))).toEqual(['/bin/sh', '-e']);
+    expect(detectInterpreter(join(dir, 'binary'))).toBeUndefined();
+  });
+
+  it('should run node scripts on the daemon Node.js with IPC', () => {
+    const script = join(dir, 'app.js');
+    expect(
+      resolveSpawnCommand({ name: 'app', script, args: ['--port', '80'], interpreterArgs: ['--inspect'] }, script)
+    ).toEqual({
+      command: process.execPath,
+      args: ['--inspect', script, '--port', '80'],
+      interpreterArgs: ['--inspect'],
+      ipc: true,
+    });
+
+    const tool = join(dir, 'env-tool');
+    expect(resolveSpawnCommand({ name: 'tool', script: tool }, tool)).toEqual({
+      command: process.execPath,
+      args: ['--no-warnings', tool],
+      interpreterArgs: ['--no-warnings'],
+      ipc: true,
+    });
+  });
+
+  it('should run other interpreters without IPC', () => {
+    const script = join(dir, 'worker.py');
+    expect(resolveSpawnCommand({ name: 'worker', script, interpreterArgs: ['-u'] }, script)).toEqual({
+      command: 'python3',
+      args: ['-u', script],
+      interpreterArgs: ['-u'],
+      ipc: false,
+    });
+    expect(resolveSpawnCommand({ name: 'worker', script, interpreter: 'pypy3', ipc: true }, script)).toEqual({
+      command: 'pypy3',
+      args: [script],
+      interpreterArgs: [],
+      ipc: true,
+    });
+  });
+
+  it('should execute binaries directly', () => {
+    const binary = join(dir, 'binary');
+    expect(resolveSpawnCommand({ name: 'bin', script: binary, args: ['-v'] }, binary)).toEqual({
+      command: binary,
+      args: ['-v'],
+      interpreterArgs: [],
+      ipc: false,
+    });
+
+    const script = join(dir, 'app.js');
+    expect(resolveSpawnCommand({ name: 'app', script, interpreter: 'none' }, script).command).toBe(script);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseLogLine, readLastLines } from '../../packages/plugins/log-manager/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('parseLogLine', () => {
+  it('should split a formatted line', () => {
+    expect(parseLogLine('2026-01-15T10:30:00.000Z [stderr] boom [x]')).toEqual({
+      timestamp: '2026-01-15T10:30:00.000Z',
+      source: 'stderr',
+      message: 'boom [x]',
+    });
+  });
+
+  it('should reject foreign lines', () => {
+    expect(parseLogLine('plain text')).toBeUndefined();
+  });
+});
+
+describe('readLastLines', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-log-reader-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return the last lines in file order', () => {
+    const file = join(dir, 'app.log');
+    writeFileSync(file, 'one\ntwo\nthree\nfour\n');
+    expect(readLastLines(file, 2)).toEqual(['three', 'four']);
+    expect(readLastLines(file, 10)).toEqual(['one', 'two', 'three', 'four']);
+  });
+
+  it('should read across chunk boundaries', () => {
+    const file = join(dir, 'big.log');
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    writeFileSync(file, lines.join('\n') + '\n');
+    expect(readLastLines(file, 3)).toEqual(['line 19997', 'line 19998', 'line 19999']);
+  });
+
+  it('should return nothing for missing files', () => {
+    expect(readLastLines(join(dir, 'missing.log'), 5)).toEqual([]);
+  });
+});
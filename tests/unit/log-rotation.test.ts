@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  LogRotator,
+  LogWriter,
+  formatDate,
+  listRotatedFiles,
+} from '../../packages/plugins/log-manager/src/index.js';
+import type { ProcessLogEntry } from '../../packages/core/src/index.js';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync, utimesSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+
+function entry(message: string): ProcessLogEntry {
+  return {
+    timestamp: '2026-01-15T10:30:00.000Z',
+    processName: 'api',
+    instanceId: 0,
+    source: 'stdout',
+    message,
+  };
+}
+
+describe('formatDate', () => {
+  it('should replace date tokens in local time', () => {
+    const date = new Date(2026, 0, 5, 7, 8, 9);
+    expect(formatDate(date, 'YYYY-MM-DD')).toBe('2026-01-05');
+    expect(formatDate(date, 'YYYY-MM-DD_HH-mm-ss')).toBe('2026-01-05_07-08-09');
+  });
+});
+
+describe('LogRotator', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-rotate-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate when maxSize would be exceeded', () => {
+    const rotator = new LogRotator({ maxSize: 100 });
+    const now = new Date();
+    expect(rotator.shouldRotate({ size: 50, period: undefined }, 40, now)).toBe(false);
+    expect(rotator.shouldRotate({ size: 90, period: undefined }, 20, now)).toBe(true);
+  });
+
+  it('should never rotate an empty file', () => {
+    const rotator = new LogRotator({ maxSize: 10 });
+    expect(rotator.shouldRotate({ size: 0, period: undefined }, 100, new Date())).toBe(false);
+  });
+
+  it('should rotate when crossing a datePattern boundary', () => {
+    const rotator = new LogRotator({ datePattern: 'YYYY-MM-DD' });
+    const today = new Date(2026, 0, 15, 23, 59);
+    const tomorrow = new Date(2026, 0, 16, 0, 1);
+    const state = { size: 10, period: rotator.periodOf(today) };
+    expect(rotator.shouldRotate(state, 1, today)).toBe(false);
+    expect(rotator.shouldRotate(state, 1, tomorrow)).toBe(true);
+  });
+
+  it('should pick unique rotated paths', () => {
+    const rotator = new LogRotator({ datePattern: 'YYYY-MM-DD', directory: 'archive' });
+    const path = join(dir, 'api-out.log');
+    const first = rotator.rotatedPathFor(path, '2026-01-15', new Date());
+    expect(first).toBe(join(dir, 'archive', 'api-out__2026-01-15.log'));
+
+    writeFileSync(join(dir, 'api-out__2026-01-15.log.gz'), '');
+    const local = new LogRotator({ datePattern: 'YYYY-MM-DD' });
+    expect(local.rotatedPathFor(path, '2026-01-15', new Date())).toBe(
+      join(dir, 'api-out__2026-01-15.1.log')
+    );
+  });
+
+  it('should prune by maxFiles and maxAge', async () => {
+    const path = join(dir, 'api-out.log');
+    const now = Date.now();
+    for (let i = 1; i <= 4; i++) {
+      const file = join(dir, `api-out__2026-01-0${i}.log`);
+      writeFileSync(file, 'x');
+      const time = new Date(now - i * 86_400_000);
+      utimesSync(file, time, time);
+    }
+    writeFileSync(join(dir, 'api-out-1.log'), 'other instance');
+
+    const byCount = new LogRotator({ maxSize: 1, maxFiles: 3 });
+    const removed = await byCount.prune(path, now);
+    expect(removed).toEqual([join(dir, 'api-out__2026-01-04.log')]);
+
+    const byAge = new LogRotator({ maxSize: 1, maxAge: '36h' });
+    await byAge.prune(path, now);
+    expect(listRotatedFiles(path).map((f) => f.path)).toEqual([join(dir, 'api-out__2026-01-01.log')]);
+    expect(existsSync(join(dir, 'api-out-1.log'))).toBe(true);
+  });
+});
+
+describe('LogWriter rotation', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-rotate-writer-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rotate by size and keep every line', async () => {
+    const writer = new LogWriter(
+      { name: 'api', script: 'api.js', logRotation: { maxSize: 200, maxFiles: 10 } },
+      dir
+    );
+    for (let i = 0; i < 10; i++) {
+      writer.write(entry(`line number ${i}`));
+    }
+    await writer.close();
+
+    const rotated = listRotatedFiles(join(dir, 'api-out.log'));
+    expect(rotated.length).toBeGreaterThan(0);
+
+    const all = [join(dir, 'api-out.log'), ...rotated.map((f) => f.path)]
+      .map((file) => readFileSync(file, 'utf-8'))
+      .join('');
+    for (let i = 0; i < 10; i++) {
+      expect(all).toContain(`line number ${i}`);
+    }
+  });
+
+  it('should gzip rotated files when compress is set', async () => {
+    const writer = new LogWriter(
+      { name: 'api', script: 'api.js', logRotation: { maxSize: 60, compress: true } },
+      dir
+    );
+    writer.write(entry('first line'));
+    writer.write(entry('second line'));
+    await writer.close();
+
+    const gz = readdirSync(dir).filter((name) => name.endsWith('.log.gz'));
+    expect(gz).toHaveLength(1);
+    expect(gunzipSync(readFileSync(join(dir, gz[0]!))).toString()).toContain('first line');
+    expect(readFileSync(join(dir, 'api-out.log'), 'utf-8')).toContain('second line');
+  });
+
+  it('should rotate a file left over from a previous period', async () => {
+    const path = join(dir, 'api-out.log');
+    writeFileSync(path, 'yesterday\n');
+    const yesterday = new Date(Date.now() - 86_400_000);
+    utimesSync(path, yesterday, yesterday);
+
+    const writer = new LogWriter(
+      { name: 'api', script: 'api.js', logRotation: { datePattern: 'YYYY-MM-DD' } },
+      dir
+    );
+    writer.write(entry('today'));
+    await writer.close();
+
+    const rotated = listRotatedFiles(path);
+    expect(rotated).toHaveLength(1);
+    expect(rotated[0]!.path).toContain(formatDate(yesterday, 'YYYY-MM-DD'));
+    expect(readFileSync(path, 'utf-8')).not.toContain('yesterday');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  detectLevel,
+  parseTimeBound,
+  compileSearchFilter,
+  searchLogFiles,
+  gzipFile,
+  type LogSearchFile,
+} from '../../packages/plugins/log-manager/src/index.js';
+import { DaemonError } from '../../packages/core/src/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('detectLevel', () => {
+  it('should read JSON level fields', () => {
+    expect(detectLevel('{"level":50,"msg":"boom"}')).toBe('error');
+    expect(detectLevel('{"level":"warning","msg":"hm"}')).toBe('warn');
+  });
+
+  it('should read logfmt and keyword levels', () => {
+    expect(detectLevel('time=1 level=debug msg=hi')).toBe('debug');
+    expect(detectLevel('[ERROR] connection refused')).toBe('error');
+    expect(detectLevel('WARN: disk almost full')).toBe('warn');
+  });
+
+  it('should return undefined without a level', () => {
+    expect(detectLevel('Server listening on :3000')).toBeUndefined();
+  });
+});
+
+describe('parseTimeBound', () => {
+  const now = Date.parse('2026-01-15T10:30:00.000Z');
+
+  it('should treat durations as time before now', () => {
+    expect(parseTimeBound('15m', now)).toBe(now - 15 * 60 * 1000);
+  });
+
+  it('should parse dates and epoch milliseconds', () => {
+    expect(parseTimeBound('2026-01-15T10:00:00.000Z', now)).toBe(Date.parse('2026-01-15T10:00:00.000Z'));
+    expect(parseTimeBound(1234, now)).toBe(1234);
+    // As sent by the CLI
+    expect(parseTimeBound('1700000000000', now)).toBe(1700000000000);
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseTimeBound('yesterday-ish', now)).toThrow(DaemonError);
+  });
+});
+
+describe('compileSearchFilter', () => {
+  it('should reject invalid patterns', () => {
+    expect(() => compileSearchFilter({ pattern: '(' })).toThrow('Invalid pattern');
+  });
+});
+
+describe('searchLogFiles', () => {
+  let dir: string;
+  let files: LogSearchFile[];
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'od-log-search-'));
+
+    const rotated = join(dir, 'api-out__2026-01-14.log');
+    writeFileSync(
+      rotated,
+      [
+        '2026-01-14T09:00:00.000Z [stdout] [INFO] booting',
+        '2026-01-14T09:00:01.000Z [stdout] [ERROR] db timeout',
+      ].join('\n') + '\n'
+    );
+    await gzipFile(rotated);
+
+    const live = join(dir, 'api-out.log');
+    writeFileSync(
+      live,
+      [
+        '2026-01-15T10:00:00.000Z [stdout] [INFO] request ok',
+        '2026-01-15T10:00:01.000Z [stdout] [ERROR] db timeout again',
+        '2026-01-15T10:00:02.000Z [stdout] [ERROR] disk full',
+      ].join('\n') + '\n'
+    );
+
+    const base = { processName: 'api', instanceId: 0, sources: ['stdout' as const] };
+    files = [
+      { ...base, path: `${rotated}.gz`, compressed: true },
+      { ...base, path: live, compressed: false },
+    ];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should search gzipped and live files in order', async () => {
+    const result = await searchLogFiles(files, compileSearchFilter({ pattern: 'db timeout' }));
+    expect(result.matches.map((m) => m.message)).toEqual(['[ERROR] db timeout', '[ERROR] db timeout again']);
+    expect(result.matches[0]?.level).toBe('error');
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('should filter by time window and level', async () => {
+    const filter = compileSearchFilter({
+      since: '2026-01-15T00:00:00.000Z',
+      until: '2026-01-15T10:00:01.500Z',
+      levels: ['error'],
+    });
+    const result = await searchLogFiles(files, filter);
+    expect(result.matches.map((m) => m.message)).toEqual(['[ERROR] db timeout again']);
+  });
+
+  it('should paginate with cursors', async () => {
+    const filter = compileSearchFilter({ levels: ['error'] });
+
+    const first = await searchLogFiles(files, filter, 2);
+    expect(first.matches).toHaveLength(2);
+    expect(first.nextCursor?.file).toBe(files[1]!.path);
+
+    const second = await searchLogFiles(files, filter, 2, first.nextCursor);
+    expect(second.matches.map((m) => m.message)).toEqual(['[ERROR] disk full']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should reject cursors for unknown files', async () => {
+    await expect(
+      searchLogFiles(files, compileSearchFilter({}), 10, { file: join(dir, 'gone.log'), offset: 0 })
+    ).rejects.toThrow('Invalid cursor');
+  });
+});
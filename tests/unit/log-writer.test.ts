@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  LogWriter,
+  resolveLogPaths,
+  formatLogLine,
+} from '../../packages/plugins/log-manager/src/index.js';
+import type { ProcessConfig, ProcessLogEntry } from '../../packages/core/src/index.js';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+function entry(overrides: Partial<ProcessLogEntry> = {}): ProcessLogEntry {
+  return {
+    timestamp: '2026-01-15T10:30:00.000Z',
+    processName: 'api',
+    instanceId: 0,
+    pid: 1234,
+    source: 'stdout',
+    message: 'hello',
+    ...overrides,
+  };
+}
+
+describe('resolveLogPaths', () => {
+  const logDir = '/var/log/od';
+
+  it('should default to out and error files in the log directory', () => {
+    const paths = resolveLogPaths({ name: 'api', script: 'api.js' }, logDir);
+    expect(paths.out).toBe('/var/log/od/api-out.log');
+    expect(paths.err).toBe('/var/log/od/api-error.log');
+  });
+
+  it('should honor logFile and errorLogFile relative to cwd', () => {
+    const config: ProcessConfig = {
+      name: 'api',
+      script: 'api.js',
+      cwd: '/srv/api',
+      logFile: 'logs/out.log',
+      errorLogFile: '/tmp/err.log',
+    };
+    const paths = resolveLogPaths(config, logDir);
+    expect(paths.out).toBe('/srv/api/logs/out.log');
+    expect(paths.err).toBe('/tmp/err.log');
+  });
+
+  it('should send stderr to the out file when mergeLogs is set', () => {
+    const paths = resolveLogPaths({ name: 'api', script: 'api.js', mergeLogs: true }, logDir);
+    expect(paths.err).toBe(paths.out);
+  });
+
+  it('should add instance suffixes in cluster mode', () => {
+    const config: ProcessConfig = { name: 'api', script: 'api.js', mode: 'cluster', instances: 4 };
+    const paths = resolveLogPaths(config, logDir, 2);
+    expect(paths.out).toBe('/var/log/od/api-out-2.log');
+    expect(paths.err).toBe('/var/log/od/api-error-2.log');
+  });
+
+  it('should not add suffixes for a single cluster instance', () => {
+    const config: ProcessConfig = { name: 'api', script: 'api.js', mode: 'cluster', instances: 1 };
+    expect(resolveLogPaths(config, logDir, 0).out).toBe('/var/log/od/api-out.log');
+  });
+});
+
+describe('formatLogLine', () => {
+  it('should prefix timestamp and source', () => {
+    expect(formatLogLine(entry({ source: 'stderr', message: 'boom' }))).toBe(
+      '2026-01-15T10:30:00.000Z [stderr] boom'
+    );
+  });
+});
+
+describe('LogWriter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'od-logs-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write stdout and stderr to separate files', async () => {
+    const writer = new LogWriter({ name: 'api', script: 'api.js' }, dir);
+    writer.write(entry({ message: 'out line' }));
+    writer.write(entry({ source: 'stderr', message: 'err line' }));
+    await writer.close();
+
+    expect(readFileSync(join(dir, 'api-out.log'), 'utf-8')).toContain('[stdout] out line');
+    expect(readFileSync(join(dir, 'api-error.log'), 'utf-8')).toContain('[stderr] err line');
+  });
+
+  it('should merge streams into one file', async () => {
+    const writer = new LogWriter({ name: 'api', script: 'api.js', mergeLogs: true }, dir);
+    writer.write(entry({ message: 'first' }));
+    writer.write(entry({ source: 'stderr', message: 'second' }));
+    await writer.close();
+
+    const lines = readFileSync(join(dir, 'api-out.log'), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(existsSync(join(dir, 'api-error.log'))).toBe(false);
+  });
+
+  it('should create missing directories', async () => {
+    const logFile = join(dir, 'nested', 'deep', 'app.log');
+    const writer = new LogWriter({ name: 'api', script: 'api.js', logFile }, dir);
+    writer.write(entry());
+    expect(writer.getOpenFiles()).toEqual([logFile]);
+    await writer.close();
+
+    expect(existsSync(logFile)).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OutputBuffer,
+  resolveBufferLimits,
+  DEFAULT_BUFFER_LINES,
+  DEFAULT_BUFFER_BYTES,
+} from '../../packages/plugins/process-manager/src/index.js';
+import type { ProcessLogEntry } from '../../packages/core/src/index.js';
+
+function entry(message: string): ProcessLogEntry {
+  return {
+    timestamp: '2026-01-15T10:30:00.000Z',
+    processName: 'api',
+    instanceId: 0,
+    source: 'stdout',
+    message,
+  };
+}
+
+describe('resolveBufferLimits', () => {
+  it('should apply defaults', () => {
+    expect(resolveBufferLimits(undefined)).toEqual({
+      lines: DEFAULT_BUFFER_LINES,
+      bytes: DEFAULT_BUFFER_BYTES,
+    });
+  });
+
+  it('should parse byte sizes', () => {
+    expect(resolveBufferLimits({ lines: 10, bytes: '1K' })).toEqual({ lines: 10, bytes: 1024 });
+  });
+});
+
+describe('OutputBuffer', () => {
+  it('should keep the most recent lines in order', () => {
+    const buffer = new OutputBuffer({ lines: 3, bytes: 1024 });
+    for (const message of ['a', 'b', 'c', 'd', 'e']) {
+      buffer.push(entry(message));
+    }
+
+    expect(buffer.toArray().map((e) => e.message)).toEqual(['c', 'd', 'e']);
+    expect(buffer.toArray(2).map((e) => e.message)).toEqual(['d', 'e']);
+  });
+
+  it('should evict lines to stay within the byte limit', () => {
+    const buffer = new OutputBuffer({ lines: 100, bytes: 10 });
+    buffer.push(entry('aaaa'));
+    buffer.push(entry('bbbb'));
+    buffer.push(entry('cccc'));
+
+    expect(buffer.toArray().map((e) => e.message)).toEqual(['bbbb', 'cccc']);
+    expect(buffer.byteLength).toBe(8);
+  });
+
+  it('should truncate lines larger than the byte limit', () => {
+    const buffer = new OutputBuffer({ lines: 10, bytes: 4 });
+    buffer.push(entry('abcdefgh'));
+
+    expect(buffer.toArray().map((e) => e.message)).toEqual(['abcd']);
+  });
+
+  it('should keep recent lines when resized', () => {
+    const buffer = new OutputBuffer({ lines: 5, bytes: 1024 });
+    for (const message of ['a', 'b', 'c', 'd']) {
+      buffer.push(entry(message));
+    }
+    buffer.resize({ lines: 2, bytes: 1024 });
+
+    expect(buffer.toArray().map((e) => e.message)).toEqual(['c', 'd']);
+    buffer.push(entry('e'));
+    expect(buffer.toArray().map((e) => e.message)).toEqual(['d', 'e']);
+  });
+
+  it('should store nothing when disabled', () => {
+    const buffer = new OutputBuffer({ lines: 0, bytes: 1024 });
+    buffer.push(entry('a'));
+    expect(buffer.length).toBe(0);
+  });
+});
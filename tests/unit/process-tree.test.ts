@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDescendants,
+  isProcessRunning,
+  readProcessTable,
+} from '../../packages/plugins/process-manager/src/index.js';
+
+describe('process tree', () => {
+  it('should walk descendants breadth first', () => {
+    const table = new Map([
+      [10, 1],
+      [11, 10],
+      [12, 10],
+      [13, 11],
+      [20, 1],
+    ]);
+
+    expect(getDescendants(10, table)).toEqual([11, 12, 13]);
+    expect(getDescendants(13, table)).toEqual([]);
+  });
+
+  it('should detect running processes', () => {
+    expect(isProcessRunning(process.pid)).toBe(true);
+    expect(isProcessRunning(2 ** 22 + 1)).toBe(false);
+  });
+
+  it.skipIf(process.platform !== 'linux')('should read the process table from /proc', () => {
+    const table = readProcessTable();
+    expect(table.get(process.pid)).toBe(process.ppid);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { resolveResourceLimits, LimitWatcher } from '../../packages/plugins/resource-limiter/src/index.js';
+import { resolveMaxOldSpaceSize, resolveSpawnCommand } from '../../packages/plugins/process-manager/src/index.js';
+import { ErrorCode, type ProcessConfig } from '../../packages/core/src/index.js';
+
+describe('resource limits', () => {
+  const config = (overrides: Partial<ProcessConfig>): ProcessConfig => ({
+    name: 'app',
+    script: 'app.js',
+    ...overrides,
+  });
+
+  it('should resolve limits with defaults', () => {
+    expect(resolveResourceLimits(config({}))).toBeUndefined();
+    expect(resolveResourceLimits(config({ maxMemory: '512M' }))).toEqual({
+      maxMemory: 512 * 1024 ** 2,
+      maxCpu: undefined,
+      action: 'restart',
+      memoryGracePeriod: 0,
+      cpuDuration: 60000,
+    });
+    expect(resolveResourceLimits(config({ maxCpu: 80, limits: { action: 'warn', cpuDuration: 5000 } }))).toMatchObject({
+      maxCpu: 80,
+      action: 'warn',
+      cpuDuration: 5000,
+    });
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => resolveResourceLimits(config({ maxMemory: 'lots' }))).toThrow('Invalid maxMemory: lots');
+    expect(() => resolveResourceLimits(config({ maxCpu: 0 }))).toThrow('Invalid maxCpu');
+    expect(() =>
+      resolveResourceLimits(config({ maxCpu: 50, limits: { action: 'explode' as 'warn' } }))
+    ).toThrow('Invalid resource limit action');
+  });
+
+  it('should report memory after the grace period, once per excursion', () => {
+    const watcher = new LimitWatcher(resolveResourceLimits(config({ maxMemory: 1000, limits: { memoryGracePeriod: 100 } }))!);
+
+    expect(watcher.update({ memory: 2000, cpu: 0 }, 0)).toEqual([]);
+    expect(watcher.update({ memory: 2000, cpu: 0 }, 100)).toEqual([
+      { resource: 'memory', code: ErrorCode.MEMORY_LIMIT_EXCEEDED, value: 2000, limit: 1000, duration: 100 },
+    ]);
+    expect(watcher.update({ memory: 2000, cpu: 0 }, 200)).toEqual([]);
+
+    // Dropping below the limit starts a new excursion
+    expect(watcher.update({ memory: 500, cpu: 0 }, 300)).toEqual([]);
+    expect(watcher.update({ memory: 1500, cpu: 0 }, 400)).toEqual([]);
+    expect(watcher.update({ memory: 1500, cpu: 0 }, 500)).toHaveLength(1);
+  });
+
+  it('should only report CPU sustained above the limit for cpuDuration', () => {
+    const watcher = new LimitWatcher(resolveResourceLimits(config({ maxCpu: 50, limits: { cpuDuration: 1000 } }))!);
+
+    expect(watcher.update({ memory: 0, cpu: 90 }, 0)).toEqual([]);
+    expect(watcher.update({ memory: 0, cpu: 20 }, 600)).toEqual([]);
+    expect(watcher.update({ memory: 0, cpu: 90 }, 1200)).toEqual([]);
+    expect(watcher.update({ memory: 0, cpu: 95 }, 2200)).toEqual([
+      { resource: 'cpu', code: ErrorCode.CPU_LIMIT_EXCEEDED, value: 95, limit: 50, duration: 1000 },
+    ]);
+  });
+
+  it('should inject --max-old-space-size for Node.js', () => {
+    expect(resolveMaxOldSpaceSize(config({ maxMemory: '512M' }))).toBeUndefined();
+    expect(resolveMaxOldSpaceSize(config({ maxMemory: '512M', limits: { maxOldSpaceSize: true } }))).toBe(512);
+    expect(resolveMaxOldSpaceSize(config({ maxMemory: '1G', limits: { maxOldSpaceSize: '768M' } }))).toBe(768);
+
+    const node = resolveSpawnCommand(config({ maxMemory: '256M', limits: { maxOldSpaceSize: true } }), '/srv/app.js');
+    expect(node.args).toEqual(['--max-old-space-size=256', '/srv/app.js']);
+
+    const explicit = resolveSpawnCommand(
+      config({ maxMemory: '256M', interpreterArgs: ['--max-old-space-size=100'], limits: { maxOldSpaceSize: true } }),
+      '/srv/app.js'
+    );
+    expect(explicit.args).toEqual(['--max-old-space-size=100', '/srv/app.js']);
+
+    const python = resolveSpawnCommand(config({ maxMemory: '256M', limits: { maxOldSpaceSize: true } }), '/srv/app.py');
+    expect(python.args).toEqual(['/srv/app.py']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ResourceSampler,
+  readProcCpuTimes,
+  readProcMemory,
+  emptyUsage,
+  toProcessMetrics,
+} from '../../packages/plugins/process-manager/src/index.js';
+
+const missingPid = 2 ** 22 + 1;
+
+describe.skipIf(process.platform !== 'linux')('ResourceSampler', () => {
+  it('should read /proc figures of a process', () => {
+    const times = readProcCpuTimes(process.pid);
+    expect(times?.user).toBeGreaterThanOrEqual(0);
+
+    const memory = readProcMemory(process.pid)!;
+    expect(memory.rss).toBeGreaterThan(0);
+    expect(memory.virtual).toBeGreaterThanOrEqual(memory.rss);
+    expect(memory.threads).toBeGreaterThan(0);
+
+    expect(readProcCpuTimes(missingPid)).toBeUndefined();
+    expect(readProcMemory(missingPid)).toBeUndefined();
+  });
+
+  it('should compute CPU percent from tick deltas', () => {
+    const sampler = new ResourceSampler();
+    const start = Date.now();
+
+    const first = sampler.sampleInstance(process.pid, start)!;
+    expect(first.cpu).toBe(0);
+    expect(first.memory).toBeGreaterThan(0);
+    expect(first.fds).toBeGreaterThan(0);
+
+    // Burn ~200ms of CPU
+    while (Date.now() - start < 200) {
+      Math.sqrt(Math.random());
+    }
+
+    const second = sampler.sampleInstance(process.pid)!;
+    expect(second.cpu).toBeGreaterThan(0);
+    expect(second.cpu).toBeCloseTo(second.cpuUser + second.cpuSystem);
+  });
+
+  it('should sum usage across instances and skip missing pids', () => {
+    const sampler = new ResourceSampler();
+    const single = sampler.sample([process.pid]);
+    const total = sampler.sample([process.pid, process.pid, missingPid]);
+
+    expect(total.threads).toBe(single.threads * 2);
+    expect(total.memory).toBeGreaterThan(single.memory);
+    expect(sampler.sample([]).memory).toBe(0);
+  });
+
+  it('should convert usage to ProcessMetrics', () => {
+    const metrics = toProcessMetrics({ ...emptyUsage(), cpu: 12.5, cpuUser: 10, cpuSystem: 2.5, memory: 1024, fds: 7 });
+
+    expect(metrics.cpu).toEqual({ percent: 12.5, user: 10, system: 2.5 });
+    expect(metrics.memory.rss).toBe(1024);
+    expect(metrics.handles).toBe(7);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeRestartDelay,
+  isStableRun,
+  resolveCrashLoopPolicy,
+  recordRestart,
+  DEFAULT_CRASH_LOOP,
+  DEFAULT_RESTART_DELAY,
+  DEFAULT_MAX_BACKOFF_DELAY,
+} from '../../packages/plugins/process-manager/src/index.js';
+
+describe('restart strategy', () => {
+  describe('computeRestartDelay', () => {
+    it('should use a fixed delay by default', () => {
+      expect(computeRestartDelay({}, 1)).toBe(DEFAULT_RESTART_DELAY);
+      expect(computeRestartDelay({ restartDelay: 500 }, 7)).toBe(500);
+    });
+
+    it('should grow linearly', () => {
+      const policy = { restartDelay: 100, backoffStrategy: 'linear' as const };
+      expect([1, 2, 3].map((attempt) => computeRestartDelay(policy, attempt))).toEqual([100, 200, 300]);
+      expect(computeRestartDelay({ ...policy, backoffMultiplier: 2 }, 3)).toBe(500);
+    });
+
+    it('should grow exponentially with equal jitter', () => {
+      const policy = { restartDelay: 100, backoffStrategy: 'exponential' as const };
+      expect([1, 2, 3, 4].map((attempt) => computeRestartDelay(policy, attempt, () => 0.999999))).toEqual([
+        100, 200, 400, 800,
+      ]);
+      expect(computeRestartDelay(policy, 4, () => 0)).toBe(400);
+      expect(computeRestartDelay({ ...policy, backoffMultiplier: 3 }, 3, () => 0.999999)).toBe(900);
+    });
+
+    it('should cap backoff at maxBackoffDelay', () => {
+      expect(computeRestartDelay({ restartDelay: 100, backoffStrategy: 'exponential' }, 20, () => 0.999999)).toBe(
+        DEFAULT_MAX_BACKOFF_DELAY
+      );
+      expect(
+        computeRestartDelay({ restartDelay: 100, backoffStrategy: 'linear', maxBackoffDelay: 250 }, 10)
+      ).toBe(250);
+    });
+  });
+
+  describe('isStableRun', () => {
+    it('should require minUptime', () => {
+      expect(isStableRun({}, 60000)).toBe(false);
+      expect(isStableRun({ minUptime: 1000 }, 999)).toBe(false);
+      expect(isStableRun({ minUptime: 1000 }, 1000)).toBe(true);
+    });
+  });
+
+  describe('crash loops', () => {
+    it('should resolve the policy', () => {
+      expect(resolveCrashLoopPolicy(true)).toEqual(DEFAULT_CRASH_LOOP);
+      expect(resolveCrashLoopPolicy({ restarts: 3 })).toEqual({ ...DEFAULT_CRASH_LOOP, restarts: 3 });
+      expect(resolveCrashLoopPolicy(false)).toBeUndefined();
+    });
+
+    it('should leave crash-loop detection off unless configured', () => {
+      expect(resolveCrashLoopPolicy(undefined)).toBeUndefined();
+    });
+
+    it('should count restarts in a sliding window', () => {
+      const policy = { restarts: 3, window: 1000, cooldown: 5000 };
+      const history: number[] = [];
+
+      expect(recordRestart(history, policy, 0)).toBe(false);
+      expect(recordRestart(history, policy, 500)).toBe(false);
+      expect(recordRestart(history, policy, 1200)).toBe(false);
+      expect(history).toEqual([500, 1200]);
+      expect(recordRestart(history, policy, 1300)).toBe(true);
+    });
+  });
+});
@@ -257,6 +257,14 @@ describe('MetricsRegistry', () => {
     expect(histogram1).toBe(histogram2);
   });
 
+  it('should snapshot counters and gauges', () => {
+    metrics.counter('jobs_total', 'Jobs').inc({}, 3);
+    metrics.gauge('queue_depth', 'Queue depth').set(42);
+    metrics.histogram('job_duration', 'Job duration').observe(1);
+
+    expect(metrics.snapshot()).toEqual({ jobs_total: 3, queue_depth: 42 });
+  });
+
   it('should reset all metrics', () => {
     const counter = metrics.counter('test_counter', 'Test');
     const gauge = metrics.gauge('test_gauge', 'Test');
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseSize, parseDuration, isRotationEnabled, validateLogRotation } from '../../packages/core/src/utils/units.js';
+import { DaemonError } from '../../packages/core/src/errors/index.js';
+
+describe('parseSize', () => {
+  it('should pass numbers through as bytes', () => {
+    expect(parseSize(2048)).toBe(2048);
+  });
+
+  it('should parse binary unit suffixes', () => {
+    expect(parseSize('512')).toBe(512);
+    expect(parseSize('10K')).toBe(10 * 1024);
+    expect(parseSize('512M')).toBe(512 * 1024 * 1024);
+    expect(parseSize('1.5G')).toBe(1.5 * 1024 ** 3);
+    expect(parseSize('2mb')).toBe(2 * 1024 * 1024);
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => parseSize('lots')).toThrow(DaemonError);
+    expect(() => parseSize('10X')).toThrow('Invalid size: 10X');
+  });
+});
+
+describe('parseDuration', () => {
+  it('should pass numbers through as milliseconds', () => {
+    expect(parseDuration(250)).toBe(250);
+  });
+
+  it('should parse unit suffixes', () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('15m')).toBe(15 * 60_000);
+    expect(parseDuration('1h')).toBe(3_600_000);
+    expect(parseDuration('7d')).toBe(7 * 86_400_000);
+    expect(parseDuration('1w')).toBe(7 * 86_400_000);
+  });
+
+  it('should reject invalid durations', () => {
+    expect(() => parseDuration('soon')).toThrow(DaemonError);
+    expect(() => parseDuration('3y')).toThrow('Invalid duration: 3y');
+  });
+});
+
+describe('isRotationEnabled', () => {
+  it('should require a size or date trigger', () => {
+    expect(isRotationEnabled(undefined)).toBe(false);
+    expect(isRotationEnabled({ maxFiles: 3 })).toBe(false);
+    expect(isRotationEnabled({ maxSize: '10M' })).toBe(true);
+    expect(isRotationEnabled({ datePattern: 'YYYY-MM-DD' })).toBe(true);
+    expect(isRotationEnabled({ maxSize: '10M', enabled: false })).toBe(false);
+  });
+});
+
+describe('validateLogRotation', () => {
+  it('should reject sizes and durations that do not parse', () => {
+    expect(() => validateLogRotation({ name: 'api', script: 'api.js', logRotation: { maxSize: '10M', maxAge: '7d' } })).not.toThrow();
+    expect(() => validateLogRotation({ name: 'api', script: 'api.js', logRotation: { maxSize: 'huge' } })).toThrow(
+      'Invalid logRotation: Invalid size: huge'
+    );
+    expect(() =>
+      validateLogRotation({ name: 'api', script: 'api.js', logRotation: { datePattern: 'YYYY-MM-DD', maxAge: 'soon' } })
+    ).toThrow('Invalid duration: soon');
+  });
+});
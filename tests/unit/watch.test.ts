@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, createMatcher, globBase, resolveWatch } from '../../packages/plugins/watch-mode/src/index.js';
+import type { ProcessConfig, WatchConfig } from '../../packages/core/src/index.js';
+import { resolve } from 'path';
+
+const matches = (pattern: string, path: string): boolean => globToRegExp(pattern).test(path);
+
+const config = (watch: boolean | WatchConfig, cwd?: string): ProcessConfig => ({
+  name: 'api',
+  script: 'src/server.js',
+  watch,
+  ...(cwd !== undefined ? { cwd } : {}),
+});
+
+describe('globToRegExp', () => {
+  it('should match stars within a segment', () => {
+    expect(matches('src/*.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/*.ts', 'src/lib/index.ts')).toBe(false);
+    expect(matches('*.ts', '.ts')).toBe(true);
+    expect(matches('file?.js', 'file1.js')).toBe(true);
+    expect(matches('file?.js', 'file10.js')).toBe(false);
+  });
+
+  it('should match any number of segments with a double star', () => {
+    expect(matches('src/**/*.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/**/*.ts', 'src/a/b/index.ts')).toBe(true);
+    expect(matches('src/**', 'src/a/b')).toBe(true);
+    expect(matches('**/test', 'a/test')).toBe(true);
+    expect(matches('**/test', 'test')).toBe(true);
+    // Not a whole segment: a single star
+    expect(matches('src/a**.ts', 'src/a/b.ts')).toBe(false);
+  });
+
+  it('should match character sets', () => {
+    expect(matches('log[0-9].txt', 'log5.txt')).toBe(true);
+    expect(matches('log[0-9].txt', 'logx.txt')).toBe(false);
+    expect(matches('log[!0-9].txt', 'logx.txt')).toBe(true);
+    expect(matches('log[!0-9].txt', 'log5.txt')).toBe(false);
+    expect(matches('[abc', '[abc')).toBe(true);
+  });
+
+  it('should match alternatives', () => {
+    expect(matches('src/*.{js,ts}', 'src/index.js')).toBe(true);
+    expect(matches('src/*.{js,ts}', 'src/index.ts')).toBe(true);
+    expect(matches('src/*.{js,ts}', 'src/index.css')).toBe(false);
+    expect(matches('{lib,src/{a,b}}/x', 'src/b/x')).toBe(true);
+    expect(matches('a,b', 'a,b')).toBe(true);
+  });
+
+  it('should match escaped characters literally', () => {
+    expect(matches('\\*.js', '*.js')).toBe(true);
+    expect(matches('\\*.js', 'a.js')).toBe(false);
+    expect(matches('a.b', 'axb')).toBe(false);
+  });
+});
+
+describe('createMatcher', () => {
+  it('should match paths under matching directories', () => {
+    const match = createMatcher(['src', 'config/*.json']);
+    expect(match('src')).toBe(true);
+    expect(match('src/lib/index.ts')).toBe(true);
+    expect(match('config/app.json')).toBe(true);
+    expect(match('lib/index.ts')).toBe(false);
+    expect(match('test/index.ts')).toBe(false);
+  });
+
+  it('should match patterns without a separator by name at any depth', () => {
+    const match = createMatcher(['node_modules', '*.log']);
+    expect(match('node_modules/pkg/index.js')).toBe(true);
+    expect(match('packages/a/node_modules/pkg/index.js')).toBe(true);
+    expect(match('logs/app.log')).toBe(true);
+    expect(match('src/index.ts')).toBe(false);
+  });
+
+  it('should ignore leading ./ and trailing separators', () => {
+    const match = createMatcher(['./dist/']);
+    expect(match('dist/index.js')).toBe(true);
+    expect(match('./dist')).toBe(true);
+  });
+
+  it('should match everything with .', () => {
+    expect(createMatcher(['.'])('src/index.ts')).toBe(true);
+    expect(createMatcher([])('src/index.ts')).toBe(false);
+  });
+});
+
+describe('globBase', () => {
+  it('should return the leading segments that are not patterns', () => {
+    expect(globBase('src/**/*.ts')).toBe('src');
+    expect(globBase('./src/lib/')).toBe('src/lib');
+    expect(globBase('*.js')).toBe('.');
+    expect(globBase('/srv/app/*.js')).toBe('/srv/app');
+    expect(globBase('/*.js')).toBe('/');
+  });
+});
+
+describe('resolveWatch', () => {
+  it('should return undefined when watching is off', () => {
+    expect(resolveWatch({ name: 'api', script: 'server.js' })).toBeUndefined();
+    expect(resolveWatch(config(false))).toBeUndefined();
+    expect(resolveWatch(config(true), false)).toBeUndefined();
+  });
+
+  it('should apply defaults', () => {
+    expect(resolveWatch(config(true))).toEqual({
+      cwd: resolve('src'),
+      paths: ['.'],
+      ignore: expect.arrayContaining(['node_modules', '.git']),
+      delay: 500,
+      clearConsole: false,
+    });
+    expect(resolveWatch({ name: 'api', script: 'server.js' }, true)).toMatchObject({ paths: ['.'] });
+  });
+
+  it('should add configured ignore patterns to the defaults', () => {
+    const resolved = resolveWatch(config({ paths: ['lib'], ignore: ['dist'], delay: 1000, clearConsole: true }, '/srv/api'))!;
+    expect(resolved).toMatchObject({ cwd: resolve('/srv/api'), paths: ['lib'], delay: 1000, clearConsole: true });
+    expect(resolved.ignore).toContain('node_modules');
+    expect(resolved.ignore).toContain('dist');
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => resolveWatch(config({ paths: 'src' as never }))).toThrow('Invalid watch.paths');
+    expect(() => resolveWatch(config({ paths: [], ignore: [''] }))).toThrow('Invalid watch.ignore');
+    expect(() => resolveWatch(config({ paths: [], delay: -1 }))).toThrow('Invalid watch.delay');
+  });
+});
@@ -1,4 +1,19 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, type Options } from 'tsup';
+
+/**
+ * Cluster primary shim, forked by the process manager when it runs from source
+ * (the CLI bundle gets its own copy next to the daemon)
+ */
+export const clusterPrimaryConfig: Options = {
+  entry: ['packages/plugins/process-manager/src/cluster-primary.ts'],
+  outDir: 'packages/plugins/process-manager/dist',
+  format: ['esm'],
+  dts: false,
+  sourcemap: true,
+  clean: true,
+  bundle: true,
+  target: 'node20',
+};
 
 export default defineConfig([
   // Core package
@@ -15,7 +30,11 @@ export default defineConfig([
   },
   // CLI package
   {
-    entry: ['packages/cli/src/cli.ts', 'packages/cli/src/daemon.ts'],
+    entry: [
+      'packages/cli/src/cli.ts',
+      'packages/cli/src/daemon.ts',
+      'packages/plugins/process-manager/src/cluster-primary.ts',
+    ],
     outDir: 'packages/cli/dist',
     format: ['esm'],
     dts: false,
@@ -37,4 +56,5 @@ export default defineConfig([
     target: 'node20',
     external: ['@opendaemon/core'],
   },
+  clusterPrimaryConfig,
 ]);